@@ -7,6 +7,7 @@ import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import PracticeSession from "@/pages/PracticeSession";
 import Assessment from "@/pages/Assessment";
+import RunInspector from "@/pages/RunInspector";
 
 function Router() {
   return (
@@ -14,6 +15,7 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/session/:id" component={PracticeSession} />
       <Route path="/assessment/:sessionId" component={Assessment} />
+      <Route path="/admin/sessions/:id/runs" component={RunInspector} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { SessionEvent } from "@shared/schema";
+
+export type SessionSocketStatus = "connecting" | "open" | "closed";
+
+/** A persona reply being streamed; `content` is empty while the persona is still typing. */
+export interface StreamingReply {
+  replyId: string;
+  personaId: number;
+  personaName: string;
+  channel: string;
+  content: string;
+}
+
+type ReplyEvent = Extract<SessionEvent, { type: `reply.${string}` }>;
+
+const MAX_RECONNECT_DELAY_MS = 15000;
+
+interface WithId {
+  id: number;
+}
+
+/** Applies a streamed reply event to the in-flight replies. */
+function applyReplyEvent(replies: StreamingReply[], event: ReplyEvent): StreamingReply[] {
+  switch (event.type) {
+    case "reply.typing": {
+      const { replyId, personaId, personaName, channel } = event;
+      return [...replies.filter((r) => r.replyId !== replyId), { replyId, personaId, personaName, channel, content: "" }];
+    }
+    case "reply.delta":
+      return replies.map((r) => (r.replyId === event.replyId ? { ...r, content: r.content + event.delta } : r));
+    case "reply.failed":
+      return replies.filter((r) => r.replyId !== event.replyId);
+  }
+}
+
+/** Applies a pushed session event to the React Query caches it affects. */
+function applySessionEvent(queryClient: QueryClient, event: SessionEvent) {
+  const id = event.sessionId.toString();
+
+  switch (event.type) {
+    case "message.created":
+      queryClient.setQueryData<WithId[]>(["/api/sessions", id, "messages"], (old) =>
+        old && !old.some((m) => m.id === event.message.id) ? [...old, event.message] : old,
+      );
+      // The rep's turns can add to the commitments ledger
+      if (event.message.senderType === "user") {
+        queryClient.invalidateQueries({ queryKey: ["/api/sessions", id, "commitments"] });
+      }
+      break;
+    case "session.updated":
+      // The cached session also carries its scenario, which events omit
+      queryClient.setQueryData<object>(["/api/sessions", id], (old) =>
+        old ? { ...old, ...event.session } : old,
+      );
+      break;
+    case "artifact.updated":
+      // Artifacts are listed most recently updated first
+      queryClient.setQueryData<WithId[]>(["/api/sessions", id, "artifacts"], (old) =>
+        old ? [event.artifact, ...old.filter((a) => a.id !== event.artifact.id)] : old,
+      );
+      queryClient.invalidateQueries({
+        queryKey: ["/api/artifacts", event.artifact.id.toString(), "revisions"],
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", id, "commitments"] });
+      break;
+    case "assessment.updated":
+      queryClient.setQueryData<{ job?: unknown }>([`/api/sessions/${id}/assessment`], (old) => ({
+        ...event.assessment,
+        job: old?.job ?? null,
+      }));
+      break;
+    case "assessment.job":
+      queryClient.setQueryData<object>([`/api/sessions/${id}/assessment`], (old) =>
+        old ? { ...old, job: event.job } : old,
+      );
+      break;
+  }
+}
+
+/**
+ * Subscribes to the session's WebSocket channel and keeps the session,
+ * message, artifact and assessment caches current from pushed events, and
+ * tracks persona replies while they stream in. Reconnects with backoff and
+ * refetches on reconnect, since events sent while disconnected are not
+ * replayed.
+ */
+export function useSessionEvents(sessionId: number): { status: SessionSocketStatus; replies: StreamingReply[] } {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<SessionSocketStatus>("connecting");
+  const [replies, setReplies] = useState<StreamingReply[]>([]);
+
+  useEffect(() => {
+    if (sessionId <= 0) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let disposed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const path = buildUrl(api.realtime.session.path, { sessionId });
+      socket = new WebSocket(`${protocol}//${window.location.host}${path}`);
+      setStatus("connecting");
+
+      socket.onopen = () => {
+        if (attempts > 0) {
+          setReplies([]);
+          queryClient.invalidateQueries({ queryKey: ["/api/sessions", sessionId.toString()] });
+          queryClient.invalidateQueries({ queryKey: [`/api/sessions/${sessionId}/assessment`] });
+        }
+        attempts = 0;
+        setStatus("open");
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          const event = JSON.parse(message.data) as SessionEvent;
+          if (event.type === "reply.typing" || event.type === "reply.delta" || event.type === "reply.failed") {
+            setReplies((current) => applyReplyEvent(current, event));
+            return;
+          }
+          // The saved message replaces the streamed text
+          if (event.type === "message.created" && event.message.metadata?.replyId) {
+            setReplies((current) => current.filter((r) => r.replyId !== event.message.metadata?.replyId));
+          }
+          applySessionEvent(queryClient, event);
+        } catch (error) {
+          console.error("Invalid session event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (disposed) return;
+        setStatus("closed");
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [sessionId, queryClient]);
+
+  return { status, replies };
+}
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useSessionEvents } from "@/hooks/use-session-events";
 import {
   Card,
   CardContent,
@@ -42,6 +43,8 @@ import {
   TrendingUp,
   TrendingDown,
   Shield,
+  Quote,
+  Workflow,
 } from "lucide-react";
 
 interface AssessmentScores {
@@ -54,24 +57,46 @@ interface AssessmentScores {
   decisionQuality: number;
 }
 
+interface EvidenceRef {
+  messageId?: number;
+  artifactId?: number;
+  excerpt: string;
+}
+
 interface FrictionPoint {
   area: string;
   description: string;
   severity: "low" | "medium" | "high";
   channel: string;
+  evidence?: EvidenceRef[];
+}
+
+interface AssessmentJob {
+  id: number;
+  status: "queued" | "running" | "succeeded" | "failed";
+  attempts: number;
+  maxAttempts: number;
+  progress: number;
+  progressMessage: string | null;
+  lastError: string | null;
+  runAfter: string;
 }
 
 interface Assessment {
   id: number;
   sessionId: number;
-  status: string;
+  status: "pending" | "in_progress" | "completed" | "failed";
+  job: AssessmentJob | null;
   overallScore: number;
   recommendation: string;
   summary: string;
   scores: AssessmentScores;
+  scoreRationales: Partial<Record<keyof AssessmentScores, string>> | null;
+  scoreEvidence: Partial<Record<keyof AssessmentScores, EvidenceRef[]>> | null;
   frictionPoints: FrictionPoint[];
   strengths: string[];
   areasForImprovement: string[];
+  activeConstraints: string[];
   hitlRequired: boolean;
   hitlVerdict: string | null;
   hitlNotes: string | null;
@@ -94,6 +119,14 @@ const SCORE_LABELS: { key: keyof AssessmentScores; label: string; icon: typeof B
   { key: "decisionQuality", label: "Decision Quality", icon: Target },
 ];
 
+const CONSTRAINT_NAMES: Record<string, string> = {
+  procurementStrictness: "Procurement strictness",
+  complianceSensitivity: "Compliance sensitivity",
+  tickingClockPressure: "Ticking-clock pressure",
+  reputationalRisk: "Reputational risk",
+  regulatoryExposure: "Regulatory exposure",
+};
+
 function getScoreColor(score: number): string {
   if (score >= 70) return "text-green-600";
   if (score >= 50) return "text-yellow-600";
@@ -188,6 +221,35 @@ function CircularScore({ score }: { score: number }) {
   );
 }
 
+/** Links each cited excerpt to the exact turn or artifact in the session transcript. */
+function EvidenceList({
+  evidence,
+  onOpen,
+}: {
+  evidence: EvidenceRef[] | undefined;
+  onOpen: (ref: EvidenceRef) => void;
+}) {
+  if (!evidence || evidence.length === 0) return null;
+  return (
+    <div className="mt-3 space-y-1.5">
+      {evidence.map((ref, index) => (
+        <button
+          key={index}
+          type="button"
+          onClick={() => onOpen(ref)}
+          className="flex w-full items-start gap-1.5 rounded-md border bg-muted/40 px-2 py-1.5 text-left text-xs text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+        >
+          <Quote className="h-3 w-3 mt-0.5 shrink-0" />
+          <span className="flex-1 leading-snug">{ref.excerpt}</span>
+          <span className="shrink-0 text-[10px] uppercase tracking-wide">
+            {ref.artifactId ? "Artifact" : "Turn"}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
 export default function Assessment() {
   const params = useParams<{ sessionId: string }>();
   const sessionId = parseInt(params.sessionId || "0");
@@ -206,6 +268,9 @@ export default function Assessment() {
     enabled: sessionId > 0,
   });
 
+  // Scoring progress is pushed over the session channel
+  useSessionEvents(sessionId);
+
   const {
     data: session,
     isLoading: sessionLoading,
@@ -230,6 +295,18 @@ export default function Assessment() {
     },
   });
 
+  const retryMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/sessions/${sessionId}/assessment`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [`/api/sessions/${sessionId}/assessment`],
+      });
+    },
+  });
+
   const isLoading = assessmentLoading || sessionLoading;
 
   if (isLoading) {
@@ -266,11 +343,69 @@ export default function Assessment() {
     );
   }
 
+  if (assessment.status !== "completed") {
+    const job = assessment.job;
+    const failed = assessment.status === "failed";
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Card className="max-w-md w-full mx-4">
+          <CardHeader className="text-center">
+            {failed ? (
+              <XCircle className="h-12 w-12 text-destructive mx-auto mb-2" />
+            ) : (
+              <Loader2 className="h-12 w-12 animate-spin text-muted-foreground mx-auto mb-2" />
+            )}
+            <CardTitle>{failed ? "Assessment Failed" : "Generating Assessment"}</CardTitle>
+            <CardDescription>
+              {failed
+                ? "Scoring did not complete after several attempts. You can queue it again."
+                : "Your session is being scored. This page updates automatically."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!failed && (
+              <div className="space-y-2">
+                <Progress value={job?.progress ?? 0} className="h-2" />
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{job?.progressMessage ?? "Queued"}</span>
+                  <span>{job?.progress ?? 0}%</span>
+                </div>
+              </div>
+            )}
+            {job?.lastError && (
+              <p className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-800">
+                {job.lastError}
+                {job.attempts > 0 && ` (attempt ${job.attempts} of ${job.maxAttempts})`}
+              </p>
+            )}
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={() => navigate(`/session/${sessionId}`)}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to Session
+              </Button>
+              {failed && (
+                <Button onClick={() => retryMutation.mutate()} disabled={retryMutation.isPending}>
+                  {retryMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Retry Assessment
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   const recStyle = getRecommendationStyle(assessment.recommendation);
   const RecIcon = recStyle.icon;
 
   const alreadyReviewed = !!assessment.hitlVerdict;
 
+  const openEvidence = (ref: EvidenceRef) => {
+    const anchor = ref.artifactId ? `artifact-${ref.artifactId}` : `message-${ref.messageId}`;
+    navigate(`/session/${sessionId}#${anchor}`);
+  };
+
   const handleHitlSubmit = () => {
     if (!hitlVerdict) return;
     hitlMutation.mutate({ verdict: hitlVerdict, notes: hitlNotes });
@@ -314,6 +449,14 @@ export default function Assessment() {
                   </div>
                 )}
               </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate(`/admin/sessions/${sessionId}/runs`)}
+              >
+                <Workflow className="mr-2 h-4 w-4" />
+                Workflow Runs
+              </Button>
             </div>
           </div>
 
@@ -337,6 +480,18 @@ export default function Assessment() {
                   <p className="text-muted-foreground leading-relaxed max-w-xl">
                     {assessment.summary}
                   </p>
+                  <div className="flex flex-wrap items-center justify-center md:justify-start gap-2">
+                    <span className="text-xs font-medium text-muted-foreground">Active constraints</span>
+                    {assessment.activeConstraints && assessment.activeConstraints.length > 0 ? (
+                      assessment.activeConstraints.map((constraint) => (
+                        <Badge key={constraint} variant="secondary" className="text-xs">
+                          {CONSTRAINT_NAMES[constraint] ?? constraint}
+                        </Badge>
+                      ))
+                    ) : (
+                      <span className="text-xs text-muted-foreground">None</span>
+                    )}
+                  </div>
                 </div>
               </div>
             </CardContent>
@@ -351,6 +506,7 @@ export default function Assessment() {
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
               {SCORE_LABELS.map(({ key, label, icon: Icon }) => {
                 const score = assessment.scores[key];
+                const rationale = assessment.scoreRationales?.[key];
                 return (
                   <Card key={key} className="overflow-hidden">
                     <CardContent className="p-5">
@@ -382,6 +538,12 @@ export default function Assessment() {
                           style={{ width: `${score}%` }}
                         />
                       </div>
+                      {rationale && (
+                        <p className="mt-3 text-xs text-muted-foreground leading-relaxed">
+                          {rationale}
+                        </p>
+                      )}
+                      <EvidenceList evidence={assessment.scoreEvidence?.[key]} onOpen={openEvidence} />
                     </CardContent>
                   </Card>
                 );
@@ -416,6 +578,7 @@ export default function Assessment() {
                           <p className="text-sm text-muted-foreground leading-relaxed">
                             {fp.description}
                           </p>
+                          <EvidenceList evidence={fp.evidence} onOpen={openEvidence} />
                         </div>
                         <div className="flex items-center gap-1.5 text-xs text-muted-foreground shrink-0">
                           <MessageSquare className="h-3.5 w-3.5" />
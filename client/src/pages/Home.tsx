@@ -117,6 +117,7 @@ interface Session {
   };
   startedAt: string;
   completedAt: string | null;
+  activeMs: number; // time worked on the session, excluding pauses
 }
 
 interface UserConfig {
@@ -215,6 +216,13 @@ const CATEGORY_LABELS: Record<string, string> = {
   support: "Support",
 };
 
+function formatActiveTime(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return "<1m active";
+  if (minutes < 60) return `${minutes}m active`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m active`;
+}
+
 // ─── Component ─────────────────────────────────────────────────────────────
 
 export default function Home() {
@@ -976,6 +984,10 @@ export default function Home() {
                         </div>
                       </div>
                       <div className="flex items-center gap-3 shrink-0">
+                        <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                          <Clock className="h-3 w-3" />
+                          {formatActiveTime(session.activeMs)}
+                        </span>
                         <span className="text-xs text-muted-foreground hidden sm:block">
                           {new Date(session.startedAt).toLocaleDateString(undefined, {
                             month: "short",
@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useSessionEvents, type StreamingReply } from "@/hooks/use-session-events";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
@@ -17,6 +18,13 @@ import {
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
 import {
   Tooltip,
@@ -49,6 +57,12 @@ import {
   Info,
   BookOpen,
   HelpCircle,
+  History,
+  Radio,
+  Timer,
+  Pause,
+  Play,
+  Handshake,
 } from "lucide-react";
 
 // ---------------------------------------------------------------------------
@@ -82,6 +96,16 @@ interface Scenario {
   estimatedSteps: number;
   channels: string[];
   requiredArtifacts: string[];
+  artifactPolicy: {
+    enforcement: "block" | "penalize";
+    dueByStep: Record<string, number>;
+    penaltyPerMissing: number;
+  } | null;
+  pausePolicy: {
+    assessmentMode: "allow" | "cap" | "forbid";
+    maxPauses?: number;
+    maxPausedSeconds?: number;
+  } | null;
 }
 
 interface Session {
@@ -91,9 +115,37 @@ interface Session {
   status: string;
   currentStep: number;
   currentChannel: string;
+  stepDeadlineAt: string | null;
+  stepExpiredAt: string | null;
+  pauses: Array<{ startedAt: string; endedAt: string | null; reason: "manual" | "inactivity" }>;
   scenario: Scenario;
 }
 
+type Stance = "supportive" | "neutral" | "skeptical" | "opposed";
+
+interface StakeholderProfile {
+  personaId: number;
+  name: string;
+  role: string;
+  roleInScenario: string;
+  traits: string[];
+  priorities: string[];
+  avatarInitials: string;
+  avatarColor: string;
+}
+
+interface MessageMetadata {
+  kind?: string;
+  profile?: StakeholderProfile;
+  stance?: Stance | null;
+  meeting?: {
+    reaction: "respond" | "interrupt" | "defer";
+    stance: Stance | null;
+    relevance: number;
+    deferTo?: string;
+  };
+}
+
 interface Message {
   id: number;
   sessionId: number;
@@ -104,6 +156,7 @@ interface Message {
   createdAt: string;
   step: number;
   personaId?: number | null;
+  metadata?: MessageMetadata | null;
 }
 
 interface Artifact {
@@ -112,9 +165,59 @@ interface Artifact {
   type: string;
   title: string;
   content: string;
+  status: string;
+  score: number | null;
+  feedback: string | null;
+  createdAt: string;
+}
+
+type CommitmentVerdict = "appropriate" | "needs_approval" | "overreach";
+
+interface Commitment {
+  kind: "pricing_concession" | "delivery_date" | "scope" | "compliance_guarantee";
+  verdict: CommitmentVerdict;
+  content: string;
+  value: string | null;
+  reason: string;
+  messageId?: number;
+  artifactId?: number;
+  channel: string | null;
+  step: number | null;
+}
+
+interface CommitmentLedger {
+  seniority: string;
+  discountAuthority: number;
+  commitments: Commitment[];
+  counts: Record<CommitmentVerdict, number>;
+}
+
+interface ArtifactRevision {
+  id: number;
+  artifactId: number;
+  revisionNumber: number;
+  version: number;
+  title: string;
+  content: string;
+  status: string;
+  feedback: string | null;
+  score: number | null;
   createdAt: string;
 }
 
+interface DiffRow {
+  kind: "unchanged" | "changed" | "removed" | "added";
+  left: { number: number; text: string } | null;
+  right: { number: number; text: string } | null;
+}
+
+interface ArtifactDiff {
+  from: ArtifactRevision;
+  to: ArtifactRevision;
+  rows: DiffRow[];
+  stats: { added: number; removed: number; unchanged: number };
+}
+
 // ---------------------------------------------------------------------------
 // Channel config
 // ---------------------------------------------------------------------------
@@ -128,6 +231,34 @@ const CHANNEL_CONFIG: Record<string, { label: string; icon: React.ElementType }>
   meeting: { label: "Meeting", icon: Users },
 };
 
+// ---------------------------------------------------------------------------
+// Meeting stance config
+// ---------------------------------------------------------------------------
+
+const STANCE_STYLES: Record<Stance, string> = {
+  supportive: "border-green-300 text-green-700 dark:border-green-700 dark:text-green-400",
+  neutral: "border-gray-300 text-gray-600 dark:border-gray-600 dark:text-gray-300",
+  skeptical: "border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-400",
+  opposed: "border-red-300 text-red-700 dark:border-red-700 dark:text-red-400",
+};
+
+// ---------------------------------------------------------------------------
+// Commitment ledger config
+// ---------------------------------------------------------------------------
+
+const COMMITMENT_KIND_LABELS: Record<Commitment["kind"], string> = {
+  pricing_concession: "Pricing",
+  delivery_date: "Delivery date",
+  scope: "Scope",
+  compliance_guarantee: "Compliance",
+};
+
+const COMMITMENT_VERDICT_STYLES: Record<CommitmentVerdict, { label: string; className: string }> = {
+  appropriate: { label: "Within authority", className: "border-green-300 text-green-700 dark:border-green-700 dark:text-green-400" },
+  needs_approval: { label: "Needs approval", className: "border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-400" },
+  overreach: { label: "Overreach", className: "border-red-300 text-red-700 dark:border-red-700 dark:text-red-400" },
+};
+
 // ---------------------------------------------------------------------------
 // Artifact type config
 // ---------------------------------------------------------------------------
@@ -156,6 +287,39 @@ function getChannelLabel(channel: string) {
   return config ? config.label : channel;
 }
 
+/** Extracts the server's `message` from an apiRequest error ("409: {...}") */
+function getErrorMessage(error: unknown, fallback: string) {
+  const match = error instanceof Error ? error.message.match(/^\d+: ([\s\S]*)$/) : null;
+  if (!match) return fallback;
+  try {
+    return JSON.parse(match[1]).message ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Name used in @mentions: the first name, skipping honorifics ("Dr. James Okafor" → "James") */
+function getMentionName(persona: Persona) {
+  const parts = persona.name.split(/\s+/);
+  return (/^(dr|mr|mrs|ms|prof)\.?$/i.test(parts[0]) && parts[1]) || parts[0];
+}
+
+/** The partial @mention being typed just before the caret, or null when there is none */
+function getMentionQuery(text: string, caret: number) {
+  const match = text.slice(0, caret).match(/(?:^|\s)@(\w*)$/);
+  return match ? match[1] : null;
+}
+
+/** The first of `personas` the message @mentions */
+function findMentionedPersona(text: string, personas: Persona[]) {
+  const mentions = (text.match(/@\w+/g) ?? []).map((m) => m.slice(1).toLowerCase());
+  for (const mention of mentions) {
+    const persona = personas.find((p) => getMentionName(p).toLowerCase() === mention);
+    if (persona) return persona;
+  }
+  return undefined;
+}
+
 function formatTimestamp(ts: string) {
   const date = new Date(ts);
   return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
@@ -187,8 +351,58 @@ function renderMessageContent(content: string) {
 // Call-specific UI components
 // ---------------------------------------------------------------------------
 
+/**
+ * Time left on the current step under ticking-clock pressure; the server
+ * enforces the deadline. Frozen while paused, since resuming pushes the
+ * deadline back by the length of the pause.
+ */
+function StepCountdown({ deadline, expired, pausedAt }: { deadline: string; expired: boolean; pausedAt?: string }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (pausedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [pausedAt]);
+
+  const remainingMs = new Date(deadline).getTime() - (pausedAt ? new Date(pausedAt).getTime() : now);
+  if (expired || remainingMs <= 0) {
+    return (
+      <span className="inline-flex items-center gap-1.5 font-medium text-destructive">
+        <Timer className="h-4 w-4" />
+        Time's up
+      </span>
+    );
+  }
+
+  const seconds = Math.ceil(remainingMs / 1000);
+  const label = `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+  const urgency = pausedAt
+    ? ""
+    : seconds <= 30
+      ? "text-destructive animate-pulse"
+      : seconds <= 60
+      ? "text-amber-600 dark:text-amber-400"
+      : "";
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className={`inline-flex items-center gap-1.5 font-mono font-medium tabular-nums ${urgency}`}>
+          {pausedAt ? <Pause className="h-4 w-4" /> : <Timer className="h-4 w-4" />}
+          {label}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>
+        {pausedAt
+          ? "Timer paused until you resume"
+          : "Time left on this step before the stakeholder escalates or the session moves on"}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
 /** Pulsing "Live Call" banner shown when the current channel is "call" */
-function CallInProgressBanner({ personaName }: { personaName?: string }) {
+function CallInProgressBanner({ personaName, speaking }: { personaName?: string; speaking?: boolean }) {
   return (
     <div className="bg-green-50 dark:bg-green-950/30 border-b border-green-200 dark:border-green-800 px-4 py-3">
       <div className="flex items-center justify-between">
@@ -206,7 +420,7 @@ function CallInProgressBanner({ personaName }: { personaName?: string }) {
             </div>
             {personaName && (
               <div className="text-xs text-green-600 dark:text-green-400">
-                Speaking with {personaName}
+                {speaking ? `${personaName} is speaking…` : `Speaking with ${personaName}`}
               </div>
             )}
           </div>
@@ -220,6 +434,133 @@ function CallInProgressBanner({ personaName }: { personaName?: string }) {
   );
 }
 
+/** Who is in the room on the meeting channel, with each stakeholder's latest stance */
+function MeetingParticipantsBanner({
+  participants,
+  speaking,
+}: {
+  participants: Array<{ persona: Persona; stance: Stance | null }>;
+  speaking?: string;
+}) {
+  return (
+    <div className="bg-muted/40 border-b px-4 py-3">
+      <div className="flex items-center gap-2 mb-2 text-sm font-semibold text-foreground">
+        <Users className="h-4 w-4 text-muted-foreground" />
+        <span>Meeting in progress</span>
+        {speaking && <span className="text-xs font-normal text-muted-foreground">{speaking} is speaking…</span>}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {participants.map(({ persona, stance }) => (
+          <div key={persona.id} className="flex items-center gap-1.5 rounded-full border bg-card pl-1 pr-2 py-0.5">
+            <span
+              className="h-5 w-5 rounded-full flex items-center justify-center text-white text-[9px] font-bold"
+              style={{ backgroundColor: persona.avatarColor }}
+            >
+              {persona.avatarInitials}
+            </span>
+            <span className="text-xs text-foreground">{persona.name}</span>
+            {stance && (
+              <Badge variant="outline" className={`text-[10px] px-1.5 py-0 capitalize ${STANCE_STYLES[stance]}`}>
+                {stance}
+              </Badge>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** "Stakeholder joined" system message, shown as the newcomer's profile card */
+function StakeholderJoinedCard({ profile }: { profile: StakeholderProfile }) {
+  return (
+    <div className="w-full max-w-md rounded-lg border bg-card px-4 py-3 shadow-sm">
+      <div className="flex items-center gap-1.5 mb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground/70">
+        <Users className="h-3 w-3" />
+        Stakeholder joined
+      </div>
+      <div className="flex items-start gap-3">
+        <div
+          className="h-10 w-10 rounded-full flex items-center justify-center text-white text-sm font-bold shrink-0"
+          style={{ backgroundColor: profile.avatarColor }}
+        >
+          {profile.avatarInitials}
+        </div>
+        <div className="min-w-0">
+          <div className="font-semibold text-foreground">{profile.name}</div>
+          <div className="text-xs text-muted-foreground">{profile.role}</div>
+          <div className="text-xs text-foreground mt-1">{profile.roleInScenario}</div>
+        </div>
+      </div>
+      {profile.traits.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-3">
+          {profile.traits.map((trait) => (
+            <Badge key={trait} variant="secondary" className="text-[10px] capitalize">
+              {trait}
+            </Badge>
+          ))}
+        </div>
+      )}
+      {profile.priorities.length > 0 && (
+        <div className="mt-3">
+          <div className="text-xs font-medium text-foreground mb-1">Stated priorities</div>
+          <ul className="list-disc pl-4 space-y-0.5 text-xs text-muted-foreground">
+            {profile.priorities.map((priority) => (
+              <li key={priority}>{priority}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Persona reply that is still streaming in: a typing indicator until the first words arrive */
+function StreamingReplyBubble({ reply, persona }: { reply: StreamingReply; persona?: Persona }) {
+  const isCall = reply.channel === "call";
+  const initials = persona?.avatarInitials ?? reply.personaName.slice(0, 2).toUpperCase();
+  return (
+    <div className="flex justify-start gap-3">
+      <div
+        className="h-9 w-9 rounded-full flex items-center justify-center text-white text-xs font-bold shrink-0 mt-1"
+        style={{ backgroundColor: persona?.avatarColor ?? "#6b7280" }}
+      >
+        {initials}
+      </div>
+      <div className="max-w-[75%] md:max-w-[60%]">
+        <div className={`rounded-2xl rounded-bl-md px-4 py-2.5 ${
+          isCall
+            ? "bg-green-50 dark:bg-green-950/40 border border-green-200 dark:border-green-800"
+            : "bg-card border"
+        }`}>
+          <div className="text-xs font-semibold mb-1 text-foreground">{reply.personaName}</div>
+          {reply.content ? (
+            <div className="text-sm leading-relaxed whitespace-pre-wrap text-foreground">
+              {reply.content}
+              <span className="ml-0.5 inline-block h-3.5 w-1.5 translate-y-0.5 animate-pulse bg-foreground/60" />
+            </div>
+          ) : (
+            <div className="flex items-center gap-1 py-1.5" aria-label={`${reply.personaName} is typing`}>
+              {[0, 150, 300].map((delay) => (
+                <span
+                  key={delay}
+                  className="h-1.5 w-1.5 rounded-full bg-muted-foreground animate-bounce"
+                  style={{ animationDelay: `${delay}ms` }}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+        {!reply.content && (
+          <div className="mt-1 text-xs text-muted-foreground">
+            {reply.personaName} is {isCall ? "about to speak" : "typing"}…
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 /** Empty state shown when the call channel has no messages yet */
 function CallEmptyState({ personaName }: { personaName?: string }) {
   return (
@@ -265,6 +606,174 @@ function CallSimulationInfo() {
   );
 }
 
+// ---------------------------------------------------------------------------
+// Artifact revision history
+// ---------------------------------------------------------------------------
+
+const ARTIFACT_STATUS_STYLES: Record<string, string> = {
+  draft: "bg-gray-100 text-gray-700 border-gray-300",
+  submitted: "bg-blue-100 text-blue-800 border-blue-300",
+  under_review: "bg-blue-100 text-blue-800 border-blue-300",
+  revision_requested: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  approved: "bg-green-100 text-green-800 border-green-300",
+};
+
+const DIFF_ROW_STYLES: Record<DiffRow["kind"], { left: string; right: string }> = {
+  unchanged: { left: "", right: "" },
+  changed: { left: "bg-red-50 dark:bg-red-950/30", right: "bg-green-50 dark:bg-green-950/30" },
+  removed: { left: "bg-red-50 dark:bg-red-950/30", right: "bg-muted/30" },
+  added: { left: "bg-muted/30", right: "bg-green-50 dark:bg-green-950/30" },
+};
+
+function formatRevisionLabel(rev: ArtifactRevision) {
+  const score = rev.score !== null ? ` · ${rev.score}/100` : "";
+  return `Rev ${rev.revisionNumber} · v${rev.version} · ${rev.status.replace(/_/g, " ")}${score}`;
+}
+
+/** Side-by-side diff of any two saved revisions of an artifact */
+function ArtifactHistoryDialog({
+  artifact,
+  onOpenChange,
+}: {
+  artifact: Artifact | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const artifactId = artifact?.id ?? 0;
+  const [fromRev, setFromRev] = useState<number | null>(null);
+  const [toRev, setToRev] = useState<number | null>(null);
+
+  const { data: revisions = [], isLoading: revisionsLoading } = useQuery<ArtifactRevision[]>({
+    queryKey: ["/api/artifacts", artifactId.toString(), "revisions"],
+    enabled: artifactId > 0,
+    staleTime: 0,
+  });
+
+  // Default to comparing the two most recent revisions
+  const latest = revisions[revisions.length - 1]?.revisionNumber ?? null;
+  const from = fromRev ?? (revisions.length > 1 ? revisions[revisions.length - 2].revisionNumber : latest);
+  const to = toRev ?? latest;
+
+  const { data: diff, isLoading: diffLoading, error: diffError } = useQuery<ArtifactDiff>({
+    queryKey: [`/api/artifacts/${artifactId}/revisions/diff?from=${from}&to=${to}`],
+    enabled: artifactId > 0 && from !== null && to !== null,
+  });
+
+  function handleOpenChange(open: boolean) {
+    if (!open) {
+      setFromRev(null);
+      setToRev(null);
+    }
+    onOpenChange(open);
+  }
+
+  const toRevision = revisions.find((r) => r.revisionNumber === to);
+
+  return (
+    <Dialog open={!!artifact} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Revision History — {artifact?.title}
+          </DialogTitle>
+          <DialogDescription>
+            Compare any two saved revisions to see whether feedback was applied.
+          </DialogDescription>
+        </DialogHeader>
+
+        {revisionsLoading ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">No revisions saved yet.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              {[
+                { value: from, onChange: setFromRev },
+                { value: to, onChange: setToRev },
+              ].map((side, index) => (
+                <Select
+                  key={index}
+                  value={side.value?.toString() ?? ""}
+                  onValueChange={(v) => side.onChange(parseInt(v))}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue placeholder="Select revision..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((rev) => (
+                      <SelectItem key={rev.id} value={rev.revisionNumber.toString()}>
+                        {formatRevisionLabel(rev)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+
+            {diff && (
+              <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                <span className="text-green-700 dark:text-green-400">+{diff.stats.added} added</span>
+                <span className="text-red-700 dark:text-red-400">−{diff.stats.removed} removed</span>
+                <span>{diff.stats.unchanged} unchanged</span>
+              </div>
+            )}
+
+            {diff?.from.feedback && (
+              <div className="text-xs border rounded-md bg-muted/40 p-2 whitespace-pre-wrap leading-relaxed">
+                <span className="font-medium">Feedback on Rev {diff.from.revisionNumber}:</span>{" "}
+                {diff.from.feedback}
+              </div>
+            )}
+
+            <ScrollArea className="h-[50vh] border rounded-md">
+              {diffError ? (
+                <p className="text-sm text-muted-foreground py-6 text-center">
+                  {getErrorMessage(diffError, "Could not compare these revisions.")}
+                </p>
+              ) : diffLoading || !diff ? (
+                <div className="flex items-center justify-center py-10">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 font-mono text-xs">
+                  {diff.rows.map((row, index) => (
+                    <div key={index} className="contents">
+                      {(["left", "right"] as const).map((side) => {
+                        const line = row[side];
+                        return (
+                          <div
+                            key={side}
+                            className={`flex gap-2 px-2 py-0.5 border-r last:border-r-0 ${DIFF_ROW_STYLES[row.kind][side]}`}
+                          >
+                            <span className="w-8 shrink-0 text-right text-muted-foreground/60 select-none">
+                              {line?.number ?? ""}
+                            </span>
+                            <span className="whitespace-pre-wrap break-words min-w-0">{line?.text ?? ""}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+
+            {toRevision?.feedback && toRevision.revisionNumber !== diff?.from.revisionNumber && (
+              <div className="text-xs border rounded-md bg-muted/40 p-2 whitespace-pre-wrap leading-relaxed">
+                <span className="font-medium">Feedback on Rev {toRevision.revisionNumber}:</span>{" "}
+                {toRevision.feedback}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 /** Scenario briefing panel shown at the start of a session */
 function ScenarioBriefingPanel({
   scenario,
@@ -479,14 +988,24 @@ export default function PracticeSession() {
 
   // Local state
   const [messageInput, setMessageInput] = useState("");
+  // The @mention being typed in the composer (null when not typing one)
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
   const [channelFilter, setChannelFilter] = useState<string>("all");
   const [artifactType, setArtifactType] = useState("");
   const [artifactTitle, setArtifactTitle] = useState("");
   const [artifactContent, setArtifactContent] = useState("");
   const [callInfoDismissed, setCallInfoDismissed] = useState(false);
+  // Turn or artifact linked from assessment evidence (e.g. #message-42)
+  const [highlightedAnchor, setHighlightedAnchor] = useState<string | null>(null);
+  const [historyArtifact, setHistoryArtifact] = useState<Artifact | null>(null);
+  // Artifact being revised after a reviewer requested changes (null = new artifact)
+  const [revisingArtifactId, setRevisingArtifactId] = useState<number | null>(null);
 
   // Ref for auto-scroll
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  const evidenceHandledRef = useRef(false);
 
   // -----------------------------------------------------------------------
   // Data fetching
@@ -517,12 +1036,21 @@ export default function PracticeSession() {
     enabled: sessionId > 0,
   });
 
+  const { data: commitmentLedger } = useQuery<CommitmentLedger>({
+    queryKey: ["/api/sessions", sessionId.toString(), "commitments"],
+    enabled: sessionId > 0,
+  });
+
+  // Messages, step/channel and artifact changes from any tab are pushed here
+  // Persona replies stream in over the same channel
+  const { status: socketStatus, replies: streamingReplies } = useSessionEvents(sessionId);
+
   // -----------------------------------------------------------------------
   // Mutations
   // -----------------------------------------------------------------------
 
   const sendMessageMutation = useMutation({
-    mutationFn: async (body: { content: string; channel: string }) => {
+    mutationFn: async (body: { content: string; channel: string; targetPersonaId?: number }) => {
       const res = await apiRequest("POST", `/api/sessions/${sessionId}/messages`, body);
       return res.json();
     },
@@ -550,20 +1078,42 @@ export default function PracticeSession() {
   });
 
   const submitArtifactMutation = useMutation({
-    mutationFn: async (body: { type: string; title: string; content: string }) => {
-      const res = await apiRequest("POST", `/api/sessions/${sessionId}/artifacts`, body);
+    mutationFn: async (body: { type: string; title: string; content: string; status: string }) => {
+      const res = revisingArtifactId
+        ? await apiRequest("PATCH", `/api/artifacts/${revisingArtifactId}`, body)
+        : await apiRequest("POST", `/api/sessions/${sessionId}/artifacts`, body);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (artifact: Artifact) => {
       queryClient.invalidateQueries({
         queryKey: ["/api/sessions", sessionId.toString(), "artifacts"],
       });
+      // The reviewing persona posts its feedback as a message
+      queryClient.invalidateQueries({
+        queryKey: ["/api/sessions", sessionId.toString(), "messages"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/artifacts", artifact.id.toString(), "revisions"],
+      });
+      setRevisingArtifactId(null);
       setArtifactType("");
       setArtifactTitle("");
       setArtifactContent("");
     },
   });
 
+  const pauseMutation = useMutation({
+    mutationFn: async (action: "pause" | "resume") => {
+      const res = await apiRequest("POST", `/api/sessions/${sessionId}/${action}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/sessions", sessionId.toString()],
+      });
+    },
+  });
+
   const assessmentMutation = useMutation({
     mutationFn: async () => {
       const res = await apiRequest("POST", `/api/sessions/${sessionId}/assessment`);
@@ -580,7 +1130,30 @@ export default function PracticeSession() {
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, streamingReplies]);
+
+  // -----------------------------------------------------------------------
+  // Jump to evidence linked from the assessment page
+  // -----------------------------------------------------------------------
+
+  useEffect(() => {
+    if (evidenceHandledRef.current || messagesLoading) return;
+    const anchor = window.location.hash.slice(1);
+    const match = anchor.match(/^(message|artifact)-(\d+)$/);
+    if (!match) return;
+    const targetId = parseInt(match[2]);
+    const loaded = match[1] === "message"
+      ? messages.some((m) => m.id === targetId)
+      : artifacts.some((a) => a.id === targetId);
+    if (!loaded) return;
+    evidenceHandledRef.current = true;
+    setChannelFilter("all");
+    setHighlightedAnchor(anchor);
+    // Wait for the unfiltered list to render before scrolling
+    requestAnimationFrame(() => {
+      document.getElementById(anchor)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    });
+  }, [messagesLoading, messages, artifacts]);
 
   // -----------------------------------------------------------------------
   // Derived data
@@ -591,6 +1164,9 @@ export default function PracticeSession() {
   const currentStep = session?.currentStep ?? 1;
   const currentChannel = session?.currentChannel ?? "email";
   const isCompleted = session?.status === "completed";
+  const isPaused = session?.status === "paused";
+  const openPause = session?.pauses?.find((p) => p.endedAt === null);
+  const pauseForbidden = session?.mode === "assessment" && scenario?.pausePolicy?.assessmentMode === "forbid";
   const allStepsDone = currentStep >= totalSteps;
   const requiredArtifacts = scenario?.requiredArtifacts ?? [];
   const submittedArtifactTypes = artifacts.map((a) => a.type);
@@ -607,6 +1183,27 @@ export default function PracticeSession() {
     personaMap.set(sp.persona.id, sp.persona);
   }
 
+  // Stakeholders the rep can address with @mentions: everyone introduced so far
+  const introducedPersonas = scenarioPersonas
+    .filter((sp) => sp.introduceAtStep <= currentStep)
+    .map((sp) => sp.persona);
+  const mentionSuggestions = mentionQuery === null
+    ? []
+    : introducedPersonas.filter((p) =>
+        getMentionName(p).toLowerCase().startsWith(mentionQuery.toLowerCase()) ||
+        p.name.toLowerCase().includes(mentionQuery.toLowerCase()),
+      );
+  const addressedPersona = findMentionedPersona(messageInput, introducedPersonas);
+
+  // Meeting participants: everyone introduced so far, with the stance from their latest reply
+  const isMeetingChannel = currentChannel === "meeting";
+  const meetingParticipants = scenarioPersonas
+    .filter((sp) => sp.introduceAtStep <= currentStep)
+    .map((sp) => {
+      const latest = [...messages].reverse().find((m) => m.personaId === sp.persona.id && m.metadata?.stance);
+      return { persona: sp.persona, stance: latest?.metadata?.stance ?? null };
+    });
+
   // Call channel detection
   const isCallChannel = currentChannel === "call";
   const callMessagesExist = messages.some(
@@ -618,6 +1215,13 @@ export default function PracticeSession() {
     channelFilter === "all"
       ? messages
       : messages.filter((m) => m.channel === channelFilter);
+  const visibleReplies =
+    channelFilter === "all"
+      ? streamingReplies
+      : streamingReplies.filter((r) => r.channel === channelFilter);
+
+  const highlightClass = (anchor: string) =>
+    highlightedAnchor === anchor ? "ring-2 ring-primary ring-offset-2 rounded-lg" : "";
 
   // Progress percentage
   const progressPct = totalSteps > 0 ? Math.round((currentStep / totalSteps) * 100) : 0;
@@ -629,22 +1233,80 @@ export default function PracticeSession() {
   function handleSendMessage() {
     const trimmed = messageInput.trim();
     if (!trimmed) return;
-    sendMessageMutation.mutate({ content: trimmed, channel: currentChannel });
+    sendMessageMutation.mutate({
+      content: trimmed,
+      channel: currentChannel,
+      ...(addressedPersona ? { targetPersonaId: addressedPersona.id } : {}),
+    });
+  }
+
+  function handleComposerChange(e: React.ChangeEvent<HTMLTextAreaElement>) {
+    setMessageInput(e.target.value);
+    setMentionQuery(getMentionQuery(e.target.value, e.target.selectionStart));
+    setMentionIndex(0);
+    if (isCallChannel && !callInfoDismissed) {
+      setCallInfoDismissed(true);
+    }
+  }
+
+  /** Replaces the @mention being typed with the persona's mention name */
+  function insertMention(persona: Persona) {
+    const composer = composerRef.current;
+    const caret = composer?.selectionStart ?? messageInput.length;
+    const before = messageInput.slice(0, caret).replace(/@\w*$/, `@${getMentionName(persona)} `);
+    setMessageInput(before + messageInput.slice(caret));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      composer?.focus();
+      composer?.setSelectionRange(before.length, before.length);
+    });
   }
 
   function handleKeyDown(e: React.KeyboardEvent<HTMLTextAreaElement>) {
+    if (mentionSuggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setMentionIndex((i) => (i + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === "Escape") {
+        setMentionQuery(null);
+        return;
+      }
+    }
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
     }
   }
 
+  function handleReviseArtifact(art: Artifact) {
+    setRevisingArtifactId(art.id);
+    setArtifactType(art.type);
+    setArtifactTitle(art.title);
+    setArtifactContent(art.content);
+  }
+
+  function handleCancelRevision() {
+    setRevisingArtifactId(null);
+    setArtifactType("");
+    setArtifactTitle("");
+    setArtifactContent("");
+  }
+
   function handleSubmitArtifact() {
     if (!artifactType || !artifactTitle.trim() || !artifactContent.trim()) return;
     submitArtifactMutation.mutate({
       type: artifactType,
       title: artifactTitle.trim(),
       content: artifactContent.trim(),
+      status: "submitted",
     });
   }
 
@@ -698,10 +1360,58 @@ export default function PracticeSession() {
               <Badge variant="outline" className="capitalize">
                 {session.status}
               </Badge>
+              <span
+                className={`inline-flex items-center gap-1 text-xs ${
+                  socketStatus === "open" ? "text-green-600 dark:text-green-400" : "text-muted-foreground"
+                }`}
+              >
+                <Radio className="h-3.5 w-3.5" />
+                {socketStatus === "open" ? "Live" : socketStatus === "connecting" ? "Connecting…" : "Reconnecting…"}
+              </span>
             </div>
 
-            {/* Right: step + channel */}
+            {/* Right: step timer + step + channel */}
             <div className="flex items-center gap-4 text-sm text-muted-foreground">
+              {(session.status === "active" || isPaused) && (
+                <>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2"
+                          onClick={() => pauseMutation.mutate(isPaused ? "resume" : "pause")}
+                          disabled={pauseMutation.isPending || (!isPaused && pauseForbidden)}
+                        >
+                          {isPaused ? <Play className="h-4 w-4 mr-1" /> : <Pause className="h-4 w-4 mr-1" />}
+                          {isPaused ? "Resume" : "Pause"}
+                        </Button>
+                      </span>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      {pauseMutation.isError
+                        ? getErrorMessage(pauseMutation.error, "Failed to update the session")
+                        : pauseForbidden && !isPaused
+                        ? "Pausing is not allowed in this assessment"
+                        : isPaused
+                        ? "Resume the session"
+                        : "Pause the session; paused time is not counted"}
+                    </TooltipContent>
+                  </Tooltip>
+                  <Separator orientation="vertical" className="h-4" />
+                </>
+              )}
+              {session.stepDeadlineAt && (session.status === "active" || isPaused) && (
+                <>
+                  <StepCountdown
+                    deadline={session.stepDeadlineAt}
+                    expired={!!session.stepExpiredAt}
+                    pausedAt={isPaused ? openPause?.startedAt : undefined}
+                  />
+                  <Separator orientation="vertical" className="h-4" />
+                </>
+              )}
               <div className="flex items-center gap-1.5">
                 <Settings className="h-4 w-4" />
                 <span>
@@ -740,7 +1450,18 @@ export default function PracticeSession() {
           <div className="flex-1 lg:w-2/3 flex flex-col border-r min-h-0">
             {/* Call-in-progress banner */}
             {isCallChannel && !isCompleted && (
-              <CallInProgressBanner personaName={activePersona?.name} />
+              <CallInProgressBanner
+                personaName={activePersona?.name}
+                speaking={streamingReplies.some((r) => r.channel === "call" && r.content !== "")}
+              />
+            )}
+
+            {/* Meeting participants and their stances */}
+            {isMeetingChannel && !isCompleted && (
+              <MeetingParticipantsBanner
+                participants={meetingParticipants}
+                speaking={streamingReplies.find((r) => r.channel === "meeting" && r.content !== "")?.personaName}
+              />
             )}
 
             {/* Call simulation info (shown once until dismissed) */}
@@ -784,11 +1505,20 @@ export default function PracticeSession() {
                 {filteredMessages.map((msg) => {
                   const ChannelBadgeIcon = getChannelIcon(msg.channel);
 
+                  // ------ STAKEHOLDER JOINED ------
+                  if (msg.senderType === "system" && msg.metadata?.kind === "stakeholder_joined" && msg.metadata.profile) {
+                    return (
+                      <div key={msg.id} id={`message-${msg.id}`} className={`flex justify-center ${highlightClass(`message-${msg.id}`)}`}>
+                        <StakeholderJoinedCard profile={msg.metadata.profile} />
+                      </div>
+                    );
+                  }
+
                   // ------ SYSTEM MESSAGE ------
                   if (msg.senderType === "system") {
                     const isCallSysMsg = msg.channel === "call";
                     return (
-                      <div key={msg.id} className="flex justify-center">
+                      <div key={msg.id} id={`message-${msg.id}`} className={`flex justify-center ${highlightClass(`message-${msg.id}`)}`}>
                         <div className={`max-w-lg border rounded-lg px-4 py-2.5 text-center text-sm ${
                           isCallSysMsg
                             ? "bg-green-50/80 dark:bg-green-950/30 border-green-200 dark:border-green-800 text-green-800 dark:text-green-200"
@@ -826,7 +1556,7 @@ export default function PracticeSession() {
                   if (msg.senderType === "user") {
                     const isCallMsg = msg.channel === "call";
                     return (
-                      <div key={msg.id} className="flex justify-end">
+                      <div key={msg.id} id={`message-${msg.id}`} className={`flex justify-end ${highlightClass(`message-${msg.id}`)}`}>
                         <div className="max-w-[75%] md:max-w-[60%]">
                           {isCallMsg && (
                             <div className="flex items-center justify-end gap-1.5 mb-1 text-xs text-green-600 dark:text-green-400 font-medium">
@@ -864,9 +1594,10 @@ export default function PracticeSession() {
                   const initials = persona?.avatarInitials ?? msg.senderName.slice(0, 2).toUpperCase();
                   const avatarColor = persona?.avatarColor ?? "#6b7280";
                   const isCallMsg = msg.channel === "call";
+                  const meeting = msg.metadata?.meeting;
 
                   return (
-                    <div key={msg.id} className="flex justify-start gap-3">
+                    <div key={msg.id} id={`message-${msg.id}`} className={`flex justify-start gap-3 ${highlightClass(`message-${msg.id}`)}`}>
                       {/* Avatar */}
                       <div
                         className="h-9 w-9 rounded-full flex items-center justify-center text-white text-xs font-bold shrink-0 mt-1 relative"
@@ -909,12 +1640,23 @@ export default function PracticeSession() {
                             <ChannelBadgeIcon className="h-2.5 w-2.5 mr-1" />
                             {getChannelLabel(msg.channel)}
                           </Badge>
+                          {meeting?.stance && (
+                            <Badge variant="outline" className={`text-[10px] px-1.5 py-0 capitalize ${STANCE_STYLES[meeting.stance]}`}>
+                              {meeting.stance}
+                            </Badge>
+                          )}
+                          {meeting?.reaction === "interrupt" && <span className="italic">cut in</span>}
+                          {meeting?.reaction === "defer" && <span className="italic">deferred to {meeting.deferTo}</span>}
                         </div>
                       </div>
                     </div>
                   );
                 })}
 
+                {visibleReplies.map((reply) => (
+                  <StreamingReplyBubble key={reply.replyId} reply={reply} persona={personaMap.get(reply.personaId)} />
+                ))}
+
                 {/* Auto-scroll anchor */}
                 <div ref={messagesEndRef} />
               </div>
@@ -930,6 +1672,22 @@ export default function PracticeSession() {
                 <div className="text-center text-sm text-muted-foreground py-2">
                   {isCallChannel ? "Call ended. No more messages can be sent." : "This session is completed. No more messages can be sent."}
                 </div>
+              ) : isPaused ? (
+                <div className="flex flex-col sm:flex-row items-center justify-between gap-3 py-1">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Pause className="h-4 w-4" />
+                    <span>
+                      {openPause?.reason === "inactivity"
+                        ? "Paused after a period of inactivity."
+                        : "Session paused."}{" "}
+                      Paused time does not count toward your time or step budgets.
+                    </span>
+                  </div>
+                  <Button size="sm" onClick={() => pauseMutation.mutate("resume")} disabled={pauseMutation.isPending}>
+                    <Play className="h-4 w-4 mr-1" />
+                    Resume
+                  </Button>
+                </div>
               ) : (
                 <div className="flex items-end gap-2">
                   {isCallChannel && (
@@ -937,28 +1695,56 @@ export default function PracticeSession() {
                       <Mic className="h-5 w-5 text-green-600 dark:text-green-400" />
                     </div>
                   )}
-                  <Textarea
-                    placeholder={
-                      isCallChannel
-                        ? "What would you say next? (Type your spoken response...)"
-                        : `Type your message (${getChannelLabel(currentChannel)} channel)...`
-                    }
-                    value={messageInput}
-                    onChange={(e) => {
-                      setMessageInput(e.target.value);
-                      if (isCallChannel && !callInfoDismissed) {
-                        setCallInfoDismissed(true);
+                  <div className="relative flex-1">
+                    {mentionSuggestions.length > 0 && (
+                      <div className="absolute bottom-full left-0 mb-1 w-64 rounded-md border bg-popover shadow-md py-1 z-10">
+                        {mentionSuggestions.map((persona, i) => (
+                          <button
+                            key={persona.id}
+                            type="button"
+                            className={`w-full flex items-center gap-2 px-2 py-1.5 text-left text-sm ${
+                              i === mentionIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+                            }`}
+                            onMouseDown={(e) => {
+                              // Keep the composer focused so the caret position survives
+                              e.preventDefault();
+                              insertMention(persona);
+                            }}
+                          >
+                            <span
+                              className="h-6 w-6 rounded-full flex items-center justify-center text-white text-[10px] font-bold shrink-0"
+                              style={{ backgroundColor: persona.avatarColor }}
+                            >
+                              {persona.avatarInitials}
+                            </span>
+                            <span className="min-w-0">
+                              <span className="block font-medium truncate">{persona.name}</span>
+                              <span className="block text-xs text-muted-foreground truncate">{persona.role}</span>
+                            </span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <Textarea
+                      ref={composerRef}
+                      placeholder={
+                        isCallChannel
+                          ? "What would you say next? (Type your spoken response...)"
+                          : `Type your message (${getChannelLabel(currentChannel)} channel)... Use @ to address a stakeholder`
                       }
-                    }}
-                    onKeyDown={handleKeyDown}
-                    rows={2}
-                    className={`resize-none flex-1 min-h-[2.5rem] ${
-                      isCallChannel
-                        ? "border-green-300 dark:border-green-700 focus-visible:ring-green-500"
-                        : ""
-                    }`}
-                    disabled={sendMessageMutation.isPending}
-                  />
+                      value={messageInput}
+                      onChange={handleComposerChange}
+                      onKeyDown={handleKeyDown}
+                      onBlur={() => setMentionQuery(null)}
+                      rows={2}
+                      className={`resize-none w-full min-h-[2.5rem] ${
+                        isCallChannel
+                          ? "border-green-300 dark:border-green-700 focus-visible:ring-green-500"
+                          : ""
+                      }`}
+                      disabled={sendMessageMutation.isPending}
+                    />
+                  </div>
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <Button
@@ -981,9 +1767,15 @@ export default function PracticeSession() {
                 </div>
               )}
 
+              {!isCompleted && !isPaused && addressedPersona && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Addressed to <span className="font-medium text-foreground">{addressedPersona.name}</span>
+                </p>
+              )}
+
               {sendMessageMutation.isError && (
                 <p className="text-xs text-destructive mt-2">
-                  Failed to send message. Please try again.
+                  {getErrorMessage(sendMessageMutation.error, "Failed to send message. Please try again.")}
                 </p>
               )}
             </div>
@@ -1099,12 +1891,17 @@ export default function PracticeSession() {
                           requiredArtifacts.includes(t)
                         ).length}{" "}
                         of {requiredArtifacts.length} submitted
+                        {scenario?.artifactPolicy?.enforcement === "block"
+                          ? " · missing artifacts block advancing"
+                          : " · missing artifacts cost points"}
                       </CardDescription>
                     </CardHeader>
                     <CardContent>
                       <ul className="space-y-2">
                         {requiredArtifacts.map((artType) => {
                           const isSubmitted = submittedArtifactTypes.includes(artType);
+                          const dueByStep = scenario?.artifactPolicy?.dueByStep[artType] ?? totalSteps;
+                          const isDueNow = !isSubmitted && currentStep >= dueByStep;
                           return (
                             <li
                               key={artType}
@@ -1124,13 +1921,22 @@ export default function PracticeSession() {
                               >
                                 {ARTIFACT_TYPES[artType] ?? artType}
                               </span>
-                              {isSubmitted && (
+                              {isSubmitted ? (
                                 <Badge
                                   variant="secondary"
                                   className="text-[10px] px-1.5 py-0 ml-auto"
                                 >
                                   Submitted
                                 </Badge>
+                              ) : (
+                                <Badge
+                                  variant="outline"
+                                  className={`text-[10px] px-1.5 py-0 ml-auto ${
+                                    isDueNow ? "border-red-300 text-red-700" : ""
+                                  }`}
+                                >
+                                  {isDueNow ? "Due now" : `Due by step ${dueByStep}`}
+                                </Badge>
                               )}
                             </li>
                           );
@@ -1145,8 +1951,18 @@ export default function PracticeSession() {
                   <Card>
                     <CardHeader className="pb-3">
                       <CardTitle className="text-sm font-medium flex items-center gap-2">
-                        <Plus className="h-4 w-4" />
-                        Submit Artifact
+                        {revisingArtifactId ? <History className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+                        {revisingArtifactId ? "Revise & Resubmit Artifact" : "Submit Artifact"}
+                        {revisingArtifactId && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-1.5 ml-auto text-xs"
+                            onClick={handleCancelRevision}
+                          >
+                            Cancel
+                          </Button>
+                        )}
                       </CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-3">
@@ -1154,7 +1970,11 @@ export default function PracticeSession() {
                         <label className="text-xs font-medium text-muted-foreground mb-1 block">
                           Artifact Type
                         </label>
-                        <Select value={artifactType} onValueChange={setArtifactType}>
+                        <Select
+                          value={artifactType}
+                          onValueChange={setArtifactType}
+                          disabled={revisingArtifactId !== null}
+                        >
                           <SelectTrigger className="w-full">
                             <SelectValue placeholder="Select type..." />
                           </SelectTrigger>
@@ -1212,7 +2032,7 @@ export default function PracticeSession() {
                         ) : (
                           <>
                             <FileText className="h-4 w-4 mr-2" />
-                            Submit Artifact
+                            {revisingArtifactId ? "Resubmit for Review" : "Submit Artifact"}
                           </>
                         )}
                       </Button>
@@ -1224,8 +2044,14 @@ export default function PracticeSession() {
                       )}
 
                       {submitArtifactMutation.isSuccess && (
-                        <p className="text-xs text-green-600">
-                          Artifact submitted successfully!
+                        <p className={`text-xs ${
+                          submitArtifactMutation.data?.status === "revision_requested" ? "text-yellow-700" : "text-green-600"
+                        }`}>
+                          {submitArtifactMutation.data?.status === "approved"
+                            ? "Artifact approved by the reviewer!"
+                            : submitArtifactMutation.data?.status === "revision_requested"
+                            ? "The reviewer requested revisions — see their message, then revise and resubmit."
+                            : "Artifact submitted successfully!"}
                         </p>
                       )}
                     </CardContent>
@@ -1246,7 +2072,8 @@ export default function PracticeSession() {
                         {artifacts.map((art) => (
                           <li
                             key={art.id}
-                            className="flex items-start gap-2 text-sm border rounded-md p-2"
+                            id={`artifact-${art.id}`}
+                            className={`flex items-start gap-2 text-sm border rounded-md p-2 ${highlightClass(`artifact-${art.id}`)}`}
                           >
                             <FileText className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
                             <div className="min-w-0">
@@ -1261,6 +2088,43 @@ export default function PracticeSession() {
                                 <span className="text-xs text-muted-foreground">
                                   {formatTimestamp(art.createdAt)}
                                 </span>
+                                {art.score !== null && (
+                                  <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                                    {art.score}/100
+                                  </Badge>
+                                )}
+                                <Badge
+                                  variant="outline"
+                                  className={`text-[10px] px-1.5 py-0 border capitalize ${ARTIFACT_STATUS_STYLES[art.status] ?? ""}`}
+                                >
+                                  {art.status.replace(/_/g, " ")}
+                                </Badge>
+                              </div>
+                              {art.feedback && (
+                                <p className="mt-1 text-xs text-muted-foreground whitespace-pre-wrap leading-relaxed">
+                                  {art.feedback}
+                                </p>
+                              )}
+                              <div className="flex items-center gap-1 mt-1">
+                                {!isCompleted && (art.status === "revision_requested" || art.status === "draft") && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-6 px-1.5 text-xs"
+                                    onClick={() => handleReviseArtifact(art)}
+                                  >
+                                    Revise
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 px-1.5 text-xs"
+                                  onClick={() => setHistoryArtifact(art)}
+                                >
+                                  <History className="h-3 w-3 mr-1" />
+                                  History
+                                </Button>
                               </div>
                             </div>
                           </li>
@@ -1269,6 +2133,52 @@ export default function PracticeSession() {
                     </CardContent>
                   </Card>
                 )}
+
+                {/* ----- Commitments Ledger ----- */}
+                {commitmentLedger && commitmentLedger.commitments.length > 0 && (
+                  <Card>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-sm font-medium flex items-center gap-2">
+                        <Handshake className="h-4 w-4" />
+                        Commitments ({commitmentLedger.commitments.length})
+                      </CardTitle>
+                      <CardDescription className="text-xs">
+                        {commitmentLedger.seniority} · discounts up to {commitmentLedger.discountAuthority}% without approval
+                        {commitmentLedger.counts.overreach > 0 && ` · ${commitmentLedger.counts.overreach} overreach`}
+                        {commitmentLedger.counts.needs_approval > 0 && ` · ${commitmentLedger.counts.needs_approval} need approval`}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ul className="space-y-2">
+                        {commitmentLedger.commitments.map((c, i) => (
+                          <li key={`${c.messageId ? `message-${c.messageId}` : `artifact-${c.artifactId}`}-${c.kind}-${i}`} className="text-sm border rounded-md p-2 space-y-1">
+                            <div className="flex items-center gap-1.5 flex-wrap">
+                              <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                                {COMMITMENT_KIND_LABELS[c.kind]}
+                              </Badge>
+                              {c.value && (
+                                <span className="text-xs font-medium text-foreground">{c.value}</span>
+                              )}
+                              <Badge
+                                variant="outline"
+                                className={`text-[10px] px-1.5 py-0 ml-auto ${COMMITMENT_VERDICT_STYLES[c.verdict].className}`}
+                              >
+                                {COMMITMENT_VERDICT_STYLES[c.verdict].label}
+                              </Badge>
+                            </div>
+                            <p className="text-xs text-foreground leading-relaxed">"{c.content}"</p>
+                            <p className="text-[11px] text-muted-foreground leading-relaxed">
+                              {c.reason}{" "}
+                              {c.artifactId !== undefined
+                                ? `(${artifacts.find((a) => a.id === c.artifactId)?.title ?? "artifact"})`
+                                : c.channel && `(${getChannelLabel(c.channel)}, step ${c.step})`}
+                            </p>
+                          </li>
+                        ))}
+                      </ul>
+                    </CardContent>
+                  </Card>
+                )}
               </div>
             </ScrollArea>
           </div>
@@ -1318,7 +2228,7 @@ export default function PracticeSession() {
                 {!allStepsDone && (
                   <Button
                     onClick={() => advanceStepMutation.mutate()}
-                    disabled={advanceStepMutation.isPending}
+                    disabled={advanceStepMutation.isPending || isPaused}
                     variant="outline"
                   >
                     {advanceStepMutation.isPending ? (
@@ -1359,16 +2269,21 @@ export default function PracticeSession() {
 
             {advanceStepMutation.isError && (
               <p className="text-xs text-destructive mt-2">
-                Failed to advance step. Please try again.
+                {getErrorMessage(advanceStepMutation.error, "Failed to advance step. Please try again.")}
               </p>
             )}
             {assessmentMutation.isError && (
               <p className="text-xs text-destructive mt-2">
-                Failed to generate assessment. Please try again.
+                {getErrorMessage(assessmentMutation.error, "Failed to generate assessment. Please try again.")}
               </p>
             )}
           </footer>
         )}
+
+        <ArtifactHistoryDialog
+          artifact={historyArtifact}
+          onOpenChange={(open) => !open && setHistoryArtifact(null)}
+        />
       </div>
     </TooltipProvider>
   );
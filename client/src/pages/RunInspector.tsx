@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  ArrowLeft,
+  CheckCircle2,
+  XCircle,
+  Loader2,
+  Workflow,
+  ChevronRight,
+  Clock,
+  RotateCcw,
+} from "lucide-react";
+
+// ---- Types ----
+
+interface RunSummary {
+  id: string;
+  workflowId: string;
+  status: "created" | "running" | "succeeded" | "failed";
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  stepCount: number;
+  failedStepCount: number;
+  current: boolean;
+}
+
+interface RunTimelineStep {
+  stepId: string;
+  executionId: string;
+  handlerType: string;
+  label: string;
+  status: "succeeded" | "failed";
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown> | null;
+  attempts: number;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  error: string | null;
+}
+
+interface RunDetail {
+  id: string;
+  workflowId: string;
+  sessionId: number | null;
+  status: RunSummary["status"];
+  inputs: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  steps: RunTimelineStep[];
+}
+
+// ---- Helpers ----
+
+const RUN_STATUS_STYLES: Record<RunSummary["status"], string> = {
+  created: "bg-muted text-muted-foreground",
+  running: "bg-blue-100 text-blue-800 border-blue-300",
+  succeeded: "bg-green-100 text-green-800 border-green-300",
+  failed: "bg-red-100 text-red-800 border-red-300",
+};
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+/** One-line highlight of what the step decided, shown without expanding it. */
+function getStepHighlight(step: RunTimelineStep): string | null {
+  const outputs = step.outputs;
+  if (!outputs) return null;
+  if (step.handlerType === "custom.persona-response") {
+    return `Stage: ${outputs.stage ?? "unknown"} · ${outputs.personaName ?? "Unknown"} via ${outputs.provider ?? "unknown"}`;
+  }
+  if (step.handlerType === "custom.channel-transition") {
+    return `Channel: ${String(outputs.channel ?? "").replace(/_/g, " ")}`;
+  }
+  if (step.handlerType === "custom.assessment") {
+    return `Overall ${outputs.overallScore ?? "?"}/100 · ${outputs.recommendation ?? "no recommendation"}`;
+  }
+  return null;
+}
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground">
+        <ChevronRight className={`h-3 w-3 transition-transform ${open ? "rotate-90" : ""}`} />
+        {label}
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <pre className="mt-1.5 max-h-80 overflow-auto rounded-md bg-muted/50 p-3 text-[11px] leading-relaxed">
+          {JSON.stringify(value, null, 2)}
+        </pre>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function TimelineStep({ step, isLast }: { step: RunTimelineStep; isLast: boolean }) {
+  const failed = step.status === "failed";
+  const highlight = getStepHighlight(step);
+  return (
+    <li className="relative pl-8">
+      {!isLast && <span className="absolute left-[11px] top-6 bottom-0 w-px bg-border" />}
+      <span className="absolute left-0 top-0.5">
+        {failed ? (
+          <XCircle className="h-6 w-6 text-red-500" />
+        ) : (
+          <CheckCircle2 className="h-6 w-6 text-green-500" />
+        )}
+      </span>
+      <div className="pb-6 space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-sm">{step.label}</span>
+          <Badge variant="outline" className="font-mono text-[10px]">{step.handlerType}</Badge>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          <span className="inline-flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {formatTime(step.startedAt)} · {step.durationMs} ms
+          </span>
+          <span className="inline-flex items-center gap-1">
+            <RotateCcw className="h-3 w-3" />
+            {step.attempts} {step.attempts === 1 ? "attempt" : "attempts"}
+          </span>
+        </div>
+        {highlight && <p className="text-sm">{highlight}</p>}
+        {step.error && (
+          <p className="rounded-md border border-red-200 bg-red-50 px-2 py-1.5 text-xs text-red-800">
+            {step.error}
+          </p>
+        )}
+        <div className="space-y-1">
+          <JsonBlock label="Inputs" value={step.inputs} />
+          {step.outputs && <JsonBlock label="Outputs" value={step.outputs} />}
+        </div>
+      </div>
+    </li>
+  );
+}
+
+// ---- Page ----
+
+export default function RunInspector() {
+  const params = useParams<{ id: string }>();
+  const sessionId = parseInt(params.id || "0");
+  const [, navigate] = useLocation();
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  const { data: runs, isLoading: runsLoading } = useQuery<RunSummary[]>({
+    queryKey: [`/api/sessions/${sessionId}/runs`],
+    enabled: sessionId > 0,
+    refetchInterval: 5000,
+  });
+
+  // Default to the run currently driving the session
+  useEffect(() => {
+    if (selectedRunId || !runs || runs.length === 0) return;
+    setSelectedRunId((runs.find(run => run.current) ?? runs[0]).id);
+  }, [runs, selectedRunId]);
+
+  const { data: run, isLoading: runLoading } = useQuery<RunDetail>({
+    queryKey: [`/api/runs/${selectedRunId}`],
+    enabled: !!selectedRunId,
+    refetchInterval: 5000,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={() => navigate(`/session/${sessionId}`)}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+              <Workflow className="h-6 w-6" />
+              Workflow Runs
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Session #{sessionId} · every step the workflow engine executed, with its inputs and outputs
+            </p>
+          </div>
+        </div>
+
+        {runsLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !runs || runs.length === 0 ? (
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle>No runs recorded</CardTitle>
+              <CardDescription>
+                This session has no workflow runs in the run store yet, or they were removed by the retention policy.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-[260px_1fr]">
+            <div className="space-y-2">
+              {runs.map(summary => (
+                <button
+                  key={summary.id}
+                  type="button"
+                  onClick={() => setSelectedRunId(summary.id)}
+                  className={`w-full rounded-md border p-3 text-left text-sm transition-colors hover:bg-muted ${
+                    summary.id === selectedRunId ? "border-primary bg-muted" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono text-xs truncate">{summary.id}</span>
+                    {summary.current && <Badge variant="secondary" className="text-[10px]">Current</Badge>}
+                  </div>
+                  <div className="mt-2 flex items-center gap-2">
+                    <Badge className={`border capitalize ${RUN_STATUS_STYLES[summary.status]}`}>{summary.status}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {summary.stepCount} steps
+                      {summary.failedStepCount > 0 && ` · ${summary.failedStepCount} failed`}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Started {new Date(summary.createdAt).toLocaleString("en-US")}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Timeline</CardTitle>
+                {run && (
+                  <CardDescription className="font-mono text-xs">
+                    {run.workflowId} · {run.id}
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent>
+                {runLoading || !run ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  </div>
+                ) : run.steps.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No steps have executed yet.</p>
+                ) : (
+                  <ol>
+                    {run.steps.map((step, index) => (
+                      <TimelineStep key={step.executionId} step={step} isLast={index === run.steps.length - 1} />
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
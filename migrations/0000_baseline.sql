@@ -0,0 +1,183 @@
+CREATE TYPE "public"."artifact_status" AS ENUM('draft', 'submitted', 'under_review', 'revision_requested', 'approved');--> statement-breakpoint
+CREATE TYPE "public"."artifact_type" AS ENUM('one_pager', 'email_recap', 'risk_register', 'meeting_agenda', 'deck', 'newsletter_brief', 'custom');--> statement-breakpoint
+CREATE TYPE "public"."assessment_status" AS ENUM('pending', 'in_progress', 'completed');--> statement-breakpoint
+CREATE TYPE "public"."channel_type" AS ENUM('email', 'call', 'deck_review', 'follow_up', 'internal_coaching', 'meeting');--> statement-breakpoint
+CREATE TYPE "public"."difficulty" AS ENUM('intro', 'intermediate', 'advanced');--> statement-breakpoint
+CREATE TYPE "public"."session_mode" AS ENUM('practice', 'assessment');--> statement-breakpoint
+CREATE TYPE "public"."session_status" AS ENUM('briefing', 'active', 'paused', 'awaiting_review', 'completed');--> statement-breakpoint
+CREATE TABLE "artifact_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"artifact_id" integer NOT NULL,
+	"revision_number" integer NOT NULL,
+	"version" integer NOT NULL,
+	"title" text NOT NULL,
+	"content" text NOT NULL,
+	"status" "artifact_status" NOT NULL,
+	"feedback" text,
+	"score" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "artifact_revisions_artifact_revision_unique" UNIQUE("artifact_id","revision_number")
+);
+--> statement-breakpoint
+CREATE TABLE "artifacts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" integer NOT NULL,
+	"type" "artifact_type" NOT NULL,
+	"title" text NOT NULL,
+	"content" text NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"status" "artifact_status" DEFAULT 'draft' NOT NULL,
+	"template_id" integer,
+	"feedback" text,
+	"score" integer,
+	"grading_details" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "assessments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" integer NOT NULL,
+	"status" "assessment_status" DEFAULT 'pending' NOT NULL,
+	"overall_score" integer,
+	"recommendation" text,
+	"summary" text,
+	"scores" jsonb,
+	"score_rationales" jsonb,
+	"score_evidence" jsonb,
+	"friction_points" jsonb,
+	"strengths" jsonb,
+	"areas_for_improvement" jsonb,
+	"hitl_required" boolean DEFAULT true NOT NULL,
+	"hitl_verdict" text,
+	"hitl_notes" text,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "assessments_session_id_unique" UNIQUE("session_id")
+);
+--> statement-breakpoint
+CREATE TABLE "greetings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" integer NOT NULL,
+	"channel" "channel_type" NOT NULL,
+	"sender_type" text NOT NULL,
+	"sender_name" text NOT NULL,
+	"persona_id" integer,
+	"content" text NOT NULL,
+	"metadata" jsonb,
+	"step" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "persona_states" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" integer NOT NULL,
+	"persona_id" integer NOT NULL,
+	"trust" integer NOT NULL,
+	"patience" integer NOT NULL,
+	"perceived_value" integer NOT NULL,
+	"turn_count" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "persona_states_session_persona_unique" UNIQUE("session_id","persona_id")
+);
+--> statement-breakpoint
+CREATE TABLE "personas" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"role" text NOT NULL,
+	"persona_type" text NOT NULL,
+	"avatar_initials" text NOT NULL,
+	"avatar_color" text NOT NULL,
+	"description" text NOT NULL,
+	"system_prompt" text NOT NULL,
+	"behavioral_instructions" text NOT NULL,
+	"traits" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "scenario_personas" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scenario_id" integer NOT NULL,
+	"persona_id" integer NOT NULL,
+	"role_in_scenario" text NOT NULL,
+	"introduce_at_step" integer DEFAULT 1 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "scenarios" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"slug" text NOT NULL,
+	"description" text NOT NULL,
+	"briefing" text NOT NULL,
+	"category" text NOT NULL,
+	"difficulty" "difficulty" DEFAULT 'intermediate' NOT NULL,
+	"role_required" text NOT NULL,
+	"seniority_level" text NOT NULL,
+	"channels" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"constraints" jsonb NOT NULL,
+	"required_artifacts" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"artifact_policy" jsonb,
+	"competencies" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"learning_objectives" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"client_profile" jsonb NOT NULL,
+	"featured" boolean DEFAULT false NOT NULL,
+	"estimated_steps" integer DEFAULT 5 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "scenarios_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scenario_id" integer NOT NULL,
+	"mode" "session_mode" DEFAULT 'practice' NOT NULL,
+	"status" "session_status" DEFAULT 'briefing' NOT NULL,
+	"current_step" integer DEFAULT 0 NOT NULL,
+	"current_channel" "channel_type" DEFAULT 'email' NOT NULL,
+	"user_role" text NOT NULL,
+	"user_seniority" text NOT NULL,
+	"seed" integer DEFAULT floor(random() * 2147483647)::integer NOT NULL,
+	"config" jsonb DEFAULT '{"procurementStrictness":false,"complianceSensitivity":false,"tickingClockPressure":false}'::jsonb NOT NULL,
+	"workflow_run_id" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "templates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"type" "artifact_type" NOT NULL,
+	"category" text NOT NULL,
+	"role_mapping" text,
+	"content" text NOT NULL,
+	"style_guide" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_configs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"role" text DEFAULT 'Account Executive' NOT NULL,
+	"seniority_level" text DEFAULT 'IC' NOT NULL,
+	"preferred_mode" "session_mode" DEFAULT 'practice' NOT NULL,
+	"active_channels" jsonb DEFAULT '["email","call","deck_review","follow_up"]'::jsonb NOT NULL,
+	"constraint_toggles" jsonb DEFAULT '{"procurementStrictness":false,"complianceSensitivity":false,"tickingClockPressure":false}'::jsonb NOT NULL,
+	"active_template_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "artifact_revisions" ADD CONSTRAINT "artifact_revisions_artifact_id_artifacts_id_fk" FOREIGN KEY ("artifact_id") REFERENCES "public"."artifacts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "artifacts" ADD CONSTRAINT "artifacts_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "artifacts" ADD CONSTRAINT "artifacts_template_id_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."templates"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "assessments" ADD CONSTRAINT "assessments_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_persona_id_personas_id_fk" FOREIGN KEY ("persona_id") REFERENCES "public"."personas"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "persona_states" ADD CONSTRAINT "persona_states_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "persona_states" ADD CONSTRAINT "persona_states_persona_id_personas_id_fk" FOREIGN KEY ("persona_id") REFERENCES "public"."personas"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scenario_personas" ADD CONSTRAINT "scenario_personas_scenario_id_scenarios_id_fk" FOREIGN KEY ("scenario_id") REFERENCES "public"."scenarios"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scenario_personas" ADD CONSTRAINT "scenario_personas_persona_id_personas_id_fk" FOREIGN KEY ("persona_id") REFERENCES "public"."personas"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_scenario_id_scenarios_id_fk" FOREIGN KEY ("scenario_id") REFERENCES "public"."scenarios"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
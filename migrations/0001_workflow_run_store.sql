@@ -0,0 +1,40 @@
+CREATE TYPE "public"."workflow_run_status" AS ENUM('created', 'running', 'succeeded', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."workflow_step_status" AS ENUM('succeeded', 'failed');--> statement-breakpoint
+CREATE TABLE "workflow_definitions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"version" integer NOT NULL,
+	"definition" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "workflow_runs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"workflow_id" text NOT NULL,
+	"session_id" integer,
+	"status" "workflow_run_status" DEFAULT 'created' NOT NULL,
+	"inputs" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "workflow_step_results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"run_id" text NOT NULL,
+	"step_id" text NOT NULL,
+	"status" "workflow_step_status" NOT NULL,
+	"inputs" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"outputs" jsonb,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"error" text,
+	"started_at" timestamp NOT NULL,
+	"completed_at" timestamp NOT NULL,
+	"duration_ms" integer NOT NULL,
+	CONSTRAINT "workflow_step_results_run_step_unique" UNIQUE("run_id","step_id")
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_runs" ADD CONSTRAINT "workflow_runs_workflow_id_workflow_definitions_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflow_definitions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_runs" ADD CONSTRAINT "workflow_runs_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_step_results" ADD CONSTRAINT "workflow_step_results_run_id_workflow_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."workflow_runs"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TYPE "public"."job_status" AS ENUM('queued', 'running', 'succeeded', 'failed');--> statement-breakpoint
+ALTER TYPE "public"."assessment_status" ADD VALUE 'failed';--> statement-breakpoint
+CREATE TABLE "assessment_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"assessment_id" integer NOT NULL,
+	"session_id" integer NOT NULL,
+	"status" "job_status" DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"progress_message" text,
+	"last_error" text,
+	"run_after" timestamp DEFAULT now() NOT NULL,
+	"locked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "assessment_jobs" ADD CONSTRAINT "assessment_jobs_assessment_id_assessments_id_fk" FOREIGN KEY ("assessment_id") REFERENCES "public"."assessments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "assessment_jobs" ADD CONSTRAINT "assessment_jobs_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "assessments" ADD COLUMN "active_constraints" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
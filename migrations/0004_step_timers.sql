@@ -0,0 +1,5 @@
+ALTER TABLE "messages" ADD COLUMN "response_latency_ms" integer;--> statement-breakpoint
+ALTER TABLE "scenarios" ADD COLUMN "step_timers" jsonb;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "step_started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "step_deadline_at" timestamp;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "step_expired_at" timestamp;
\ No newline at end of file
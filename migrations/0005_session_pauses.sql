@@ -0,0 +1,3 @@
+ALTER TABLE "scenarios" ADD COLUMN "pause_policy" jsonb;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "pauses" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "last_activity_at" timestamp DEFAULT now() NOT NULL;
\ No newline at end of file
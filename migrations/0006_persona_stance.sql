@@ -0,0 +1 @@
+ALTER TABLE "persona_states" ADD COLUMN "stance" text DEFAULT 'neutral' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "personas" ADD COLUMN "priorities" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "session_memories" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" integer NOT NULL,
+	"message_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"subject" text,
+	"value" text,
+	"content" text NOT NULL,
+	"channel" "channel_type" NOT NULL,
+	"step" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "session_memories" ADD CONSTRAINT "session_memories_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_memories" ADD CONSTRAINT "session_memories_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "workflow_step_results" DROP CONSTRAINT "workflow_step_results_run_step_unique";--> statement-breakpoint
+ALTER TABLE "workflow_step_results" ADD COLUMN "execution_id" text;--> statement-breakpoint
+UPDATE "workflow_step_results" SET "execution_id" = "step_id";--> statement-breakpoint
+ALTER TABLE "workflow_step_results" ALTER COLUMN "execution_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "workflow_step_results" ADD CONSTRAINT "workflow_step_results_run_execution_unique" UNIQUE("run_id","execution_id");
\ No newline at end of file
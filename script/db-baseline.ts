@@ -0,0 +1,55 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import path from "path";
+import pg from "pg";
+
+// Marks the baseline migration (migrations/0000_baseline.sql) as applied on
+// a database that was created with `npm run db:push` before the migration
+// series existed, so that `npm run db:migrate` starts from the workflow run
+// store (0001) instead of recreating tables that are already there:
+//
+//   npm run db:baseline && npm run db:migrate
+//
+// The bookkeeping is the one `drizzle-kit migrate` keeps: a row in
+// drizzle.__drizzle_migrations with the SQL file's sha256 and the journal
+// timestamp. A database that already has migration history, or that lacks
+// the baseline's tables (use `npm run db:migrate` on its own), is left alone.
+
+const migrationsFolder = path.resolve("migrations");
+
+async function main() {
+  if (!process.env.DATABASE_URL) throw new Error("DATABASE_URL must be set");
+
+  const journal = JSON.parse(readFileSync(path.join(migrationsFolder, "meta/_journal.json"), "utf8"));
+  const baseline: { tag: string; when: number } = journal.entries[0];
+  const query = readFileSync(path.join(migrationsFolder, `${baseline.tag}.sql`), "utf8");
+  const hash = createHash("sha256").update(query).digest("hex");
+
+  const client = new pg.Client({ connectionString: process.env.DATABASE_URL });
+  await client.connect();
+  try {
+    const { rows: [pushed] } = await client.query(`SELECT to_regclass('public.sessions') IS NOT NULL AS "exists"`);
+    if (!pushed.exists) {
+      console.log("No baseline tables found; run `npm run db:migrate` to create the schema.");
+      return;
+    }
+
+    await client.query(`CREATE SCHEMA IF NOT EXISTS drizzle`);
+    await client.query(`CREATE TABLE IF NOT EXISTS drizzle.__drizzle_migrations (id SERIAL PRIMARY KEY, hash text NOT NULL, created_at bigint)`);
+    const { rows: [history] } = await client.query(`SELECT count(*)::int AS count FROM drizzle.__drizzle_migrations`);
+    if (history.count > 0) {
+      console.log("Migration history already recorded; nothing to baseline.");
+      return;
+    }
+
+    await client.query(`INSERT INTO drizzle.__drizzle_migrations (hash, created_at) VALUES ($1, $2)`, [hash, baseline.when]);
+    console.log(`Marked ${baseline.tag} as applied.`);
+  } finally {
+    await client.end();
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
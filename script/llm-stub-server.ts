@@ -0,0 +1,134 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import { pathToFileURL } from "url";
+
+// Local stand-in for an OpenAI-compatible chat completions API so the app
+// can run with LLM_PROVIDER=openai and no network access:
+//
+//   npm run llm:stub
+//   LLM_PROVIDER=openai LLM_BASE_URL=http://localhost:5055/v1 npm run dev
+//
+// Replies are canned and chosen deterministically from the last user
+// message, so the same conversation always gets the same completions.
+// Requests with `stream: true` get the reply word by word as server-sent
+// chunks, like the real API. Tests start it in-process with
+// createLLMStubServer() on a free port.
+
+const port = parseInt(process.env.LLM_STUB_PORT || "5055", 10);
+
+const cannedReplies: Array<{ keywords: string[]; reply: string }> = [
+  {
+    keywords: ["price", "pricing", "cost", "budget", "discount"],
+    reply: "Before we talk numbers, I need to understand what I'm replacing and what the total cost of ownership looks like over three years. Can you break that down?",
+  },
+  {
+    keywords: ["compliance", "hipaa", "regulatory", "gxp", "security"],
+    reply: "Compliance is non-negotiable for us. I'll need your documentation in hand before this goes any further. What certifications can you share today?",
+  },
+  {
+    keywords: ["pilot", "trial", "proof of concept"],
+    reply: "A pilot could work, but only with clear success criteria and an exit clause. What would you measure, and over what timeframe?",
+  },
+  {
+    keywords: ["timeline", "deadline", "date", "week"],
+    reply: "Timing matters here. Walk me through the dates you have in mind, and be realistic—I will hold you to them.",
+  },
+];
+
+const defaultReplies = [
+  "Thanks for the context. What evidence can you point me to that this has worked for a company like ours?",
+  "I follow you so far. What do you need from me to move this forward, and what happens if we wait a quarter?",
+  "That's helpful. Who else on your side would be involved if we took the next step?",
+];
+
+export function pickReply(userMessage: string): string {
+  const lower = userMessage.toLowerCase();
+  const match = cannedReplies.find(r => r.keywords.some(k => lower.includes(k)));
+  if (match) return match.reply;
+
+  let hash = 0;
+  for (let i = 0; i < userMessage.length; i++) {
+    hash = (hash * 31 + userMessage.charCodeAt(i)) >>> 0;
+  }
+  return defaultReplies[hash % defaultReplies.length];
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+function sendStream(res: ServerResponse, model: string, content: string) {
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+  const id = `chatcmpl-stub-${Date.now()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const words = content.split(/(?<=\s)/);
+
+  let index = 0;
+  const timer = setInterval(() => {
+    if (index < words.length) {
+      const chunk = {
+        id,
+        object: "chat.completion.chunk",
+        created,
+        model,
+        choices: [{ index: 0, delta: { content: words[index++] }, finish_reason: null }],
+      };
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      return;
+    }
+    clearInterval(timer);
+    res.write("data: [DONE]\n\n");
+    res.end();
+  }, 30);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export function createLLMStubServer(): Server {
+  return createServer(async (req, res) => {
+    if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+      return sendJson(res, 404, { error: { message: `No stub route for ${req.method} ${req.url}` } });
+    }
+
+    try {
+      const body = JSON.parse(await readBody(req)) as {
+        model?: string;
+        messages?: Array<{ role: string; content: string }>;
+        stream?: boolean;
+      };
+      const lastUser = [...(body.messages ?? [])].reverse().find(m => m.role === "user");
+      const content = pickReply(lastUser?.content ?? "");
+      if (body.stream) return sendStream(res, body.model ?? "stub-model", content);
+
+      sendJson(res, 200, {
+        id: `chatcmpl-stub-${Date.now()}`,
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model: body.model ?? "stub-model",
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content },
+            finish_reason: "stop",
+          },
+        ],
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      });
+    } catch (err: any) {
+      sendJson(res, 400, { error: { message: err.message } });
+    }
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  createLLMStubServer().listen(port, () => {
+    console.log(`LLM stub server listening on http://localhost:${port}/v1`);
+  });
+}
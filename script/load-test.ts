@@ -0,0 +1,115 @@
+import { performance } from "perf_hooks";
+import { storage } from "../server/storage";
+import {
+  ensureSessionRun,
+  executeSessionPersonaResponse,
+  executeSessionAssessment,
+  getActivePersonaForStep,
+} from "../server/workflow-engine";
+
+// Drives thousands of persona turns through the workflow engine in-process
+// and reports latency and heap usage per batch, to check that neither grows
+// as the bilko-flow store sees more runs:
+//
+//   npm run load:test -- 5000
+//
+// Needs DATABASE_URL pointing at a seeded database; it creates real
+// sessions and messages, so use a scratch database. Turns are spread over
+// sessions of SESSION_TURNS messages, each finished with an assessment, so
+// completed runs go through the retention policy as they would in use.
+
+const totalMessages = parseInt(process.argv[2] || "2000", 10);
+const batchSize = parseInt(process.env.LOAD_BATCH_SIZE || "250", 10);
+const sessionTurns = parseInt(process.env.LOAD_SESSION_TURNS || "20", 10);
+
+const userTurns = [
+  "Thanks for the time. What are the biggest risks on your radar this quarter?",
+  "We cut alert triage time by 40% for a similar team. Would a 30-day pilot help you evaluate that?",
+  "I understand the budget concern. What would you need to see to take this to your steering committee?",
+  "Let me follow up with a one-pager and two reference customers by Friday.",
+];
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+function heapMb(): number {
+  if (global.gc) global.gc();
+  return process.memoryUsage().heapUsed / 1024 / 1024;
+}
+
+async function main() {
+  const scenario = (await storage.getScenarios())[0];
+  if (!scenario) throw new Error("No scenarios found; seed the database first");
+  const active = await getActivePersonaForStep(scenario.id, 1);
+  if (!active) throw new Error(`Scenario ${scenario.id} has no persona at step 1`);
+
+  console.log(`Load test: ${totalMessages} messages, scenario "${scenario.title}", batches of ${batchSize}`);
+  console.log("batch  messages  p50 ms  p95 ms  max ms  heap MB");
+
+  let latencies: number[] = [];
+  let session = null as Awaited<ReturnType<typeof storage.createSession>> | null;
+  let runId = "";
+
+  for (let i = 0; i < totalMessages; i++) {
+    if (i % sessionTurns === 0) {
+      if (session) await executeSessionAssessment(runId, session.id);
+      session = await storage.createSession({
+        scenarioId: scenario.id,
+        mode: "practice",
+        status: "active",
+        currentStep: 1,
+        currentChannel: (scenario.channels as string[])[0] as any,
+        userRole: "Account Executive",
+        userSeniority: "mid",
+        seed: i + 1,
+      });
+      runId = await ensureSessionRun(session);
+    }
+
+    const userMessage = await storage.createMessage({
+      sessionId: session!.id,
+      channel: session!.currentChannel,
+      senderType: "user",
+      senderName: "You",
+      content: userTurns[i % userTurns.length],
+      step: 1,
+    });
+    const started = performance.now();
+    await executeSessionPersonaResponse(
+      runId,
+      session!.id,
+      scenario.id,
+      active.personaId,
+      active.persona.personaType,
+      userMessage.content,
+      userMessage.id,
+      session!.currentChannel,
+      1,
+    );
+    latencies.push(performance.now() - started);
+
+    if ((i + 1) % batchSize === 0 || i + 1 === totalMessages) {
+      const sorted = [...latencies].sort((a, b) => a - b);
+      console.log(
+        [
+          String(Math.ceil((i + 1) / batchSize)).padStart(5),
+          String(i + 1).padStart(9),
+          percentile(sorted, 50).toFixed(1).padStart(7),
+          percentile(sorted, 95).toFixed(1).padStart(7),
+          sorted[sorted.length - 1].toFixed(1).padStart(7),
+          heapMb().toFixed(1).padStart(8),
+        ].join(" "),
+      );
+      latencies = [];
+    }
+  }
+
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,310 @@
+/**
+ * Artifact Grader
+ *
+ * Grades an artifact when its status moves to `submitted`. The content is
+ * compared against the linked Template (required sections, leftover
+ * placeholders) and the rules in its `styleGuide` (length, voice, jargon,
+ * sourcing, tone), checked for accuracy against the scenario's
+ * `clientProfile` facts, and scanned for commitments (server/commitments.ts)
+ * that exceed the rep's seniority or the session's constraints, and for
+ * absolute over-promises. The result fills `artifacts.score`, `feedback` and
+ * `gradingDetails`.
+ *
+ * Grading is deterministic: the same content, template and scenario always
+ * yield the same grade.
+ */
+
+import type { Artifact, Template, Scenario, Session } from "@shared/schema";
+import { storage } from "./storage";
+import { analyzeUserTurn } from "./persona-state";
+import { scoreArtifactCompleteness } from "./rubric";
+import { getActiveConstraints } from "./constraints";
+import { findCommitments } from "./commitments";
+import { splitSentences } from "./promise-language";
+
+export type GradingDetails = NonNullable<Artifact["gradingDetails"]>;
+
+export interface ArtifactGrade {
+  score: number;
+  feedback: string;
+  gradingDetails: GradingDetails;
+}
+
+type GradableArtifact = Pick<Artifact, "type" | "title" | "content">;
+type GradingTemplate = Pick<Template, "content" | "styleGuide">;
+type GradingScenario = Pick<Scenario, "clientProfile" | "constraints">;
+type GradingSession = Pick<Session, "userSeniority" | "config">;
+
+/** Weight of each criterion in the overall artifact score. */
+const CRITERIA_WEIGHTS: Record<keyof GradingDetails, number> = {
+  clarity: 0.15,
+  completeness: 0.2,
+  accuracy: 0.2,
+  toneAppropriateness: 0.15,
+  templateConformance: 0.15,
+  commitmentAppropriateness: 0.15,
+};
+
+// ─── Text helpers ────────────────────────────────────────────────────────────
+
+const PLACEHOLDER_PATTERN = /\[[^\]]{2,40}\]/g;
+const PASSIVE_PATTERN = /\b(is|are|was|were|been|being|be)\s+(\w+ed|done|made|given|taken|shown|known|seen)\b/gi;
+const JARGON_PATTERN = /\b(synerg(y|ies|istic)|leverag(e|ed|ing)|paradigm|best[- ]in[- ]class|world[- ]class|move the needle|circle back|low[- ]hanging fruit|bleeding[- ]edge|holistic|value[- ]add|thought leadership|disrupt(ive|ion)?)\b/gi;
+const SENSATIONAL_PATTERN = /\b(shocking|catastroph(e|ic)|explosive|unprecedented|bombshell|devastating|game[- ]chang(er|ing)|crisis)\b|!{2,}/gi;
+const SOURCE_PATTERN = /\b(source|according to|cited|reported by|per the)\b|https?:\/\//gi;
+const OWNER_PATTERN = /\bowner\b/i;
+
+function wordCount(text: string): number {
+  return (text.match(/\S+/g) ?? []).length;
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) ?? []).length;
+}
+
+function clampScore(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9 ]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+// ─── Template sections ───────────────────────────────────────────────────────
+
+/**
+ * Extracts the section names a template requires: its markdown headings and
+ * a leading "Subject:" line. Headings that are pure placeholders
+ * (e.g. "### 1. [Headline]") are skipped.
+ */
+export function extractTemplateSections(templateContent: string): Array<{ key: string; label: string }> {
+  const sections: Array<{ key: string; label: string }> = [];
+  for (const line of templateContent.split("\n")) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const raw = heading ? heading[1] : /^subject:/i.test(line) ? "Subject" : null;
+    if (!raw) continue;
+    const label = raw.replace(PLACEHOLDER_PATTERN, "").replace(/^\d+\.\s*/, "").replace(/[—-]\s*$/, "").trim();
+    const key = normalize(label);
+    if (key.length >= 3 && !sections.some(s => s.key === key)) sections.push({ key, label });
+  }
+  return sections;
+}
+
+// ─── Style guide rules ───────────────────────────────────────────────────────
+
+interface StyleCheck {
+  rule: string;
+  passed: boolean;
+  /** Which criterion the rule counts against. */
+  criterion: "clarity" | "toneAppropriateness" | "completeness";
+}
+
+/**
+ * Turns the free-text styleGuide into concrete checks. Only rules the grader
+ * recognises are enforced; quoted phrases (e.g. 'What was NOT discussed')
+ * are treated as required content.
+ */
+function checkStyleGuide(styleGuide: string, content: string): StyleCheck[] {
+  const guide = styleGuide.toLowerCase();
+  const words = wordCount(content);
+  const sentenceList = splitSentences(content);
+  const checks: StyleCheck[] = [];
+
+  if (guide.includes("one page")) {
+    checks.push({ rule: "Fits on one page (about 500 words or fewer)", passed: words <= 500, criterion: "clarity" });
+  }
+  if (guide.includes("concise")) {
+    const avg = sentenceList.length > 0 ? words / sentenceList.length : 0;
+    checks.push({ rule: "Concise sentences (average under 25 words)", passed: avg <= 25, criterion: "clarity" });
+  }
+  if (guide.includes("active voice")) {
+    const passive = countMatches(content, PASSIVE_PATTERN);
+    checks.push({ rule: "Uses active voice", passed: passive <= Math.max(1, sentenceList.length * 0.15), criterion: "clarity" });
+  }
+  if (guide.includes("jargon")) {
+    checks.push({ rule: "Avoids jargon", passed: countMatches(content, JARGON_PATTERN) === 0, criterion: "clarity" });
+  }
+  if (guide.includes("quantify")) {
+    checks.push({ rule: "Quantifies benefits", passed: /\d+(\.\d+)?\s?(%|x\b)|\$\s?\d/.test(content), criterion: "completeness" });
+  }
+  if (guide.includes("sourced")) {
+    checks.push({ rule: "Claims are sourced", passed: countMatches(content, SOURCE_PATTERN) >= 2, criterion: "completeness" });
+  }
+  if (guide.includes("owner")) {
+    checks.push({ rule: "Every item has an owner", passed: OWNER_PATTERN.test(content), criterion: "completeness" });
+  }
+  if (guide.includes("sensational") || guide.includes("speculation") || guide.includes("alarmist")) {
+    checks.push({ rule: "Balanced, non-sensational tone", passed: countMatches(content, SENSATIONAL_PATTERN) === 0, criterion: "toneAppropriateness" });
+  }
+  if (guide.includes("disclaimer")) {
+    checks.push({ rule: "Includes a disclaimer", passed: /\b(disclaimer|for internal use|not (legal|medical) advice)\b/i.test(content), criterion: "completeness" });
+  }
+  for (const match of Array.from(styleGuide.matchAll(/'([^']{4,60})'/g))) {
+    const phrase = match[1];
+    checks.push({
+      rule: `Includes "${phrase}"`,
+      passed: normalize(content).includes(normalize(phrase)),
+      criterion: "completeness",
+    });
+  }
+  return checks;
+}
+
+// ─── Client profile accuracy ─────────────────────────────────────────────────
+
+interface FactCheck {
+  passed: boolean;
+  /** What is wrong when the check fails. */
+  issue: string;
+}
+
+/** Pulls "<number><unit> <label>" figures (e.g. "$8B revenue", "45,000 employees"). */
+function extractFigures(text: string): Array<{ value: string; label: string }> {
+  const figures: Array<{ value: string; label: string }> = [];
+  const pattern = /(\$?\s?[\d,.]+\s?[KMB]?\+?)\s+(revenue|employees|countries)/gi;
+  for (const match of Array.from(text.matchAll(pattern))) {
+    figures.push({ value: match[1].replace(/[\s,+]/g, "").toUpperCase(), label: match[2].toLowerCase() });
+  }
+  return figures;
+}
+
+function checkClientFacts(profile: Scenario["clientProfile"], content: string): FactCheck[] {
+  const checks: FactCheck[] = [];
+  const lower = content.toLowerCase();
+
+  checks.push({ passed: lower.includes(profile.name.toLowerCase()), issue: `does not name the client (${profile.name})` });
+
+  const known = extractFigures(profile.size);
+  for (const stated of extractFigures(content)) {
+    const expected = known.find(k => k.label === stated.label);
+    if (!expected) continue;
+    checks.push({
+      passed: stated.value === expected.value,
+      issue: `states ${stated.value} ${stated.label}, but the client profile says ${expected.value}`,
+    });
+  }
+  return checks;
+}
+
+// ─── Grading ─────────────────────────────────────────────────────────────────
+
+/**
+ * Grades artifact content against its template, the template's style guide
+ * and the scenario's client profile. Commitments are judged against the
+ * session's seniority and constraints; without a session they are judged as
+ * an IC's.
+ */
+export function gradeArtifact(
+  artifact: GradableArtifact,
+  template: GradingTemplate | null,
+  scenario: GradingScenario | null,
+  session: GradingSession | null = null,
+): ArtifactGrade {
+  const content = artifact.content;
+  const normalizedContent = normalize(content);
+  const findings: string[] = [];
+
+  // Template conformance: required sections present, no leftover placeholders
+  const sections = template ? extractTemplateSections(template.content) : [];
+  const missingSections = sections.filter(s => !normalizedContent.includes(s.key));
+  const placeholders = countMatches(content, PLACEHOLDER_PATTERN);
+  let templateConformance = sections.length > 0
+    ? ((sections.length - missingSections.length) / sections.length) * 100
+    : 70;
+  templateConformance -= Math.min(placeholders * 5, 30);
+  if (!template) findings.push("No template is linked, so section conformance was estimated.");
+  if (missingSections.length > 0) findings.push(`Missing template section(s): ${missingSections.map(s => s.label).join(", ")}.`);
+  if (placeholders > 0) findings.push(`${placeholders} template placeholder(s) were left unfilled.`);
+
+  // Style guide rules
+  const styleChecks = template?.styleGuide ? checkStyleGuide(template.styleGuide, content) : [];
+  const failed = styleChecks.filter(c => !c.passed);
+  const penaltyFor = (criterion: StyleCheck["criterion"]) => failed.filter(c => c.criterion === criterion).length * 15;
+  if (failed.length > 0) findings.push(`Style guide: ${failed.map(c => c.rule.toLowerCase()).join("; ")} — not met.`);
+
+  // Clarity: sentence length, jargon, placeholder noise
+  const sentenceList = splitSentences(content);
+  const avgSentence = sentenceList.length > 0 ? wordCount(content) / sentenceList.length : 0;
+  const clarity = 85 - Math.max(0, avgSentence - 22) * 2 - countMatches(content, JARGON_PATTERN) * 5 - penaltyFor("clarity");
+
+  // Completeness: structure and length, plus content-level style rules
+  const completeness = scoreArtifactCompleteness(content) * 0.6 + (sections.length > 0 ? (1 - missingSections.length / sections.length) * 40 : 20) - penaltyFor("completeness");
+
+  // Tone
+  const sensational = countMatches(content, SENSATIONAL_PATTERN);
+  const toneAppropriateness = 85 - sensational * 10 - (analyzeUserTurn(content).pushy ? 15 : 0) - penaltyFor("toneAppropriateness");
+  if (sensational > 0) findings.push(`${sensational} sensational or alarmist phrase(s) undercut the tone.`);
+
+  // Accuracy against the client profile
+  const factChecks = scenario ? checkClientFacts(scenario.clientProfile, content) : [];
+  const wrongFacts = factChecks.filter(c => !c.passed);
+  const accuracy = factChecks.length > 0 ? 40 + ((factChecks.length - wrongFacts.length) / factChecks.length) * 60 : 70;
+  if (wrongFacts.length > 0) findings.push(`Accuracy: ${wrongFacts.map(c => c.issue).join("; ")}.`);
+
+  // Commitments beyond the rep's authority, and absolute over-promises
+  const commitments = findCommitments(content, {
+    seniority: session?.userSeniority ?? "IC",
+    constraints: scenario ? getActiveConstraints(scenario, session) : [],
+  });
+  const overreach = commitments.filter(c => c.verdict === "overreach");
+  const needsApproval = commitments.filter(c => c.verdict === "needs_approval");
+  const overpromises = sentenceList.filter(s => analyzeUserTurn(s).overpromises && !commitments.some(c => c.content === s));
+  const commitmentAppropriateness = 95 - overreach.length * 25 - needsApproval.length * 10 - overpromises.length * 15;
+  if (overreach.length > 0) {
+    findings.push(`${overreach.length} commitment(s) beyond the rep's authority, e.g. "${overreach[0].content.slice(0, 120)}" — ${overreach[0].reason}`);
+  }
+  if (needsApproval.length > 0) {
+    findings.push(`${needsApproval.length} commitment(s) need approval first, e.g. "${needsApproval[0].content.slice(0, 120)}" — ${needsApproval[0].reason}`);
+  }
+  if (overpromises.length > 0) {
+    findings.push(`${overpromises.length} over-promise(s), e.g. "${overpromises[0].slice(0, 120)}".`);
+  }
+
+  const gradingDetails: GradingDetails = {
+    clarity: clampScore(clarity),
+    completeness: clampScore(completeness),
+    accuracy: clampScore(accuracy),
+    toneAppropriateness: clampScore(toneAppropriateness),
+    templateConformance: clampScore(templateConformance),
+    commitmentAppropriateness: clampScore(commitmentAppropriateness),
+  };
+  const score = clampScore(
+    (Object.keys(CRITERIA_WEIGHTS) as Array<keyof GradingDetails>)
+      .reduce((sum, key) => sum + gradingDetails[key] * CRITERIA_WEIGHTS[key], 0),
+  );
+
+  const headline = score >= 70
+    ? "Meets the bar for this deliverable."
+    : score >= 50
+    ? "Usable draft, but needs revision before it goes to the client."
+    : "Not ready to send — significant gaps against the template and style guide.";
+  const feedback = findings.length > 0
+    ? `${headline}\n${findings.map(f => `- ${f}`).join("\n")}`
+    : `${headline} No issues found against the template, style guide or client profile.`;
+
+  return { score, feedback, gradingDetails };
+}
+
+/**
+ * Loads the artifact's template (the linked one, or the active template of
+ * the same type) and scenario, grades it and saves the result.
+ */
+export async function gradeAndSaveArtifact(artifact: Artifact): Promise<Artifact> {
+  let template = artifact.templateId ? await storage.getTemplate(artifact.templateId) : undefined;
+  if (!template) {
+    const templates = await storage.getTemplates();
+    template = templates.find(t => t.isActive && t.type === artifact.type);
+  }
+
+  const session = await storage.getSession(artifact.sessionId);
+  const scenario = session ? await storage.getScenario(session.scenarioId) : undefined;
+
+  const grade = gradeArtifact(artifact, template ?? null, scenario ?? null, session ?? null);
+  const updated = await storage.updateArtifact(artifact.id, {
+    score: grade.score,
+    feedback: grade.feedback,
+    gradingDetails: grade.gradingDetails,
+    templateId: artifact.templateId ?? template?.id ?? null,
+  });
+  return updated ?? artifact;
+}
@@ -0,0 +1,112 @@
+/**
+ * Required Artifact Policy
+ *
+ * Each scenario can tie its `requiredArtifacts` to step deadlines through
+ * `scenarios.artifactPolicy`. Advancing past a deadline step, or requesting
+ * the assessment, with a required artifact still missing is either blocked
+ * (`enforcement: "block"`) or allowed with a score penalty
+ * (`enforcement: "penalize"`). Penalized misses are recorded as system
+ * messages so the assessment can surface them as friction points even when
+ * the artifact was produced late.
+ *
+ * An artifact counts as produced once it has been submitted (any status
+ * other than `draft`).
+ */
+
+import type { Artifact, Message, Scenario } from "@shared/schema";
+
+export type ArtifactPolicy = NonNullable<Scenario["artifactPolicy"]>;
+
+export interface ArtifactDeadline {
+  type: string;
+  dueByStep: number;
+}
+
+export interface DeadlineCheck {
+  enforcement: ArtifactPolicy["enforcement"];
+  missing: ArtifactDeadline[];
+}
+
+export interface DeadlineOutcome {
+  /** Required artifacts never produced. */
+  missing: ArtifactDeadline[];
+  /** Required artifacts produced after their deadline step was passed. */
+  late: ArtifactDeadline[];
+  penaltyPerMissing: number;
+}
+
+/** Message metadata kind used to record a penalized deadline miss. */
+export const DEADLINE_MISSED_KIND = "artifact_deadline_missed";
+
+const DEFAULT_PENALTY = 10;
+
+/**
+ * Returns the scenario's policy, defaulting every required artifact without
+ * an explicit deadline to the final step and enforcement to "penalize".
+ */
+export function getArtifactPolicy(scenario: Pick<Scenario, "artifactPolicy" | "requiredArtifacts" | "estimatedSteps">): ArtifactPolicy {
+  const configured = scenario.artifactPolicy;
+  const dueByStep: Record<string, number> = {};
+  for (const type of scenario.requiredArtifacts) {
+    dueByStep[type] = configured?.dueByStep[type] ?? scenario.estimatedSteps;
+  }
+  return {
+    enforcement: configured?.enforcement ?? "penalize",
+    dueByStep,
+    penaltyPerMissing: configured?.penaltyPerMissing ?? DEFAULT_PENALTY,
+  };
+}
+
+function producedTypes(artifacts: Pick<Artifact, "type" | "status">[]): Set<string> {
+  return new Set(artifacts.filter(a => a.status !== "draft").map(a => a.type as string));
+}
+
+/**
+ * Required artifacts that are due by `throughStep` (inclusive) and not yet
+ * produced. Pass the current step when advancing, or Infinity for the
+ * assessment.
+ */
+export function checkArtifactDeadlines(
+  scenario: Pick<Scenario, "artifactPolicy" | "requiredArtifacts" | "estimatedSteps">,
+  artifacts: Pick<Artifact, "type" | "status">[],
+  throughStep: number,
+): DeadlineCheck {
+  const policy = getArtifactPolicy(scenario);
+  const produced = producedTypes(artifacts);
+  const missing = Object.entries(policy.dueByStep)
+    .filter(([type, step]) => step <= throughStep && !produced.has(type))
+    .map(([type, dueByStep]) => ({ type, dueByStep }))
+    .sort((a, b) => a.dueByStep - b.dueByStep);
+  return { enforcement: policy.enforcement, missing };
+}
+
+/**
+ * Summarizes deadline compliance for the assessment: artifacts still
+ * missing, and artifacts produced only after a recorded deadline miss.
+ */
+export function getDeadlineOutcome(
+  scenario: Pick<Scenario, "artifactPolicy" | "requiredArtifacts" | "estimatedSteps">,
+  artifacts: Pick<Artifact, "type" | "status">[],
+  messages: Pick<Message, "metadata">[],
+): DeadlineOutcome {
+  const policy = getArtifactPolicy(scenario);
+  const { missing } = checkArtifactDeadlines(scenario, artifacts, Infinity);
+  const missingTypes = new Set(missing.map(m => m.type));
+
+  const missedTypes = new Set<string>();
+  for (const message of messages) {
+    if (message.metadata?.kind !== DEADLINE_MISSED_KIND) continue;
+    for (const type of (message.metadata.artifactTypes as string[] | undefined) ?? []) {
+      missedTypes.add(type);
+    }
+  }
+  const late = Array.from(missedTypes)
+    .filter(type => !missingTypes.has(type) && policy.dueByStep[type] !== undefined)
+    .map(type => ({ type, dueByStep: policy.dueByStep[type] }));
+
+  return { missing, late, penaltyPerMissing: policy.penaltyPerMissing };
+}
+
+export function formatArtifactList(deadlines: ArtifactDeadline[]): string {
+  return deadlines.map(d => `${d.type.replace(/_/g, " ")} (due by step ${d.dueByStep})`).join(", ");
+}
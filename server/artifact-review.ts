@@ -0,0 +1,201 @@
+/**
+ * Persona-driven Artifact Review
+ *
+ * Submitting an artifact starts a review: the artifact is graded, moved to
+ * `under_review`, and the scenario persona best placed to judge that
+ * artifact type (e.g. the Medical Reviewer for a newsletter_brief) posts
+ * in-character feedback as a message. The status then moves to
+ * `revision_requested` or `approved` based on the grade. Reps iterate by
+ * editing the artifact and resubmitting until it is approved.
+ */
+
+import type { Artifact, Persona, ScenarioPersona, Session } from "@shared/schema";
+import { storage } from "./storage";
+import { gradeAndSaveArtifact } from "./artifact-grader";
+import { getLLMProvider } from "./llm-provider";
+import { buildPersonaPrompt } from "./persona-prompt";
+
+/** Minimum grade for approval. */
+export const APPROVAL_THRESHOLD = 70;
+
+/** No single criterion may fall below this for approval (e.g. one wrong fact or a big over-commitment). */
+const CRITERION_FLOOR = 50;
+
+/**
+ * Role keywords that make a persona a good reviewer for each artifact type,
+ * most specific first.
+ */
+const REVIEWER_KEYWORDS: Record<string, string[]> = {
+  newsletter_brief: ["medical reviewer", "content accuracy", "medical", "communications", "brand"],
+  risk_register: ["risk", "compliance", "technical", "security", "architecture"],
+  one_pager: ["economic buyer", "budget", "cfo", "gatekeeper", "procurement"],
+  deck: ["economic buyer", "cfo", "budget", "gatekeeper", "communications"],
+  email_recap: ["champion", "ally", "partnerships", "operations"],
+  meeting_agenda: ["champion", "ally", "operations", "partnerships"],
+  custom: [],
+};
+
+type ReviewerCandidate = ScenarioPersona & { persona: Persona };
+
+export interface ReviewOutcome {
+  artifact: Artifact;
+  reviewer: Persona | null;
+  verdict: "approved" | "revision_requested";
+}
+
+// ─── Reviewer selection ──────────────────────────────────────────────────────
+
+function affinity(candidate: ReviewerCandidate, keywords: string[]): number {
+  const haystack = `${candidate.roleInScenario} ${candidate.persona.role}`.toLowerCase();
+  return keywords.reduce((sum, keyword, index) => (haystack.includes(keyword) ? sum + (keywords.length - index) : sum), 0);
+}
+
+/**
+ * Picks the scenario persona best placed to review an artifact type.
+ * Ties go to personas already in the conversation, then to whoever was
+ * introduced first.
+ */
+export function selectReviewer(
+  artifactType: string,
+  candidates: ReviewerCandidate[],
+  currentStep: number,
+): ReviewerCandidate | null {
+  const keywords = REVIEWER_KEYWORDS[artifactType] ?? [];
+  const ranked = [...candidates].sort((a, b) =>
+    affinity(b, keywords) - affinity(a, keywords)
+    || Number(b.introduceAtStep <= currentStep) - Number(a.introduceAtStep <= currentStep)
+    || a.introduceAtStep - b.introduceAtStep,
+  );
+  return ranked[0] ?? null;
+}
+
+// ─── Verdict and feedback ────────────────────────────────────────────────────
+
+export function getReviewVerdict(artifact: Pick<Artifact, "score" | "gradingDetails">): ReviewOutcome["verdict"] {
+  const score = artifact.score ?? 0;
+  const weakest = artifact.gradingDetails ? Math.min(...Object.values(artifact.gradingDetails)) : 0;
+  return score >= APPROVAL_THRESHOLD && weakest >= CRITERION_FLOOR ? "approved" : "revision_requested";
+}
+
+/** The grader's findings, one per line, without the headline. */
+function gradingFindings(feedback: string | null): string[] {
+  return (feedback ?? "")
+    .split("\n")
+    .filter(line => line.startsWith("- "))
+    .map(line => line.slice(2));
+}
+
+const ARTIFACT_LABELS: Record<string, string> = {
+  one_pager: "one-pager",
+  email_recap: "email recap",
+  risk_register: "risk register",
+  meeting_agenda: "meeting agenda",
+  deck: "deck",
+  newsletter_brief: "newsletter brief",
+  custom: "document",
+};
+
+/** Offline in-character review, voiced by persona type. */
+function composeReview(persona: Persona, artifact: Artifact, verdict: ReviewOutcome["verdict"]): string {
+  const label = ARTIFACT_LABELS[artifact.type] ?? "document";
+  const findings = gradingFindings(artifact.feedback);
+  const list = findings.map(f => `- ${f}`).join("\n");
+
+  if (persona.personaType === "difficult_skeptical") {
+    return verdict === "approved"
+      ? `I've read the ${label}. It holds up — I can put my name next to this. Approved.`
+      : `I've read the ${label} and I can't sign off on it as it stands.\n\n${list}\n\nFix these and send it back. I'm not forwarding anything that creates problems for me later.`;
+  }
+  if (persona.personaType === "cooperative") {
+    return verdict === "approved"
+      ? `Thanks for turning the ${label} around — this is exactly what I need to take internally. Approved!`
+      : `Thanks for the ${label} — good start. Before I can use it internally, a few things need tightening:\n\n${list}\n\nSend me the revised version when you can and I'll take another look.`;
+  }
+  return verdict === "approved"
+    ? `I've reviewed the ${label} (score ${artifact.score}/100). The content is accurate and appropriately scoped. Approved.`
+    : `I've reviewed the ${label} (score ${artifact.score}/100). I need the following addressed before it can be approved:\n\n${list}\n\nPlease revise and resubmit.`;
+}
+
+async function writeReview(
+  persona: Persona,
+  roleInScenario: string,
+  artifact: Artifact,
+  verdict: ReviewOutcome["verdict"],
+  session: Session,
+  channel: string,
+): Promise<{ content: string; provider: string }> {
+  const provider = getLLMProvider();
+  const scenario = await storage.getScenario(session.scenarioId);
+  if (provider && scenario) {
+    try {
+      const history = await storage.getMessages(session.id);
+      const label = ARTIFACT_LABELS[artifact.type] ?? "document";
+      const prompt = buildPersonaPrompt({
+        persona,
+        roleInScenario,
+        scenario,
+        session,
+        channel,
+        history,
+        userMessage: `I've submitted the ${label} "${artifact.title}" for your review:\n\n${artifact.content}`,
+      });
+      prompt.messages[0].content += `\n\nARTIFACT REVIEW: You are reviewing the rep's ${label}. Your decision is ${
+        verdict === "approved" ? "APPROVED" : "REVISION REQUESTED"
+      }. Base your feedback on these review notes and state the decision clearly:\n${
+        gradingFindings(artifact.feedback).map(f => `- ${f}`).join("\n") || "- No issues found."
+      }`;
+      const completion = await provider.complete({ messages: prompt.messages, seed: session.seed });
+      return { content: completion.content, provider: completion.provider };
+    } catch (error: any) {
+      console.error(`LLM review failed, using offline review: ${error.message}`);
+    }
+  }
+  return { content: composeReview(persona, artifact, verdict), provider: "patterns" };
+}
+
+// ─── Review loop ─────────────────────────────────────────────────────────────
+
+/**
+ * Grades a just-submitted artifact and runs the persona review, posting the
+ * reviewer's feedback as a message and setting the resulting status.
+ */
+export async function reviewSubmittedArtifact(artifact: Artifact): Promise<ReviewOutcome> {
+  const graded = await gradeAndSaveArtifact(artifact);
+  const verdict = getReviewVerdict(graded);
+
+  const session = await storage.getSession(graded.sessionId);
+  if (!session) throw new Error("Session not found");
+
+  const candidates = await storage.getScenarioPersonas(session.scenarioId);
+  const reviewer = selectReviewer(graded.type, candidates, session.currentStep);
+  if (!reviewer) {
+    // No persona to review it; the grade alone decides
+    const updated = await storage.updateArtifact(graded.id, { status: verdict });
+    return { artifact: updated ?? graded, reviewer: null, verdict };
+  }
+
+  await storage.updateArtifact(graded.id, { status: "under_review" });
+
+  const channel = session.currentChannel;
+  const review = await writeReview(reviewer.persona, reviewer.roleInScenario, graded, verdict, session, channel);
+  await storage.createMessage({
+    sessionId: session.id,
+    channel,
+    senderType: "persona",
+    senderName: reviewer.persona.name,
+    personaId: reviewer.persona.id,
+    content: review.content,
+    metadata: {
+      kind: "artifact_review",
+      artifactId: graded.id,
+      artifactVersion: graded.version,
+      verdict,
+      score: graded.score,
+      provider: review.provider,
+    },
+    step: session.currentStep,
+  });
+
+  const updated = await storage.updateArtifact(graded.id, { status: verdict });
+  return { artifact: updated ?? graded, reviewer: reviewer.persona, verdict };
+}
@@ -0,0 +1,196 @@
+/**
+ * Assessment Job Queue
+ *
+ * Requesting an assessment creates it as `pending` and queues a job in the
+ * `assessment_jobs` table. A worker in the server process claims due jobs
+ * and runs the scoring pipeline (artifact grading, then the session run's
+ * `custom.assessment` step), reporting progress on the job as it goes, so
+ * the assessment moves pending → in_progress → completed. A failed attempt
+ * is retried with exponential backoff until `maxAttempts`, after which the
+ * job and the assessment are marked failed; requesting the assessment again
+ * queues a fresh job.
+ *
+ * Environment:
+ *   - ASSESSMENT_WORKER_POLL_MS  How often the worker checks for due jobs (default 1000)
+ */
+
+import type { Assessment, AssessmentJob } from "@shared/schema";
+import { storage } from "./storage";
+import { gradeAndSaveArtifact } from "./artifact-grader";
+import { ensureSessionRun, executeSessionAssessment } from "./workflow-engine";
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 5000;
+/** A running job whose lock is older than this is assumed abandoned by a crashed worker. */
+const STALE_LOCK_MS = 5 * 60 * 1000;
+
+export type AssessmentJobStatus = Pick<
+  AssessmentJob,
+  "id" | "status" | "attempts" | "maxAttempts" | "progress" | "progressMessage" | "lastError" | "runAfter"
+>;
+
+export interface AssessmentWithJob extends Assessment {
+  job: AssessmentJobStatus | null;
+}
+
+function toJobStatus(job: AssessmentJob): AssessmentJobStatus {
+  const { id, status, attempts, maxAttempts, progress, progressMessage, lastError, runAfter } = job;
+  return { id, status, attempts, maxAttempts, progress, progressMessage, lastError, runAfter };
+}
+
+async function withLatestJob(assessment: Assessment): Promise<AssessmentWithJob> {
+  const job = await storage.getLatestAssessmentJob(assessment.id);
+  return { ...assessment, job: job ? toJobStatus(job) : null };
+}
+
+export async function getAssessmentWithJob(sessionId: number): Promise<AssessmentWithJob | undefined> {
+  const assessment = await storage.getAssessment(sessionId);
+  return assessment ? withLatestJob(assessment) : undefined;
+}
+
+// ─── Enqueue ─────────────────────────────────────────────────────────────────
+
+/**
+ * Creates the session's assessment as `pending` and queues a scoring job.
+ * An assessment that is already queued, running or completed is returned
+ * as is; a failed one is reset and queued again.
+ */
+export async function enqueueAssessment(sessionId: number): Promise<AssessmentWithJob> {
+  const existing = await storage.getAssessment(sessionId);
+  if (existing && existing.status !== "failed") return withLatestJob(existing);
+
+  const assessment = existing
+    ? (await storage.updateAssessment(existing.id, { status: "pending" }))!
+    : await storage.createAssessment({ sessionId, status: "pending", hitlRequired: true });
+
+  const job = await storage.createAssessmentJob({
+    assessmentId: assessment.id,
+    sessionId,
+    maxAttempts: MAX_ATTEMPTS,
+    progressMessage: "Queued",
+  });
+
+  wakeWorker();
+  return { ...assessment, job: toJobStatus(job) };
+}
+
+// ─── Processing ──────────────────────────────────────────────────────────────
+
+async function reportProgress(job: AssessmentJob, progress: number, message: string): Promise<void> {
+  await storage.updateAssessmentJob(job.id, { progress, progressMessage: message });
+}
+
+async function processJob(job: AssessmentJob): Promise<void> {
+  await storage.updateAssessment(job.assessmentId, { status: "in_progress" });
+  await reportProgress(job, 10, "Preparing session transcript");
+
+  const session = await storage.getSession(job.sessionId);
+  if (!session) throw new Error("Session not found");
+
+  // Submitted artifacts that were never graded would otherwise score as ungraded
+  const ungraded = (await storage.getArtifacts(session.id)).filter(a => a.status !== "draft" && a.score === null);
+  if (ungraded.length > 0) {
+    await reportProgress(job, 25, `Grading ${ungraded.length} artifact(s)`);
+    for (const artifact of ungraded) {
+      await gradeAndSaveArtifact(artifact);
+    }
+  }
+
+  await reportProgress(job, 50, "Scoring rubric dimensions");
+  const runId = await ensureSessionRun(session);
+  const result = await executeSessionAssessment(runId, session.id);
+
+  await reportProgress(job, 90, "Saving assessment");
+  await storage.updateAssessment(job.assessmentId, {
+    status: "completed",
+    overallScore: result.overallScore,
+    recommendation: result.recommendation,
+    summary: result.summary,
+    scores: result.scores as any,
+    scoreRationales: result.scoreRationales,
+    scoreEvidence: result.scoreEvidence,
+    frictionPoints: result.frictionPoints as any,
+    strengths: result.strengths,
+    areasForImprovement: result.areasForImprovement,
+    activeConstraints: result.activeConstraints,
+    completedAt: new Date(),
+  });
+  await storage.updateSession(session.id, { status: "completed", completedAt: new Date() });
+
+  await storage.updateAssessmentJob(job.id, {
+    status: "succeeded",
+    progress: 100,
+    progressMessage: "Completed",
+    lastError: null,
+    lockedAt: null,
+    completedAt: new Date(),
+  });
+}
+
+async function failJob(job: AssessmentJob, error: Error): Promise<void> {
+  if (job.attempts < job.maxAttempts) {
+    const delayMs = RETRY_BASE_MS * 2 ** (job.attempts - 1);
+    await storage.updateAssessmentJob(job.id, {
+      status: "queued",
+      progress: 0,
+      progressMessage: `Attempt ${job.attempts} of ${job.maxAttempts} failed; retrying in ${Math.round(delayMs / 1000)}s`,
+      lastError: error.message,
+      lockedAt: null,
+      runAfter: new Date(Date.now() + delayMs),
+    });
+    await storage.updateAssessment(job.assessmentId, { status: "pending" });
+    return;
+  }
+
+  await storage.updateAssessmentJob(job.id, {
+    status: "failed",
+    progressMessage: `Failed after ${job.attempts} attempt(s)`,
+    lastError: error.message,
+    lockedAt: null,
+    completedAt: new Date(),
+  });
+  await storage.updateAssessment(job.assessmentId, { status: "failed" });
+}
+
+// ─── Worker ──────────────────────────────────────────────────────────────────
+
+let workerTimer: NodeJS.Timeout | null = null;
+let draining = false;
+
+/** Claims and processes due jobs until the queue is empty. */
+async function drainQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+  try {
+    await storage.requeueStaleAssessmentJobs(new Date(Date.now() - STALE_LOCK_MS));
+    let job: AssessmentJob | undefined;
+    while ((job = await storage.claimNextAssessmentJob())) {
+      try {
+        await processJob(job);
+      } catch (e: any) {
+        console.error(`Assessment job ${job.id} failed (attempt ${job.attempts}):`, e);
+        await failJob(job, e instanceof Error ? e : new Error(String(e)));
+      }
+    }
+  } catch (error) {
+    console.error("Assessment worker error:", error);
+  } finally {
+    draining = false;
+  }
+}
+
+function wakeWorker(): void {
+  if (workerTimer) void drainQueue();
+}
+
+export function startAssessmentWorker(): void {
+  if (workerTimer) return;
+  const pollMs = parseInt(process.env.ASSESSMENT_WORKER_POLL_MS || "1000", 10);
+  workerTimer = setInterval(() => void drainQueue(), isNaN(pollMs) ? 1000 : pollMs);
+  void drainQueue();
+}
+
+export function stopAssessmentWorker(): void {
+  if (workerTimer) clearInterval(workerTimer);
+  workerTimer = null;
+}
@@ -0,0 +1,107 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Workflow } from "bilko-flow";
+import type { SessionStepResult } from "./bilko-store";
+
+// Writes to the run store tables in a migrated Postgres database.
+const skip = process.env.DATABASE_URL ? false : "DATABASE_URL is not set";
+
+describe("DrizzleRunStore", { skip }, () => {
+  let store: typeof import("./bilko-store");
+  let closeDatabase: () => Promise<void>;
+  const runIds: string[] = [];
+
+  const workflow = {
+    id: "wf-run-store-test",
+    name: "Run store test",
+    version: 1,
+    steps: [],
+  } as unknown as Workflow;
+
+  before(async () => {
+    store = await import("./bilko-store");
+    const { pool } = await import("./db");
+    closeDatabase = () => pool.end();
+  });
+
+  after(async () => {
+    const { db } = await import("./db");
+    const { workflowDefinitions, workflowRuns, workflowStepResults } = await import("@shared/schema");
+    const { eq, inArray } = await import("drizzle-orm");
+    if (runIds.length > 0) {
+      await db.delete(workflowStepResults).where(inArray(workflowStepResults.runId, runIds));
+      await db.delete(workflowRuns).where(inArray(workflowRuns.id, runIds));
+    }
+    await db.delete(workflowDefinitions).where(eq(workflowDefinitions.id, workflow.id));
+    await closeDatabase();
+  });
+
+  function stepResult(stepId: string, outputs: Record<string, unknown>, executionId = stepId): SessionStepResult {
+    const startedAt = new Date("2026-01-05T10:00:00.000Z");
+    return {
+      stepId,
+      executionId,
+      status: "succeeded",
+      inputs: { channel: "email", stepNumber: 1 },
+      outputs,
+      attempts: 1,
+      startedAt: startedAt.toISOString(),
+      completedAt: new Date(startedAt.getTime() + 25).toISOString(),
+      durationMs: 25,
+      error: null,
+    };
+  }
+
+  it("reads a run and its step results back after a restart", async () => {
+    const original = new store.DrizzleRunStore();
+    await original.saveWorkflow(workflow);
+    const run = await original.createRun(workflow, { scenarioId: 1 });
+    runIds.push(run.id);
+    const transition = stepResult("step-1-transition", { channel: "email", transitionMessage: "**Step 1**: Email." });
+    await original.recordStepResult(run.id, transition, "running");
+
+    // A new instance holds no state of its own, as after a server restart
+    const restarted = new store.DrizzleRunStore();
+    const loaded = await restarted.getRun(run.id);
+    assert.ok(loaded, "run was not persisted");
+    assert.equal(loaded.workflowId, workflow.id);
+    assert.equal(loaded.status, "running");
+    assert.deepEqual(loaded.inputs, { scenarioId: 1 });
+    assert.deepEqual(loaded.stepResults["step-1-transition"], transition);
+  });
+
+  it("replaces a re-run step's result and completes the run", async () => {
+    const first = new store.DrizzleRunStore();
+    await first.saveWorkflow(workflow);
+    const run = await first.createRun(workflow, {});
+    runIds.push(run.id);
+    await first.recordStepResult(run.id, { ...stepResult("step-assessment", {}), status: "failed", outputs: null, error: "timed out" }, "running");
+    await first.recordStepResult(run.id, { ...stepResult("step-assessment", { overallScore: 72 }), attempts: 2 }, "succeeded");
+
+    const loaded = await new store.DrizzleRunStore().getRun(run.id);
+    assert.ok(loaded);
+    assert.equal(loaded.status, "succeeded");
+    assert.ok(loaded.completedAt);
+    assert.deepEqual(Object.keys(loaded.stepResults), ["step-assessment"]);
+    assert.equal(loaded.stepResults["step-assessment"].attempts, 2);
+    assert.deepEqual(loaded.stepResults["step-assessment"].outputs, { overallScore: 72 });
+  });
+
+  it("keeps one result per execution of a step", async () => {
+    const runStore = new store.DrizzleRunStore();
+    await runStore.saveWorkflow(workflow);
+    const run = await runStore.createRun(workflow, {});
+    runIds.push(run.id);
+    // Two meeting participants reply to one turn, then one replies to the next
+    const executions = ["step-1-persona@message-1/persona-3", "step-1-persona@message-1/persona-4", "step-1-persona@message-2/persona-3"];
+    for (let i = 0; i < executions.length; i++) {
+      await runStore.recordStepResult(run.id, stepResult("step-1-persona", { response: `Reply ${i + 1}` }, executions[i]), "running");
+    }
+
+    const loaded = await new store.DrizzleRunStore().getRun(run.id);
+    assert.ok(loaded);
+    assert.deepEqual(Object.keys(loaded.stepResults).sort(), executions);
+    assert.deepEqual(loaded.stepResults[executions[1]].outputs, { response: "Reply 2" });
+    assert.ok(executions.every(executionId => loaded.stepResults[executionId].attempts === 1));
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Workflow Run Store
+ *
+ * Persists the bilko-flow scenario workflows, the session runs executed
+ * against them and the result of every step — the audit trail for how a
+ * persona reply or an assessment was produced. Two adapters share one
+ * interface:
+ *
+ *   - postgres: Drizzle tables `workflow_definitions`, `workflow_runs` and
+ *     `workflow_step_results` in the app database, so run history survives
+ *     restarts
+ *   - memory: bilko-flow's default in-memory store from createAppContext()
+ *
+ * Environment:
+ *   - BILKO_STORE  "postgres" (default) or "memory"
+ */
+
+import { randomUUID } from "crypto";
+import type { AppContext, Run, Workflow } from "bilko-flow";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { workflowDefinitions, workflowRuns, workflowStepResults, type WorkflowRun, type WorkflowStepResult } from "@shared/schema";
+import { db } from "./db";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Result of one scenario step, as recorded on the session's run. */
+export interface SessionStepResult {
+  stepId: string;
+  /**
+   * One execution of the step. Transition and assessment steps execute once,
+   * so this is the step ID; persona steps execute once per user turn and
+   * replying persona, and add both to it.
+   */
+  executionId: string;
+  status: "succeeded" | "failed";
+  inputs: Record<string, unknown>;
+  outputs: Record<string, unknown> | null;
+  /** Times this execution ran; above 1 only when it was retried. */
+  attempts: number;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+  error: string | null;
+}
+
+export type RunStatus = "created" | "running" | "succeeded" | "failed";
+
+export interface StoredRun {
+  id: string;
+  workflowId: string;
+  sessionId: number | null;
+  status: RunStatus;
+  inputs: Record<string, unknown>;
+  /** Keyed by execution ID. */
+  stepResults: Record<string, SessionStepResult>;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface RunRetentionPolicy {
+  maxAgeMs: number;
+  maxCount: number;
+}
+
+export interface WorkflowRunStore {
+  readonly name: string;
+  /** Stores the workflow, replacing an earlier definition with the same ID. */
+  saveWorkflow(workflow: Workflow): Promise<void>;
+  createRun(workflow: Workflow, inputs: Record<string, unknown>): Promise<StoredRun>;
+  getRun(runId: string): Promise<StoredRun | null>;
+  /** Runs created for a session, newest first. */
+  listRunsForSession(sessionId: number): Promise<StoredRun[]>;
+  /** Saves a step result (replacing any earlier one for the execution) and sets the run's status. */
+  recordStepResult(runId: string, result: SessionStepResult, status: RunStatus): Promise<void>;
+  /** Deletes completed runs that fall outside the policy; returns how many were deleted. */
+  pruneCompletedRuns(policy: RunRetentionPolicy, now?: Date): Promise<number>;
+}
+
+/** Completed runs that fall outside the policy, oldest first. */
+export function selectExpiredRuns(
+  completed: Array<{ runId: string; completedAt: number }>,
+  policy: RunRetentionPolicy,
+  now: number,
+): string[] {
+  const byAge = [...completed].sort((a, b) => a.completedAt - b.completedAt);
+  const overCount = policy.maxCount > 0 ? Math.max(byAge.length - policy.maxCount, 0) : 0;
+  return byAge
+    .filter((run, index) => index < overCount || (policy.maxAgeMs > 0 && now - run.completedAt > policy.maxAgeMs))
+    .map(run => run.runId);
+}
+
+function getSessionId(inputs: Record<string, unknown>): number | null {
+  return typeof inputs.sessionId === "number" ? inputs.sessionId : null;
+}
+
+// ─── In-memory adapter (bilko-flow default store) ───────────────────────────
+
+export class MemoryRunStore implements WorkflowRunStore {
+  readonly name = "memory";
+  private readonly savedWorkflowIds = new Set<string>();
+  private completedRuns: Array<{ runId: string; completedAt: number }> = [];
+  private readonly sessionRunIds = new Map<number, string[]>();
+
+  constructor(
+    private readonly ctx: AppContext,
+    private readonly scope: { accountId: string; projectId: string; environmentId: string },
+  ) {}
+
+  async saveWorkflow(workflow: Workflow): Promise<void> {
+    if (this.savedWorkflowIds.has(workflow.id)) return;
+    await this.ctx.store.workflows.create(workflow);
+    this.savedWorkflowIds.add(workflow.id);
+  }
+
+  async createRun(workflow: Workflow, inputs: Record<string, unknown>): Promise<StoredRun> {
+    const run = await this.ctx.executor.createRun({ workflowId: workflow.id, ...this.scope, inputs });
+    const sessionId = getSessionId(inputs);
+    if (sessionId !== null) {
+      this.sessionRunIds.set(sessionId, [run.id, ...(this.sessionRunIds.get(sessionId) ?? [])]);
+    }
+    return this.toStoredRun(run);
+  }
+
+  async getRun(runId: string): Promise<StoredRun | null> {
+    const run = await this.ctx.store.runs.getById(runId, this.scope);
+    return run ? this.toStoredRun(run) : null;
+  }
+
+  async listRunsForSession(sessionId: number): Promise<StoredRun[]> {
+    const runs = await Promise.all((this.sessionRunIds.get(sessionId) ?? []).map(runId => this.getRun(runId)));
+    return runs.filter((run): run is StoredRun => run !== null);
+  }
+
+  async recordStepResult(runId: string, result: SessionStepResult, status: RunStatus): Promise<void> {
+    const run = await this.ctx.store.runs.getById(runId, this.scope);
+    if (!run) throw new Error(`Workflow run ${runId} not found`);
+    const now = new Date().toISOString();
+    await this.ctx.store.runs.update(runId, this.scope, {
+      status: status as any,
+      stepResults: { ...run.stepResults, [result.executionId]: result } as any,
+      updatedAt: now,
+      ...(status === "succeeded" ? { completedAt: now } : {}),
+    });
+    if (status === "succeeded") {
+      this.completedRuns = this.completedRuns
+        .filter(completed => completed.runId !== runId)
+        .concat({ runId, completedAt: Date.parse(now) });
+    }
+  }
+
+  async pruneCompletedRuns(policy: RunRetentionPolicy, now = new Date()): Promise<number> {
+    const expired = new Set(selectExpiredRuns(this.completedRuns, policy, now.getTime()));
+    this.completedRuns = this.completedRuns.filter(completed => !expired.has(completed.runId));
+    for (const runId of Array.from(expired)) {
+      await this.ctx.store.runs.delete(runId, this.scope);
+    }
+    return expired.size;
+  }
+
+  private toStoredRun(run: Run): StoredRun {
+    const inputs = (run.inputs ?? {}) as Record<string, unknown>;
+    return {
+      id: run.id,
+      workflowId: run.workflowId,
+      sessionId: getSessionId(inputs),
+      status: run.status as RunStatus,
+      inputs,
+      stepResults: (run.stepResults ?? {}) as unknown as Record<string, SessionStepResult>,
+      createdAt: run.createdAt,
+      updatedAt: run.updatedAt ?? run.createdAt,
+      completedAt: run.completedAt ?? null,
+    };
+  }
+}
+
+// ─── Postgres adapter (Drizzle) ──────────────────────────────────────────────
+
+export class DrizzleRunStore implements WorkflowRunStore {
+  readonly name = "postgres";
+
+  // ─── Workflows ───
+
+  async saveWorkflow(workflow: Workflow): Promise<void> {
+    const values = {
+      id: workflow.id,
+      name: workflow.name,
+      version: workflow.version,
+      definition: workflow as unknown as Record<string, unknown>,
+    };
+    await db.insert(workflowDefinitions).values(values).onConflictDoUpdate({
+      target: workflowDefinitions.id,
+      set: { ...values, updatedAt: new Date() },
+    });
+  }
+
+  // ─── Runs ───
+
+  async createRun(workflow: Workflow, inputs: Record<string, unknown>): Promise<StoredRun> {
+    const [run] = await db.insert(workflowRuns).values({
+      id: `run-${randomUUID()}`,
+      workflowId: workflow.id,
+      sessionId: getSessionId(inputs),
+      inputs,
+    }).returning();
+    return this.toStoredRun(run, []);
+  }
+
+  async getRun(runId: string): Promise<StoredRun | null> {
+    const run = await db.query.workflowRuns.findFirst({
+      where: eq(workflowRuns.id, runId),
+      with: { stepResults: true },
+    });
+    return run ? this.toStoredRun(run, run.stepResults) : null;
+  }
+
+  async listRunsForSession(sessionId: number): Promise<StoredRun[]> {
+    const runs = await db.query.workflowRuns.findMany({
+      where: eq(workflowRuns.sessionId, sessionId),
+      with: { stepResults: true },
+      orderBy: [desc(workflowRuns.createdAt)],
+    });
+    return runs.map(run => this.toStoredRun(run, run.stepResults));
+  }
+
+  async recordStepResult(runId: string, result: SessionStepResult, status: RunStatus): Promise<void> {
+    const values = {
+      runId,
+      stepId: result.stepId,
+      executionId: result.executionId,
+      status: result.status,
+      inputs: result.inputs,
+      outputs: result.outputs,
+      attempts: result.attempts,
+      error: result.error,
+      startedAt: new Date(result.startedAt),
+      completedAt: new Date(result.completedAt),
+      durationMs: result.durationMs,
+    };
+    await db.insert(workflowStepResults).values(values).onConflictDoUpdate({
+      target: [workflowStepResults.runId, workflowStepResults.executionId],
+      set: values,
+    });
+
+    const now = new Date();
+    await db.update(workflowRuns)
+      .set({ status, updatedAt: now, ...(status === "succeeded" ? { completedAt: now } : {}) })
+      .where(eq(workflowRuns.id, runId));
+  }
+
+  // ─── Retention ───
+
+  async pruneCompletedRuns(policy: RunRetentionPolicy, now = new Date()): Promise<number> {
+    const completed = await db.select({ id: workflowRuns.id, completedAt: workflowRuns.completedAt })
+      .from(workflowRuns)
+      .where(eq(workflowRuns.status, "succeeded"))
+      .orderBy(desc(workflowRuns.completedAt));
+    const expired = selectExpiredRuns(
+      completed.map(run => ({ runId: run.id, completedAt: (run.completedAt ?? now).getTime() })),
+      policy,
+      now.getTime(),
+    );
+    if (expired.length === 0) return 0;
+
+    await db.delete(workflowStepResults).where(inArray(workflowStepResults.runId, expired));
+    await db.delete(workflowRuns).where(and(inArray(workflowRuns.id, expired), eq(workflowRuns.status, "succeeded")));
+    return expired.length;
+  }
+
+  private toStoredRun(run: WorkflowRun, steps: WorkflowStepResult[]): StoredRun {
+    const stepResults: Record<string, SessionStepResult> = {};
+    for (const step of steps) {
+      stepResults[step.executionId] = {
+        stepId: step.stepId,
+        executionId: step.executionId,
+        status: step.status,
+        inputs: step.inputs,
+        outputs: step.outputs,
+        attempts: step.attempts,
+        startedAt: step.startedAt.toISOString(),
+        completedAt: step.completedAt.toISOString(),
+        durationMs: step.durationMs,
+        error: step.error,
+      };
+    }
+    return {
+      id: run.id,
+      workflowId: run.workflowId,
+      sessionId: run.sessionId,
+      status: run.status,
+      inputs: run.inputs,
+      stepResults,
+      createdAt: run.createdAt.toISOString(),
+      updatedAt: run.updatedAt.toISOString(),
+      completedAt: run.completedAt?.toISOString() ?? null,
+    };
+  }
+}
+
+// ─── Store selection ─────────────────────────────────────────────────────────
+
+export function createWorkflowRunStore(
+  env: NodeJS.ProcessEnv,
+  ctx: AppContext,
+  scope: { accountId: string; projectId: string; environmentId: string },
+): WorkflowRunStore {
+  const kind = (env.BILKO_STORE || "postgres").toLowerCase();
+  if (kind === "memory") return new MemoryRunStore(ctx, scope);
+  return new DrizzleRunStore();
+}
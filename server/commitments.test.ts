@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findCommitments, type CommitmentContext } from "./commitments";
+import { extractMemories } from "./session-memory";
+
+const ic: CommitmentContext = { seniority: "IC", constraints: [] };
+
+function verdicts(text: string, context = ic) {
+  return findCommitments(text, context).map(c => [c.kind, c.verdict, c.value]);
+}
+
+describe("findCommitments: pricing", () => {
+  it("classifies a discount the rep offers against their authority", () => {
+    assert.deepEqual(verdicts("We can offer 10% off the first year."), [["pricing_concession", "appropriate", "10%"]]);
+    assert.deepEqual(verdicts("I'll get you a 15% discount."), [["pricing_concession", "needs_approval", "15%"]]);
+    assert.deepEqual(verdicts("We will give you a 35% discount."), [["pricing_concession", "overreach", "35%"]]);
+    assert.deepEqual(verdicts("We will give you a 35% discount.", { seniority: "Director", constraints: [] }), [["pricing_concession", "needs_approval", "35%"]]);
+  });
+
+  it("ignores discounts the rep only mentions", () => {
+    assert.deepEqual(verdicts("Your last vendor gave you a 35% discount."), []);
+    assert.deepEqual(verdicts("Competitors are offering 40% off."), []);
+    assert.deepEqual(verdicts("Other vendors waive the setup fee."), []);
+  });
+});
+
+describe("findCommitments: refusals", () => {
+  it("skips sentences where the rep declines", () => {
+    assert.deepEqual(verdicts("We can't offer a 30% discount."), []);
+    assert.deepEqual(verdicts("We cannot guarantee a HIPAA audit outcome."), []);
+    assert.deepEqual(verdicts("I'm not able to guarantee a 30% discount."), []);
+  });
+
+  it("records commitments alongside an unrelated negation", () => {
+    assert.deepEqual(verdicts("Don't worry, we'll give you 30% off."), [["pricing_concession", "overreach", "30%"]]);
+    assert.deepEqual(verdicts("If you do not need onboarding, we will give you a 10% discount."), [["pricing_concession", "appropriate", "10%"]]);
+  });
+});
+
+describe("findCommitments and session memory", () => {
+  it("agree on what is a promised date", () => {
+    for (const text of ["We could get you live by Q3.", "We'll have the SOC 2 report over in 5 days.", "I can send the proposal by end of year."]) {
+      const memories = extractMemories({ id: 1, sessionId: 1, content: text, channel: "email", step: 1 });
+      const delivery = findCommitments(text, ic).filter(c => c.kind === "delivery_date");
+      assert.deepEqual(memories.map(m => [m.kind, m.value]), [["promise", delivery[0]?.value?.toLowerCase()]], text);
+    }
+  });
+});
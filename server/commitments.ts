@@ -0,0 +1,255 @@
+/**
+ * Commitment Tracker
+ *
+ * Finds what the rep has committed to in their messages and in the
+ * artifacts they send: pricing concessions (discounts, free months, waived
+ * fees), delivery dates, scope promises (custom builds, roadmap items,
+ * open-ended scope) and compliance guarantees. Each commitment is classified
+ * against the rep's seniority and the session's active constraints:
+ *
+ *   - appropriate: within the rep's authority and the scenario's rules
+ *   - needs_approval: something the rep may offer, but only with sign-off
+ *     they do not appear to have (deal desk, delivery, legal)
+ *   - overreach: a promise the rep cannot keep or should never make, such
+ *     as an IC offering a 30% discount or a guaranteed audit outcome under
+ *     compliance sensitivity
+ *
+ * The ledger is shown in the session view, scores an artifact's
+ * `commitmentAppropriateness`, and costs `decisionQuality` in the
+ * assessment. Everything here is pure.
+ */
+
+import type { Artifact, Message } from "@shared/schema";
+import { analyzeConstraintSignals } from "./constraints";
+import { DATE_PATTERN, PROMISE_PATTERN, splitSentences } from "./promise-language";
+
+export type CommitmentKind = "pricing_concession" | "delivery_date" | "scope" | "compliance_guarantee";
+export type CommitmentVerdict = "appropriate" | "needs_approval" | "overreach";
+export type SeniorityTier = "ic" | "manager" | "director";
+
+export interface CommitmentContext {
+  /** The rep's seniority (`sessions.userSeniority`, e.g. "IC", "Manager", "Director"). */
+  seniority: string;
+  /** Active scenario + session constraints. */
+  constraints: string[];
+}
+
+export interface Commitment {
+  kind: CommitmentKind;
+  verdict: CommitmentVerdict;
+  /** The sentence the commitment was made in. */
+  content: string;
+  /** What was committed: "30%", "within 2 weeks", "custom integration". */
+  value: string | null;
+  reason: string;
+  /** Set when the commitment was made in a message. */
+  messageId?: number;
+  /** Set when the commitment was made in an artifact. */
+  artifactId?: number;
+  channel: string | null;
+  step: number | null;
+}
+
+export interface CommitmentLedger {
+  seniority: string;
+  /** The largest discount the rep can offer without approval. */
+  discountAuthority: number;
+  commitments: Commitment[];
+  counts: Record<CommitmentVerdict, number>;
+}
+
+/** Largest discount (percent) each tier may offer on its own authority. */
+const DISCOUNT_AUTHORITY: Record<SeniorityTier, number> = {
+  ic: 10,
+  manager: 20,
+  director: 30,
+};
+
+/** Discounts up to this many points past the rep's authority need approval; beyond it they are overreach. */
+const DISCOUNT_APPROVAL_MARGIN = 10;
+
+/** A go-live promised within this many days cannot clear a strict procurement process. */
+const PROCUREMENT_MIN_DAYS = 30;
+
+/** A refusal negates the rep's own commitment verb ("we can't", "I won't offer"), not just any "don't". */
+const REFUSAL_PATTERN = /\b(i|we)(\s+(can't|can’t|cannot|could not|couldn't|couldn’t|won't|won’t|will not|do not|don't|don’t|never)|('m|’m| am|'re|’re| are) (not able|unable|not in a position) to)\b/i;
+
+const DISCOUNT_PATTERN = /\b(discount(s|ed)?|price (cut|reduction)|reduce (the |your )?price)\b|\d\s?(%|percent) off\b/i;
+const PERCENT_PATTERN = /(\d+(?:\.\d+)?)\s?(%|percent)/i;
+const CONCESSION_PATTERN = /\b((\d+|one|two|three|six) (free )?months? (free|at no (cost|charge))|free (months?|year|first month|pilot|implementation|onboarding|training|seats?)|waive[ds]? (the |your )?(\w+ )?fees?|at no (additional |extra )?(cost|charge)|free of charge|lock (in )?(the |your |this )?(current )?pric(e|ing)|price (lock|freeze|match)|(match|beat) any (price|quote|offer|competitor)|full refund)\b/i;
+const PRICE_OVERREACH_PATTERN = /\b((match|beat) any (price|quote|offer|competitor)|full refund)\b/i;
+
+const ROLLOUT_PATTERN = /\b(go[- ]live|live|launch(ed)?|deliver(ed)?|deploy(ed|ment)?|implement(ed|ation)?|roll(ed)? ?out|up and running|onboard(ed|ing)?|integrat(ed|ion)|ship(ped)?)\b/i;
+const PROCESS_CONDITION_PATTERN = /\b(security review|procurement|msa|legal review|redlines?|(once|after) (the )?(contract|signature|signing|review))\b/i;
+
+const OPEN_SCOPE_PATTERN = /\b(unlimited( \w+)?|whatever you need|any customi[sz]ation|anything you (want|need))\b/i;
+const ROADMAP_PATTERN = /\b(custom (feature|build|integration|development|report|dashboard|connector|module|workflow)s?|build (you )?(a |an )?(custom|bespoke|dedicated) \w+|bespoke \w+|(add|put) (it|that|this) (to|on) (the |our )?roadmap|on (the |our )?roadmap)\b/i;
+const SERVICE_PATTERN = /\b(dedicated (engineer|team|support|instance|csm|success manager)|white[- ]glove( \w+)?|24\/7 (support|access|coverage))\b/i;
+
+const COMPLIANCE_TOPIC_PATTERN = /\b(hipaa|gxp|gdpr|soc ?2|21 cfr part 11|baa|business associate agreement|compliance|compliant|audits?|security review|validat(ed|ion))\b/i;
+const COMPLIANCE_ACTION_PATTERN = /\b(share|provide|send|sign|complete|fill (out|in)|support|meet|comply|certify|validate)\b/i;
+const COMPLIANCE_GUARANTEE_PATTERN = /\b(guarantee[ds]?|will (pass|clear|meet|satisfy)|100\s?%|no (compliance |regulatory )?risk|risk[- ]free|fully compliant)\b/i;
+
+// ─── Seniority ───────────────────────────────────────────────────────────────
+
+export function getSeniorityTier(seniority: string): SeniorityTier {
+  if (/\b(director|vp|vice president|head|chief|svp|evp)\b/i.test(seniority)) return "director";
+  if (/\b(manager|lead|senior)\b/i.test(seniority)) return "manager";
+  return "ic";
+}
+
+export function getDiscountAuthority(seniority: string): number {
+  return DISCOUNT_AUTHORITY[getSeniorityTier(seniority)];
+}
+
+// ─── Detection ───────────────────────────────────────────────────────────────
+
+type Classified = Pick<Commitment, "kind" | "value" | "verdict" | "reason">;
+
+/** Days until a promised date, where the phrase allows it. */
+function getDateDays(date: string): number | null {
+  const lower = date.toLowerCase();
+  const span = lower.match(/(\d+) (hour|day|week|month)/);
+  if (span) {
+    const n = parseInt(span[1], 10);
+    return span[2] === "hour" ? 1 : span[2] === "day" ? n : span[2] === "week" ? n * 7 : n * 30;
+  }
+  if (/tomorrow|eod|end of (the )?day|monday|tuesday|wednesday|thursday|friday|week|eow/.test(lower)) return 7;
+  if (/month/.test(lower)) return 30;
+  return null;
+}
+
+function classifyPricing(sentence: string, context: CommitmentContext): Classified | null {
+  const discount = DISCOUNT_PATTERN.test(sentence);
+  const concession = sentence.match(CONCESSION_PATTERN)?.[0] ?? null;
+  // Only the rep's own offers count, not a competitor's discount or last year's deal
+  if ((!discount && !concession) || !PROMISE_PATTERN.test(sentence)) return null;
+
+  const tier = getSeniorityTier(context.seniority);
+  const percent = discount ? sentence.match(PERCENT_PATTERN) : null;
+  if (percent) {
+    const amount = parseFloat(percent[1]);
+    const authority = DISCOUNT_AUTHORITY[tier];
+    const value = `${amount}%`;
+    if (amount <= authority) {
+      return { kind: "pricing_concession", value, verdict: "appropriate", reason: `Within the ${context.seniority} discount authority of ${authority}%.` };
+    }
+    if (amount <= authority + DISCOUNT_APPROVAL_MARGIN) {
+      return { kind: "pricing_concession", value, verdict: "needs_approval", reason: `Above the ${context.seniority} discount authority of ${authority}%; needs deal desk approval.` };
+    }
+    return { kind: "pricing_concession", value, verdict: "overreach", reason: `Far beyond the ${context.seniority} discount authority of ${authority}%.` };
+  }
+  if (concession && PRICE_OVERREACH_PATTERN.test(concession)) {
+    return { kind: "pricing_concession", value: concession, verdict: "overreach", reason: "An open-ended price guarantee no one can sign off in advance." };
+  }
+  return tier === "ic"
+    ? { kind: "pricing_concession", value: concession, verdict: "needs_approval", reason: "Pricing concessions beyond list need deal desk approval at IC level." }
+    : { kind: "pricing_concession", value: concession, verdict: "appropriate", reason: `Within ${context.seniority} pricing authority.` };
+}
+
+function classifyDelivery(sentence: string, context: CommitmentContext): Classified | null {
+  const date = sentence.match(DATE_PATTERN)?.[0] ?? null;
+  if (!date || !PROMISE_PATTERN.test(sentence)) return null;
+
+  // Follow-ups (sending a proposal, scheduling a call) are the rep's own to promise
+  if (!ROLLOUT_PATTERN.test(sentence)) {
+    return { kind: "delivery_date", value: date, verdict: "appropriate", reason: "A follow-up within the rep's own control." };
+  }
+  const days = getDateDays(date);
+  if (context.constraints.includes("procurementStrictness") && !PROCESS_CONDITION_PATTERN.test(sentence) &&
+    days !== null && days <= PROCUREMENT_MIN_DAYS) {
+    return { kind: "delivery_date", value: date, verdict: "overreach", reason: "Promises delivery before the security review and MSA can complete under strict procurement." };
+  }
+  return getSeniorityTier(context.seniority) === "ic"
+    ? { kind: "delivery_date", value: date, verdict: "needs_approval", reason: "Go-live dates need the delivery team's sign-off at IC level." }
+    : { kind: "delivery_date", value: date, verdict: "appropriate", reason: "A delivery date within the rep's authority." };
+}
+
+function classifyScope(sentence: string, context: CommitmentContext): Classified | null {
+  const open = sentence.match(OPEN_SCOPE_PATTERN)?.[0] ?? null;
+  if (open) {
+    return { kind: "scope", value: open, verdict: "overreach", reason: "Open-ended scope that no delivery team can honour." };
+  }
+  if (!PROMISE_PATTERN.test(sentence)) return null;
+
+  const tier = getSeniorityTier(context.seniority);
+  const roadmap = sentence.match(ROADMAP_PATTERN)?.[0] ?? null;
+  if (roadmap) {
+    return tier === "ic"
+      ? { kind: "scope", value: roadmap, verdict: "overreach", reason: "Custom builds and roadmap items are product decisions, above an IC's authority." }
+      : { kind: "scope", value: roadmap, verdict: "needs_approval", reason: "Custom builds and roadmap items need product sign-off." };
+  }
+  const service = sentence.match(SERVICE_PATTERN)?.[0] ?? null;
+  if (service) {
+    return tier === "ic"
+      ? { kind: "scope", value: service, verdict: "needs_approval", reason: "Dedicated resourcing needs the services team's sign-off at IC level." }
+      : { kind: "scope", value: service, verdict: "appropriate", reason: `Within ${context.seniority} resourcing authority.` };
+  }
+  return null;
+}
+
+function classifyCompliance(sentence: string, context: CommitmentContext): Classified | null {
+  const signals = analyzeConstraintSignals(sentence);
+  const guarantee = signals.looseClaim ?? sentence.match(COMPLIANCE_GUARANTEE_PATTERN)?.[0] ?? null;
+  if (!COMPLIANCE_TOPIC_PATTERN.test(sentence) && !signals.looseClaim) return null;
+  // Without a guarantee, only an undertaking (sharing a report, signing a BAA) counts
+  if (!guarantee && !(PROMISE_PATTERN.test(sentence) && COMPLIANCE_ACTION_PATTERN.test(sentence))) return null;
+
+  const value = guarantee ?? sentence.match(COMPLIANCE_TOPIC_PATTERN)?.[0] ?? null;
+  if (guarantee) {
+    const sensitive = context.constraints.includes("complianceSensitivity") || context.constraints.includes("regulatoryExposure");
+    return sensitive
+      ? { kind: "compliance_guarantee", value, verdict: "overreach", reason: "Guarantees a compliance outcome the rep cannot control under compliance sensitivity." }
+      : { kind: "compliance_guarantee", value, verdict: "needs_approval", reason: "Compliance guarantees need legal and security sign-off." };
+  }
+  return signals.substantiatesCompliance
+    ? { kind: "compliance_guarantee", value, verdict: "appropriate", reason: "Commits to named documentation rather than an outcome." }
+    : { kind: "compliance_guarantee", value, verdict: "needs_approval", reason: "Compliance commitments should name the documentation behind them." };
+}
+
+/**
+ * The commitments in `text`, classified for the rep's seniority and the
+ * active constraints. Questions and refusals ("we can't discount") are not
+ * commitments.
+ */
+export function findCommitments(text: string, context: CommitmentContext): Array<Classified & { content: string }> {
+  const found: Array<Classified & { content: string }> = [];
+  for (const sentence of splitSentences(text)) {
+    if (sentence.endsWith("?") || REFUSAL_PATTERN.test(sentence)) continue;
+    for (const classify of [classifyPricing, classifyDelivery, classifyScope, classifyCompliance]) {
+      const classified = classify(sentence, context);
+      if (classified) found.push({ ...classified, content: sentence });
+    }
+  }
+  return found;
+}
+
+// ─── Ledger ──────────────────────────────────────────────────────────────────
+
+/**
+ * Every commitment the rep made in the session: their messages, then the
+ * artifacts they sent (drafts are not counted until submitted).
+ */
+export function buildCommitmentLedger(
+  messages: Pick<Message, "id" | "senderType" | "content" | "channel" | "step">[],
+  artifacts: Pick<Artifact, "id" | "content" | "status">[],
+  context: CommitmentContext,
+): CommitmentLedger {
+  const commitments: Commitment[] = [];
+  for (const message of messages) {
+    if (message.senderType !== "user") continue;
+    for (const c of findCommitments(message.content, context)) {
+      commitments.push({ ...c, messageId: message.id, channel: message.channel, step: message.step });
+    }
+  }
+  for (const artifact of artifacts) {
+    if (artifact.status === "draft") continue;
+    for (const c of findCommitments(artifact.content, context)) {
+      commitments.push({ ...c, artifactId: artifact.id, channel: null, step: null });
+    }
+  }
+
+  const counts: Record<CommitmentVerdict, number> = { appropriate: 0, needs_approval: 0, overreach: 0 };
+  for (const c of commitments) counts[c.verdict]++;
+  return { seniority: context.seniority, discountAuthority: getDiscountAuthority(context.seniority), commitments, counts };
+}
@@ -0,0 +1,231 @@
+/**
+ * Constraint Behaviors
+ *
+ * A session's active constraints are the scenario's own `constraints` plus
+ * the `sessions.config` toggles (copied from `userConfigs.constraintToggles`
+ * when the session starts). Each toggle changes the simulation:
+ *
+ *   - procurementStrictness: personas demand a security review, their MSA
+ *     and competitive bids, and lose trust when the rep tries to skip them
+ *   - complianceSensitivity: personas raise HIPAA / GxP challenges and lose
+ *     trust over loose compliance claims, which the assessment penalises
+ *   - tickingClockPressure: personas set deadlines and lose patience faster
+ *     with every turn unless the rep commits to dates
+ *
+ * Everything here is pure so the rubric and the persona state machine can
+ * share it.
+ */
+
+import type { Scenario, Session } from "@shared/schema";
+import type { PersonaStateValues } from "./persona-state";
+import { pickRandom, type Rng } from "./rng";
+
+export type SessionConstraint = keyof Session["config"];
+
+export const CONSTRAINT_LABELS: Record<string, string> = {
+  procurementStrictness: "Strict procurement process (security review, MSA, competitive bids)",
+  complianceSensitivity: "High compliance sensitivity (HIPAA / GxP, claims must be substantiated)",
+  tickingClockPressure: "Ticking-clock deadline pressure",
+  reputationalRisk: "Reputational risk — avoid anything that reads as alarmist",
+  regulatoryExposure: "Regulatory exposure across jurisdictions",
+};
+
+/** Short names used in assessment summaries. */
+export const CONSTRAINT_NAMES: Record<string, string> = {
+  procurementStrictness: "Procurement strictness",
+  complianceSensitivity: "Compliance sensitivity",
+  tickingClockPressure: "Ticking-clock pressure",
+  reputationalRisk: "Reputational risk",
+  regulatoryExposure: "Regulatory exposure",
+};
+
+/** How an LLM-backed persona should behave under each toggle. */
+const CONSTRAINT_DIRECTIVES: Partial<Record<SessionConstraint, string>> = {
+  procurementStrictness: "Insist the deal follows procurement: a security review (SOC 2 report, security questionnaire), your MSA with redlines, and competitive bids. Do not agree to anything that skips these steps.",
+  complianceSensitivity: "Challenge the rep on HIPAA / GxP obligations (BAA, validation documentation, audit trails). Treat vague or absolute compliance claims as a red flag and ask what documentation backs them.",
+  tickingClockPressure: "You are under a hard deadline. Mention it, ask for dates, and grow visibly more impatient with every turn that does not move things forward.",
+};
+
+/**
+ * Returns the constraint keys that are switched on for this session.
+ * Session config toggles add to (never remove) the scenario's own constraints.
+ */
+export function getActiveConstraints(
+  scenario: Pick<Scenario, "constraints">,
+  session?: Pick<Session, "config"> | null,
+): string[] {
+  const merged: Record<string, boolean> = { ...scenario.constraints };
+  if (session?.config) {
+    for (const [key, enabled] of Object.entries(session.config)) {
+      if (enabled) merged[key] = true;
+    }
+  }
+  return Object.keys(merged).filter(key => merged[key]);
+}
+
+export function getConstraintDirective(constraint: string): string | undefined {
+  return CONSTRAINT_DIRECTIVES[constraint as SessionConstraint];
+}
+
+// ─── Turn analysis ───────────────────────────────────────────────────────────
+
+const LOOSE_CLAIM_PATTERN = /\b(fully compliant|(hipaa|gxp|fda|gdpr)[- ]compliant|compliant out of the box|meets? (all|every) (regulations?|requirements?)|no (compliance|regulatory) (issues?|risks?|concerns?)|guarantee[ds]? compliance|(completely|totally|100\s?%) (secure|compliant)|bank[- ]grade|military[- ]grade|industry[- ]leading security)\b/i;
+const SUBSTANTIATION_PATTERN = /\b(baa|business associate agreement|soc ?2|hitrust|iso ?27001|21 cfr part 11|computer system validation|validation (package|protocol|documentation)|audit (report|trail)s?|iq\/oq\/pq|pen(etration)? test)\b/i;
+const PROCUREMENT_PATTERN = /\b(security review|security questionnaire|caiq|msa|master services agreement|redlines?|procurement|rfp|rfi|competitive (bids?|process)|vendor (onboarding|assessment|risk)|legal review)\b/i;
+const BYPASS_PATTERN = /\b(skip (the )?(procurement|security review|legal( review)?)|bypass|go around (procurement|legal)|side letter|sign before (the )?review)\b/i;
+const DATED_COMMITMENT_PATTERN = /\b(by (monday|tuesday|wednesday|thursday|friday|tomorrow|end of (day|week|month|quarter)|eod|eow)|within \d+ (hours?|days?|weeks?)|on (monday|tuesday|wednesday|thursday|friday)|this (week|friday))\b/i;
+
+export interface ConstraintSignals {
+  /** The first loose compliance claim in the turn, if any. */
+  looseClaim: string | null;
+  substantiatesCompliance: boolean;
+  engagesProcurement: boolean;
+  bypassesProcurement: boolean;
+  datedCommitment: boolean;
+}
+
+export function analyzeConstraintSignals(message: string): ConstraintSignals {
+  const substantiatesCompliance = SUBSTANTIATION_PATTERN.test(message);
+  const looseClaim = message.match(LOOSE_CLAIM_PATTERN)?.[0] ?? null;
+  return {
+    // A claim backed by named documentation in the same turn is not loose
+    looseClaim: substantiatesCompliance ? null : looseClaim,
+    substantiatesCompliance,
+    engagesProcurement: PROCUREMENT_PATTERN.test(message),
+    bypassesProcurement: BYPASS_PATTERN.test(message),
+    datedCommitment: DATED_COMMITMENT_PATTERN.test(message),
+  };
+}
+
+// ─── Persona state ───────────────────────────────────────────────────────────
+
+export interface ConstraintAdjustment {
+  key: keyof PersonaStateValues;
+  amount: number;
+  reason: string;
+}
+
+/**
+ * How the active constraints move a persona's state on one user turn.
+ * `turnCount` is the number of turns the rep has already taken with the persona.
+ */
+export function getConstraintAdjustments(
+  constraints: string[],
+  message: string,
+  turnCount: number,
+): ConstraintAdjustment[] {
+  const active = new Set(constraints);
+  const signals = analyzeConstraintSignals(message);
+  const adjustments: ConstraintAdjustment[] = [];
+
+  if (active.has("complianceSensitivity")) {
+    if (signals.looseClaim) {
+      adjustments.push({ key: "trust", amount: -10, reason: "Made a compliance claim without substantiation" });
+    } else if (signals.substantiatesCompliance) {
+      adjustments.push({ key: "trust", amount: 5, reason: "Substantiated compliance with named documentation" });
+    }
+  }
+  if (active.has("procurementStrictness")) {
+    if (signals.bypassesProcurement) {
+      adjustments.push({ key: "trust", amount: -8, reason: "Tried to work around the procurement process" });
+      adjustments.push({ key: "patience", amount: -5, reason: "Tried to work around the procurement process" });
+    } else if (signals.engagesProcurement) {
+      adjustments.push({ key: "trust", amount: 4, reason: "Engaged with the procurement process" });
+    }
+  }
+  if (active.has("tickingClockPressure")) {
+    adjustments.push({
+      key: "patience",
+      amount: -(2 + Math.min(turnCount, 6)),
+      reason: "Deadline pressure: patience wears thinner with every turn",
+    });
+    if (signals.datedCommitment) {
+      adjustments.push({ key: "patience", amount: 4, reason: "Committed to a dated next step" });
+    }
+  }
+
+  return adjustments;
+}
+
+// ─── Persona replies (pattern table) ─────────────────────────────────────────
+
+const PROCUREMENT_DEMANDS = [
+  "Before anything else, this has to clear our security review. Send your SOC 2 report and a completed security questionnaire.",
+  "Procurement will insist on our MSA, not yours, and they will want redlines back within the review cycle.",
+  "To be upfront: anything at this size goes to competitive bid. I will need at least two other quotes on file.",
+];
+
+const COMPLIANCE_CHALLENGES = [
+  "How does this hold up under HIPAA? I need a signed BAA before any patient data goes near it.",
+  "If this touches a GxP process, where is your validation documentation? Our QA team will ask for it on day one.",
+  "Our compliance team reads every claim literally. What can you actually document, and what is marketing?",
+];
+
+/** Ordered by escalation: later persona replies use later lines. */
+const DEADLINE_LINES = [
+  "For what it's worth, we need a decision before the end of the quarter.",
+  "I'll be direct: the board reviews this in two weeks, so I need something concrete soon.",
+  "We're running out of runway. If I don't have what I need by Friday, this stalls until next year.",
+  "I can't keep circling on this. Give me a dated plan today or we're done for this cycle.",
+];
+
+const REPLY_CONSTRAINTS: SessionConstraint[] = ["complianceSensitivity", "procurementStrictness", "tickingClockPressure"];
+
+/**
+ * The line a pattern-table persona adds to its reply for the active
+ * constraints, or null when none apply. A loose compliance claim is always
+ * challenged; otherwise the constraints take turns, procurement demands
+ * rotate so each is raised, and deadline lines escalate.
+ */
+export function getConstraintLine(
+  constraints: string[],
+  userMessage: string,
+  rng: Rng,
+  personaTurn: number,
+): string | null {
+  const active = REPLY_CONSTRAINTS.filter(c => constraints.includes(c));
+  if (active.length === 0) return null;
+
+  const { looseClaim } = analyzeConstraintSignals(userMessage);
+  if (looseClaim && active.includes("complianceSensitivity")) {
+    return `You said "${looseClaim}". Compliant with what, exactly, and who audited it? I can't repeat that internally without documentation.`;
+  }
+
+  const round = Math.floor(personaTurn / active.length);
+  switch (active[personaTurn % active.length]) {
+    case "procurementStrictness":
+      return PROCUREMENT_DEMANDS[round % PROCUREMENT_DEMANDS.length];
+    case "complianceSensitivity":
+      return pickRandom(rng, COMPLIANCE_CHALLENGES);
+    case "tickingClockPressure":
+      return DEADLINE_LINES[Math.min(round, DEADLINE_LINES.length - 1)];
+    default:
+      return null;
+  }
+}
+
+// ─── Assessment ──────────────────────────────────────────────────────────────
+
+/** User message IDs behind each constraint outcome the assessment reports on. */
+export interface ConstraintHandling {
+  looseClaims: number[];
+  procurementEngaged: number[];
+  procurementBypassed: number[];
+  datedCommitments: number[];
+}
+
+export function analyzeConstraintHandling(userMessages: Array<{ id: number; content: string }>): ConstraintHandling {
+  const handling: ConstraintHandling = { looseClaims: [], procurementEngaged: [], procurementBypassed: [], datedCommitments: [] };
+  for (const message of userMessages) {
+    const signals = analyzeConstraintSignals(message.content);
+    if (signals.looseClaim) handling.looseClaims.push(message.id);
+    if (signals.engagesProcurement) handling.procurementEngaged.push(message.id);
+    if (signals.bypassesProcurement) handling.procurementBypassed.push(message.id);
+    if (signals.datedCommitment) handling.datedCommitments.push(message.id);
+  }
+  return handling;
+}
+
+export function formatConstraintList(constraints: string[]): string {
+  return constraints.map(c => CONSTRAINT_NAMES[c] ?? c).join(", ");
+}
@@ -0,0 +1,56 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { createLLMStubServer, pickReply } from "../script/llm-stub-server";
+import { OpenAICompatibleProvider, createLLMProviderFromEnv } from "./llm-provider";
+
+describe("OpenAICompatibleProvider against the local stub server", () => {
+  let server: Server;
+  let provider: OpenAICompatibleProvider;
+
+  before(async () => {
+    server = createLLMStubServer();
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    provider = new OpenAICompatibleProvider({ baseUrl: `http://127.0.0.1:${port}/v1/`, model: "stub-model", timeoutMs: 5000 });
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it("returns the stub's canned completion for the last user turn", async () => {
+    const result = await provider.complete({
+      messages: [
+        { role: "system", content: "You are a procurement lead." },
+        { role: "user", content: "[Rep via email]: Can we talk about pricing?" },
+      ],
+      seed: 42,
+    });
+    assert.equal(result.provider, "openai");
+    assert.equal(result.model, "stub-model");
+    assert.equal(result.content, pickReply("[Rep via email]: Can we talk about pricing?"));
+  });
+
+  it("streams the same completion chunk by chunk", async () => {
+    const deltas: string[] = [];
+    const messages = [{ role: "user" as const, content: "What would a pilot look like?" }];
+    const streamed = await provider.stream({ messages }, delta => deltas.push(delta));
+    const completed = await provider.complete({ messages });
+    assert.ok(deltas.length > 1);
+    assert.equal(deltas.join("").trim(), streamed.content);
+    assert.equal(streamed.content, completed.content);
+  });
+
+  it("rejects when the API is unreachable", async () => {
+    const unreachable = new OpenAICompatibleProvider({ baseUrl: "http://127.0.0.1:1/v1", model: "stub-model", timeoutMs: 5000 });
+    await assert.rejects(unreachable.complete({ messages: [{ role: "user", content: "Hello" }] }));
+  });
+});
+
+describe("createLLMProviderFromEnv", () => {
+  it("stays offline unless LLM_PROVIDER=openai", () => {
+    assert.equal(createLLMProviderFromEnv({}), null);
+    assert.equal(createLLMProviderFromEnv({ LLM_PROVIDER: "patterns" }), null);
+    assert.equal(createLLMProviderFromEnv({ LLM_PROVIDER: "OpenAI", LLM_BASE_URL: "http://localhost:5055/v1" })?.name, "openai");
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * LLM Provider Layer
+ *
+ * Defines the provider interface used by the `custom.persona-response` step
+ * handler, plus an OpenAI-compatible HTTP adapter configured from env vars.
+ * When no provider is configured (or a call fails) the handler falls back to
+ * the offline response pattern table in workflow-engine.ts.
+ *
+ * Environment:
+ *   - LLM_PROVIDER    "openai" to enable the HTTP adapter, "patterns" (default) to stay offline
+ *   - LLM_BASE_URL    Base URL of the OpenAI-compatible API (default https://api.openai.com/v1)
+ *   - LLM_API_KEY     Bearer token sent with each request (optional for local stubs)
+ *   - LLM_MODEL       Model name passed through to the API (default gpt-4o-mini)
+ *   - LLM_TIMEOUT_MS  Per-request timeout in milliseconds (default 8000)
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Passed through so providers that support it can sample reproducibly. */
+  seed?: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  provider: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  /** Like complete(), calling `onDelta` with each chunk of content as it is generated. */
+  stream?(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResult>;
+}
+
+// ─── OpenAI-compatible adapter ───────────────────────────────────────────────
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+
+  constructor(private readonly config: OpenAICompatibleConfig) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const res = await this.post(request, false);
+    const body = await res.json() as {
+      model?: string;
+      choices?: Array<{ message?: { content?: string } }>;
+    };
+    const content = body.choices?.[0]?.message?.content?.trim();
+    if (!content) {
+      throw new Error("LLM response contained no completion content");
+    }
+
+    return {
+      content,
+      model: body.model ?? this.config.model,
+      provider: this.name,
+    };
+  }
+
+  /** Reads the server-sent `data:` chunks of a `stream: true` completion. */
+  async stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResult> {
+    const res = await this.post(request, true);
+    if (!res.body) throw new Error("LLM response had no body to stream");
+
+    const decoder = new TextDecoder();
+    let buffered = "";
+    let content = "";
+    let model = this.config.model;
+
+    const reader = res.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffered += decoder.decode(value, { stream: true });
+
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+        const data = trimmed.slice("data:".length).trim();
+        if (data === "[DONE]") continue;
+        const chunk = JSON.parse(data) as {
+          model?: string;
+          choices?: Array<{ delta?: { content?: string } }>;
+        };
+        model = chunk.model ?? model;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+      }
+    }
+
+    if (!content.trim()) {
+      throw new Error("LLM response contained no completion content");
+    }
+    return { content: content.trim(), model, provider: this.name };
+  }
+
+  private async post(request: CompletionRequest, stream: boolean): Promise<Response> {
+    const url = `${this.config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const res = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens ?? 400,
+        ...(request.seed !== undefined ? { seed: request.seed } : {}),
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+
+    if (!res.ok) {
+      const text = (await res.text()) || res.statusText;
+      throw new Error(`LLM request failed (${res.status}): ${text}`);
+    }
+    return res;
+  }
+}
+
+// ─── Provider resolution (singleton) ─────────────────────────────────────────
+
+let llmProvider: LLMProvider | null | undefined;
+
+/**
+ * Returns the configured LLM provider, or null when the app should use the
+ * offline pattern table. Resolved once from env vars and cached.
+ */
+export function getLLMProvider(): LLMProvider | null {
+  if (llmProvider === undefined) {
+    llmProvider = createLLMProviderFromEnv(process.env);
+  }
+  return llmProvider;
+}
+
+/** Overrides the cached provider (pass null to force the offline fallback). */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  llmProvider = provider;
+}
+
+export function createLLMProviderFromEnv(env: NodeJS.ProcessEnv): LLMProvider | null {
+  const kind = (env.LLM_PROVIDER || "patterns").toLowerCase();
+  if (kind !== "openai") return null;
+
+  const timeoutMs = parseInt(env.LLM_TIMEOUT_MS || "8000", 10);
+  return new OpenAICompatibleProvider({
+    baseUrl: env.LLM_BASE_URL || "https://api.openai.com/v1",
+    apiKey: env.LLM_API_KEY,
+    model: env.LLM_MODEL || "gpt-4o-mini",
+    timeoutMs: isNaN(timeoutMs) ? 8000 : timeoutMs,
+  });
+}
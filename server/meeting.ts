@@ -0,0 +1,158 @@
+/**
+ * Meeting Turns
+ *
+ * On the meeting channel the rep speaks to every stakeholder introduced so
+ * far, not just the step's active persona. Each participant is scored for
+ * how much the rep's message concerns them — being named, and the message
+ * touching topics their role owns — and the turn is planned from the scores:
+ *
+ *   - the participant the rep addressed, or else the most relevant, responds
+ *   - a skeptical or opposed participant the message also concerns
+ *     interrupts, speaking before them
+ *   - anyone else the message concerns responds after them
+ *   - participants it does not concern defer to the lead responder
+ *
+ * Each participant's stance (server/persona-state.ts) is read from their
+ * stored state, so it moves as the meeting goes on.
+ */
+
+import type { Persona } from "@shared/schema";
+import { storage } from "./storage";
+import { getInitialPersonaState, getStanceFromState, type PersonaStance } from "./persona-state";
+import { pickRandom, type Rng } from "./rng";
+
+export interface MeetingParticipant {
+  personaId: number;
+  persona: Persona;
+  roleInScenario: string;
+  stance: PersonaStance;
+}
+
+export interface MeetingReaction {
+  participant: MeetingParticipant;
+  reaction: "respond" | "interrupt" | "defer";
+  relevance: number;
+  /** The lead responder's name, for deferrals. */
+  deferTo?: string;
+}
+
+/** Topics in the rep's message, and the role words of the people who own them. */
+const TOPIC_OWNERS: Array<{ topic: RegExp; owners: RegExp }> = [
+  {
+    topic: /\b(budget|cost|price|pricing|roi|payback|spend|discount|invoice|contract value|business case)\b/i,
+    owners: /\b(cfo|economic|budget|finance|procurement)\b/i,
+  },
+  {
+    topic: /\b(security|integration|api|sso|data|architecture|compliance|soc ?2|hipaa|gxp|audit)\b/i,
+    owners: /\b(technical|security|it|architecture|compliance|risk|data)\b/i,
+  },
+  {
+    topic: /\b(brand|narrative|message|messaging|press|media|reputation|story)\b/i,
+    owners: /\b(cmo|marketing|communications|brand|narrative)\b/i,
+  },
+  {
+    topic: /\b(adoption|rollout|roll-out|process|team|training|onboarding|workflow|pilot)\b/i,
+    owners: /\b(operations|ops|champion|ally|partnerships)\b/i,
+  },
+  {
+    topic: /\b(clinical|medical|accuracy|evidence|study|trial data)\b/i,
+    owners: /\b(medical|cmo|reviewer|clinical)\b/i,
+  },
+];
+
+const NAME_MENTION_SCORE = 3;
+const TOPIC_SCORE = 2;
+const TRAIT_SCORE = 1;
+
+const DEFER_LINES = [
+  "I'll let {name} take this one.",
+  "That's really {name}'s area, so I'll hold off.",
+  "Nothing to add from my side for now; over to {name}.",
+];
+
+/** Skeptical and opposed participants cut in on topics that concern them. */
+const INTERRUPTING_STANCES: PersonaStance[] = ["skeptical", "opposed"];
+
+/** First name, skipping honorifics ("Dr. James Okafor" → "James"). */
+function getFirstName(persona: Pick<Persona, "name">): string {
+  const parts = persona.name.split(/\s+/);
+  return (/^(dr|mr|mrs|ms|prof)\.?$/i.test(parts[0]) && parts[1]) || parts[0];
+}
+
+/** Stakeholders in the room at `step`, with their current stance. */
+export async function getMeetingParticipants(
+  sessionId: number,
+  scenarioId: number,
+  step: number,
+): Promise<MeetingParticipant[]> {
+  const scenarioPersonas = (await storage.getScenarioPersonas(scenarioId)).filter(sp => sp.introduceAtStep <= step);
+  return Promise.all(
+    scenarioPersonas.map(async sp => {
+      const stored = await storage.getPersonaState(sessionId, sp.personaId);
+      return {
+        personaId: sp.personaId,
+        persona: sp.persona,
+        roleInScenario: sp.roleInScenario,
+        stance: stored
+          ? (stored.stance as PersonaStance)
+          : getStanceFromState(getInitialPersonaState(sp.persona.personaType)),
+      };
+    }),
+  );
+}
+
+/** How much the rep's message concerns the participant; 0 when not at all. */
+export function scoreMeetingRelevance(participant: MeetingParticipant, message: string): number {
+  const { persona, roleInScenario } = participant;
+  const roleText = `${persona.role} ${roleInScenario}`;
+  let score = 0;
+
+  const firstName = getFirstName(persona);
+  if (new RegExp(`\\b${firstName}\\b`, "i").test(message)) score += NAME_MENTION_SCORE;
+
+  for (const { topic, owners } of TOPIC_OWNERS) {
+    if (topic.test(message) && owners.test(roleText)) score += TOPIC_SCORE;
+  }
+
+  const lower = message.toLowerCase();
+  if (persona.traits.some(trait => lower.includes(trait.toLowerCase()))) score += TRAIT_SCORE;
+
+  return score;
+}
+
+/**
+ * Orders the participants' reactions to the rep's message. The addressed
+ * participant leads when given; otherwise ties go to the participant
+ * introduced first, so a message that concerns no one is taken by the
+ * longest-standing stakeholder.
+ */
+export function planMeetingTurn(
+  participants: MeetingParticipant[],
+  message: string,
+  addressedPersonaId?: number,
+): MeetingReaction[] {
+  if (participants.length === 0) return [];
+
+  const scored = participants.map(participant => ({ participant, relevance: scoreMeetingRelevance(participant, message) }));
+  const lead =
+    scored.find(s => s.participant.personaId === addressedPersonaId) ??
+    scored.reduce((best, s) => (s.relevance > best.relevance ? s : best));
+  const others = scored.filter(s => s !== lead);
+  const concerned = others.filter(s => s.relevance > 0).sort((a, b) => b.relevance - a.relevance);
+  const deferTo = lead.participant.persona.name;
+
+  return [
+    ...concerned
+      .filter(s => INTERRUPTING_STANCES.includes(s.participant.stance))
+      .map(s => ({ ...s, reaction: "interrupt" as const })),
+    { ...lead, reaction: "respond" as const },
+    ...concerned
+      .filter(s => !INTERRUPTING_STANCES.includes(s.participant.stance))
+      .map(s => ({ ...s, reaction: "respond" as const })),
+    ...others.filter(s => s.relevance === 0).map(s => ({ ...s, reaction: "defer" as const, deferTo })),
+  ];
+}
+
+export function getDeferLine(rng: Rng, deferTo: string): string {
+  return pickRandom(rng, DEFER_LINES).replace("{name}", getFirstName({ name: deferTo }));
+}
@@ -0,0 +1,190 @@
+/**
+ * Persona Prompt Assembly
+ *
+ * Builds the one canonical prompt every persona-response implementation
+ * consumes. Combines the persona's systemPrompt, behavioralInstructions and
+ * traits with the scenario briefing, client profile, active constraints,
+ * the current channel and the recent message history. In a meeting the
+ * prompt also names the others in the room and how the persona should come
+ * in (server/meeting.ts). What the rep has said on every channel so far, and
+ * any contradictions in it, come from the session memory
+ * (server/session-memory.ts).
+ *
+ * The prompt is kept within a token budget: when the history does not fit,
+ * the oldest turns are dropped and replaced by a one-line summary each
+ * (or by a single count line when even the summaries do not fit).
+ */
+
+import type { Persona, Scenario, Session, Message, SessionMemory } from "@shared/schema";
+import type { ChatMessage } from "./llm-provider";
+import { CONSTRAINT_LABELS, getActiveConstraints, getConstraintDirective } from "./constraints";
+import { formatMemoryForPrompt } from "./session-memory";
+
+export const DEFAULT_PROMPT_TOKEN_BUDGET = 3000;
+
+/** Tokens reserved for the persona's reply within the budget. */
+const RESPONSE_TOKEN_RESERVE = 400;
+
+/** A persona's place in a multi-persona meeting turn. */
+export interface MeetingCue {
+  /** "interrupt" cuts in ahead of the persona the turn was most relevant to. */
+  reaction: "respond" | "interrupt";
+  /** Names of the other personas in the room. */
+  participants: string[];
+}
+
+export interface PersonaPromptInput {
+  persona: Persona;
+  roleInScenario?: string;
+  scenario: Scenario;
+  session?: Pick<Session, "config"> | null;
+  channel: string;
+  history: Message[];
+  userMessage: string;
+  meeting?: MeetingCue;
+  memories?: SessionMemory[];
+  tokenBudget?: number;
+}
+
+export interface PersonaPrompt {
+  messages: ChatMessage[];
+  /** The user turn the persona is replying to. */
+  userMessage: string;
+  estimatedTokens: number;
+  /** Number of history turns included verbatim. */
+  includedTurns: number;
+  /** Number of oldest turns summarized or dropped to fit the budget. */
+  summarizedTurns: number;
+}
+
+/** Rough token estimate (~4 characters per token) — good enough for budgeting. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function buildSystemContent(input: PersonaPromptInput): string {
+  const { persona, roleInScenario, scenario, session, channel, meeting, memories = [] } = input;
+  const constraints = getActiveConstraints(scenario, session);
+  const client = scenario.clientProfile;
+
+  const sections = [
+    persona.systemPrompt.trim(),
+    `BEHAVIORAL INSTRUCTIONS:\n${persona.behavioralInstructions.trim()}`,
+  ];
+  if (persona.traits.length > 0) {
+    sections.push(`TRAITS: ${persona.traits.join(", ")}`);
+  }
+  if (roleInScenario) {
+    sections.push(`YOUR ROLE IN THIS SCENARIO: ${roleInScenario}`);
+  }
+  sections.push(
+    `CLIENT PROFILE:\n- Name: ${client.name}\n- Industry: ${client.industry}\n- Size: ${client.size}\n- Background: ${client.background}`,
+  );
+  sections.push(`SCENARIO BRIEFING (what the rep was told):\n${scenario.briefing.trim()}`);
+  if (constraints.length > 0) {
+    const lines = constraints.map(c => {
+      const directive = getConstraintDirective(c);
+      return `- ${CONSTRAINT_LABELS[c] ?? c}${directive ? `\n  ${directive}` : ""}`;
+    });
+    sections.push(`ACTIVE CONSTRAINTS:\n${lines.join("\n")}`);
+  }
+  const memory = formatMemoryForPrompt(memories);
+  if (memory) sections.push(memory);
+  sections.push(
+    `CHANNEL: You are replying on the ${channel.replace(/_/g, " ")} channel. Match the register of that channel, stay in character as ${persona.name}, never mention that you are an AI, and keep the reply under 150 words.`,
+  );
+  if (meeting) {
+    const others = meeting.participants.length > 0 ? meeting.participants.join(", ") : "no one else";
+    sections.push(
+      `MEETING: You are in the room with the rep and ${others}. Speak only for yourself, keep it under 80 words, and agree or disagree with the others by name when it matters to you.` +
+        (meeting.reaction === "interrupt"
+          ? " You are cutting in before the others have answered, because what the rep just said touches one of your concerns directly."
+          : ""),
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+function toChatMessage(message: Message, persona: Persona): ChatMessage | null {
+  if (message.senderType === "system") return null;
+  if (message.senderType === "persona" && message.personaId === persona.id) {
+    return { role: "assistant", content: message.content };
+  }
+  const speaker = message.senderType === "user" ? "Rep" : message.senderName;
+  return { role: "user", content: `[${speaker} via ${message.channel}]: ${message.content}` };
+}
+
+function summarizeTurn(message: Message): string {
+  const speaker = message.senderType === "user" ? "Rep" : message.senderName;
+  const firstSentence = message.content.split(/(?<=[.!?])\s/)[0].replace(/\s+/g, " ");
+  const excerpt = firstSentence.length > 100 ? `${firstSentence.slice(0, 97)}...` : firstSentence;
+  return `- ${speaker} (${message.channel}): ${excerpt}`;
+}
+
+/**
+ * Assembles the canonical persona prompt within the token budget.
+ */
+export function buildPersonaPrompt(input: PersonaPromptInput): PersonaPrompt {
+  const budget = input.tokenBudget ?? DEFAULT_PROMPT_TOKEN_BUDGET;
+  const systemContent = buildSystemContent(input);
+  const finalTurn: ChatMessage = {
+    role: "user",
+    content: `[Rep via ${input.channel}]: ${input.userMessage}`,
+  };
+
+  // The route saves the user's message before the persona replies, so drop
+  // it from the history to avoid sending it twice. In a meeting, others may
+  // already have answered it; the persona is then cued to take its turn.
+  const history = [...input.history];
+  const last = history[history.length - 1];
+  if (last && last.senderType === "user" && last.content === input.userMessage) {
+    history.pop();
+  } else if (input.meeting && last?.senderType === "persona") {
+    finalTurn.content = `[Meeting]: Your turn, ${input.persona.name}. React to the rep's last message and to what was just said in the room.`;
+  }
+
+  const turns = history
+    .map(m => ({ source: m, chat: toChatMessage(m, input.persona) }))
+    .filter((t): t is { source: Message; chat: ChatMessage } => t.chat !== null);
+
+  const fixedTokens = estimateTokens(systemContent) + estimateTokens(finalTurn.content) + RESPONSE_TOKEN_RESERVE;
+  let remaining = budget - fixedTokens;
+
+  // Keep the newest turns verbatim while they fit
+  let firstIncluded = turns.length;
+  while (firstIncluded > 0) {
+    const cost = estimateTokens(turns[firstIncluded - 1].chat.content);
+    if (cost > remaining) break;
+    remaining -= cost;
+    firstIncluded--;
+  }
+
+  const dropped = turns.slice(0, firstIncluded);
+  let summary = "";
+  if (dropped.length > 0) {
+    const header = `EARLIER CONVERSATION (${dropped.length} older turn(s) summarized):`;
+    const lines = dropped.map(t => summarizeTurn(t.source));
+    let full = [header, ...lines].join("\n");
+    // Keep the most recent summary lines that fit; fall back to the count alone
+    while (lines.length > 0 && estimateTokens(full) > remaining) {
+      lines.shift();
+      full = [header, ...lines].join("\n");
+    }
+    summary = estimateTokens(full) <= remaining ? full : header;
+  }
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: summary ? `${systemContent}\n\n${summary}` : systemContent },
+    ...turns.slice(firstIncluded).map(t => t.chat),
+    finalTurn,
+  ];
+
+  return {
+    messages,
+    userMessage: input.userMessage,
+    estimatedTokens: messages.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+    includedTurns: turns.length - firstIncluded,
+    summarizedTurns: dropped.length,
+  };
+}
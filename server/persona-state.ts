@@ -0,0 +1,254 @@
+/**
+ * Persona State Machine
+ *
+ * Each persona in a session carries a stored state — trust, patience and
+ * perceived value (0-100 each). Every user turn addressed to the persona is
+ * analysed for signals (evidence, questions, handled objections, next steps,
+ * over-promising, low-effort or nonsense input) and moves the state up or
+ * down, and the session's active constraints add their own pressure
+ * (server/constraints.ts). The conversation stage used by
+ * `custom.persona-response` is then derived from the state rather than from
+ * a message count.
+ *
+ * The signals, deltas and reasons are returned so callers can record them
+ * in `messages.metadata` for auditing. The persona's stance (supportive to
+ * opposed) is derived from the same state and stored with it.
+ */
+
+import { getConstraintAdjustments } from "./constraints";
+
+export interface PersonaStateValues {
+  trust: number;
+  patience: number;
+  perceivedValue: number;
+}
+
+export interface TurnSignals {
+  evidence: boolean;
+  questionCount: number;
+  acknowledgesConcern: boolean;
+  handlesObjection: boolean;
+  proposesNextStep: boolean;
+  overpromises: boolean;
+  pushy: boolean;
+  lowEffort: boolean;
+  nonsense: boolean;
+}
+
+export interface StateTransition {
+  before: PersonaStateValues;
+  after: PersonaStateValues;
+  deltas: PersonaStateValues;
+  signals: TurnSignals;
+  reasons: string[];
+}
+
+// ─── Initial state by persona type ──────────────────────────────────────────
+
+const INITIAL_STATE: Record<string, PersonaStateValues> = {
+  difficult_skeptical: { trust: 25, patience: 60, perceivedValue: 30 },
+  analytical_calm: { trust: 40, patience: 80, perceivedValue: 40 },
+  cooperative: { trust: 65, patience: 85, perceivedValue: 40 },
+};
+
+const DEFAULT_INITIAL_STATE: PersonaStateValues = { trust: 40, patience: 70, perceivedValue: 40 };
+
+/** How strongly each persona type reacts to positive and negative signals. */
+const SENSITIVITY: Record<string, { gain: number; loss: number }> = {
+  difficult_skeptical: { gain: 0.8, loss: 1.5 },
+  analytical_calm: { gain: 1.0, loss: 1.0 },
+  cooperative: { gain: 1.2, loss: 0.7 },
+};
+
+export function getInitialPersonaState(personaType: string): PersonaStateValues {
+  return { ...(INITIAL_STATE[personaType] ?? DEFAULT_INITIAL_STATE) };
+}
+
+// ─── Turn analysis ───────────────────────────────────────────────────────────
+
+const EVIDENCE_PATTERNS = [
+  /\d+(\.\d+)?\s?%/,
+  /\$\s?\d/,
+  /\b\d{2,}\b/,
+  /\b(case stud(y|ies)|reference (customer|client)s?|customers? like|for example|for instance|data shows?|benchmark|soc ?2|audit(ed)?|certif(ied|ication))\b/i,
+];
+const ACKNOWLEDGE_PATTERN = /\b(i understand|understand (your|the|why)|fair (point|concern|question)|good question|you'?re right|that'?s valid|i hear you|makes sense|great point|to address|to your point|valid concern)\b/i;
+const NEXT_STEP_PATTERN = /\b(pilot|next steps?|follow[- ]up|send (you|over)|schedule|set up a|proposal|by (monday|tuesday|wednesday|thursday|friday|end of (day|week|month)))\b/i;
+const OVERPROMISE_PATTERN = /\b(guarantee[ds]?|100\s?%|no risk|risk[- ]free|definitely will|always works|never fails|seamless(ly)?|zero downtime)\b/i;
+const PUSHY_PATTERN = /\b(sign (today|now)|limited[- ]time|act now|you must decide|best in the world|no[- ]brainer)\b/i;
+const COMMON_WORDS = new Set([
+  "hi", "hello", "thanks", "thank", "yes", "no", "ok", "okay", "please", "sure", "great",
+  "a", "an", "and", "are", "as", "at", "be", "but", "can", "could", "do", "for", "from", "have", "how",
+  "i", "if", "in", "is", "it", "its", "me", "my", "not", "of", "on", "or", "our", "so", "that", "the",
+  "this", "to", "us", "we", "what", "when", "which", "who", "why", "will", "with", "would", "you", "your",
+]);
+
+export function analyzeUserTurn(message: string): TurnSignals {
+  const words = message.toLowerCase().match(/[a-z']+/g) ?? [];
+  const commonWordHits = words.filter(w => COMMON_WORDS.has(w)).length;
+  const nonsense = words.length === 0 || (words.length >= 3 && commonWordHits === 0);
+  const lowEffort = !nonsense && words.length < 5;
+
+  const evidence = EVIDENCE_PATTERNS.some(p => p.test(message));
+  const acknowledgesConcern = ACKNOWLEDGE_PATTERN.test(message);
+  const proposesNextStep = NEXT_STEP_PATTERN.test(message);
+
+  return {
+    evidence,
+    questionCount: (message.match(/\?/g) ?? []).length,
+    acknowledgesConcern,
+    handlesObjection: acknowledgesConcern && (evidence || proposesNextStep),
+    proposesNextStep,
+    overpromises: OVERPROMISE_PATTERN.test(message),
+    pushy: PUSHY_PATTERN.test(message),
+    lowEffort,
+    nonsense,
+  };
+}
+
+// ─── State transitions ───────────────────────────────────────────────────────
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+/**
+ * Applies one user turn to a persona's state and returns the full transition.
+ * `turnCount` is the number of turns the rep has already taken with the persona.
+ */
+export function applyUserTurn(
+  personaType: string,
+  state: PersonaStateValues,
+  message: string,
+  constraints: string[] = [],
+  turnCount = 0,
+): StateTransition {
+  const signals = analyzeUserTurn(message);
+  const { gain, loss } = SENSITIVITY[personaType] ?? { gain: 1, loss: 1 };
+  const deltas: PersonaStateValues = { trust: 0, patience: 0, perceivedValue: 0 };
+  const reasons: string[] = [];
+
+  const adjust = (key: keyof PersonaStateValues, amount: number) => {
+    deltas[key] += amount * (amount >= 0 ? gain : loss);
+  };
+
+  if (signals.nonsense) {
+    adjust("trust", -8);
+    adjust("patience", -15);
+    adjust("perceivedValue", -6);
+    reasons.push("Message did not read as a substantive reply");
+  } else {
+    if (signals.lowEffort) {
+      adjust("patience", -10);
+      adjust("perceivedValue", -4);
+      reasons.push("Low-effort reply");
+    }
+    if (signals.evidence) {
+      adjust("trust", 6);
+      adjust("perceivedValue", 8);
+      reasons.push("Backed claims with evidence or specifics");
+    }
+    if (signals.handlesObjection) {
+      adjust("trust", 8);
+      adjust("patience", 2);
+      reasons.push("Acknowledged and addressed the concern");
+    } else if (signals.acknowledgesConcern) {
+      adjust("trust", 2);
+      reasons.push("Acknowledged the concern without resolving it");
+    }
+    if (signals.questionCount > 0 && signals.questionCount <= 3) {
+      adjust("trust", 3);
+      adjust("perceivedValue", 2);
+      reasons.push("Asked discovery questions");
+    } else if (signals.questionCount > 3) {
+      adjust("patience", -4);
+      reasons.push("Too many questions at once");
+    }
+    if (signals.proposesNextStep) {
+      adjust("perceivedValue", 4);
+      reasons.push("Proposed a concrete next step");
+    }
+  }
+  if (signals.overpromises) {
+    adjust("trust", -10);
+    reasons.push("Over-promised (guarantees or absolute claims)");
+  }
+  if (signals.pushy) {
+    adjust("trust", -6);
+    adjust("patience", -8);
+    reasons.push("Applied pressure instead of earning the decision");
+  }
+
+  for (const adjustment of getConstraintAdjustments(constraints, message, turnCount)) {
+    adjust(adjustment.key, adjustment.amount);
+    if (!reasons.includes(adjustment.reason)) reasons.push(adjustment.reason);
+  }
+
+  // Every turn costs a little patience
+  adjust("patience", -2);
+
+  const after: PersonaStateValues = {
+    trust: clamp(state.trust + deltas.trust),
+    patience: clamp(state.patience + deltas.patience),
+    perceivedValue: clamp(state.perceivedValue + deltas.perceivedValue),
+  };
+
+  return {
+    before: { ...state },
+    after,
+    deltas: {
+      trust: after.trust - state.trust,
+      patience: after.patience - state.patience,
+      perceivedValue: after.perceivedValue - state.perceivedValue,
+    },
+    signals,
+    reasons,
+  };
+}
+
+// ─── Stage derivation ────────────────────────────────────────────────────────
+
+/**
+ * Derives the conversation stage from the persona's state. The first reply
+ * is always the opening; after that the stage follows trust and value.
+ */
+export function getStageFromState(
+  personaType: string,
+  state: PersonaStateValues,
+  priorPersonaMessageCount: number,
+): string {
+  if (priorPersonaMessageCount === 0) return "opening";
+
+  if (personaType === "analytical_calm") {
+    if (state.trust >= 70 && state.perceivedValue >= 60) return "closing";
+    if (state.trust >= 55) return "satisfied";
+    return "probing";
+  }
+  if (personaType === "cooperative") {
+    if (state.trust >= 75 && state.perceivedValue >= 65) return "closing";
+    if (state.perceivedValue >= 50) return "supportive";
+    return "coaching";
+  }
+  // difficult_skeptical and default
+  if (state.patience < 20) return "objection";
+  if (state.trust >= 70 && state.perceivedValue >= 60) return "closing";
+  if (state.trust >= 45 && state.perceivedValue >= 40) return "engaged";
+  return "objection";
+}
+
+// ─── Stance ──────────────────────────────────────────────────────────────────
+
+export type PersonaStance = "supportive" | "neutral" | "skeptical" | "opposed";
+
+/**
+ * The persona's position on the rep's proposal, from trust and perceived
+ * value together; a persona out of patience is opposed whatever they think
+ * of the value. Shown in meetings, where several personas react at once.
+ */
+export function getStanceFromState(state: PersonaStateValues): PersonaStance {
+  const support = (state.trust + state.perceivedValue) / 2;
+  if (state.patience < 20 || support < 25) return "opposed";
+  if (support < 45) return "skeptical";
+  if (support < 65) return "neutral";
+  return "supportive";
+}
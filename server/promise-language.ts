@@ -0,0 +1,21 @@
+/**
+ * Promise Language
+ *
+ * What counts as a promise, a promised date and a sentence in the rep's
+ * words. Session memory (server/session-memory.ts) files promises under
+ * these rules and the commitment tracker (server/commitments.ts) classifies
+ * them, so the two always agree on what the rep committed to and when. The
+ * artifact grader (server/artifact-grader.ts) splits sentences the same way
+ * to match its findings against the tracker's.
+ */
+
+/** The rep undertaking something: "we'll", "I can", "we commit to", "you'll get", "guaranteed". */
+export const PROMISE_PATTERN = /\b(i|we)\s*('ll|’ll| will| can| could| commit to| promise| are going to|'re going to| are happy to|'re happy to| would be happy to)\b|\byou('ll|’ll| will) (get|have|receive|see)\b|\bguarantee[ds]?\b/i;
+
+/** A promised date or deadline: "by Friday", "end of quarter", "in 2 weeks", "by Q3". */
+export const DATE_PATTERN = /\b(by (monday|tuesday|wednesday|thursday|friday|tomorrow|next week|end of (the )?(day|week|month|quarter|year)|eod|eow|q[1-4])|(within|in) \d+ (hours?|days?|weeks?|months?)|on (monday|tuesday|wednesday|thursday|friday)|(this|next) (week|month|friday|monday)|tomorrow)\b/i;
+
+/** Splits a message or artifact into sentences, one per line break as well. */
+export function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+|\n+/).map(s => s.trim()).filter(s => s.length > 0);
+}
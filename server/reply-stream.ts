@@ -0,0 +1,141 @@
+/**
+ * Persona Reply Streaming
+ *
+ * Persona replies to user turns are delivered over the session's WebSocket
+ * channel (server/session-events.ts) instead of the message POST response.
+ * A reply announces itself with `reply.typing`, waits out the channel's
+ * response latency, then arrives as `reply.delta` chunks; the saved message
+ * follows as `message.created`. Completions from a streaming LLM provider
+ * are relayed as they are generated, and pattern-table replies are typed out
+ * word by word at the channel's pace.
+ *
+ * Latency model: each channel has a pause before the first word and an
+ * interval between words. Email and follow-ups arrive after a delay; calls
+ * start almost at once, at speaking pace. The pause is jittered ±25% from
+ * the session seed, so a replayed session keeps its timing.
+ *
+ * Environment:
+ *   - REPLY_LATENCY_SCALE  Multiplier for every delay; 0 delivers replies at once (default 1)
+ */
+
+import type { Message } from "@shared/schema";
+import { publishSessionEvent } from "./session-events";
+import { createRng } from "./rng";
+
+// ─── Latency Model ───────────────────────────────────────────────────────────
+
+export interface ChannelLatency {
+  /** Pause before the persona starts replying. */
+  firstWordMs: number;
+  /** Interval between streamed words. */
+  wordMs: number;
+}
+
+const CHANNEL_LATENCY: Record<string, ChannelLatency> = {
+  call: { firstWordMs: 400, wordMs: 60 },
+  meeting: { firstWordMs: 900, wordMs: 60 },
+  internal_coaching: { firstWordMs: 1200, wordMs: 35 },
+  deck_review: { firstWordMs: 2500, wordMs: 30 },
+  follow_up: { firstWordMs: 5000, wordMs: 15 },
+  email: { firstWordMs: 8000, wordMs: 15 },
+};
+
+const DEFAULT_LATENCY: ChannelLatency = { firstWordMs: 1500, wordMs: 35 };
+
+function getLatencyScale(): number {
+  const scale = parseFloat(process.env.REPLY_LATENCY_SCALE || "1");
+  return isNaN(scale) || scale < 0 ? 1 : scale;
+}
+
+/** The channel's latency for one reply, jittered from the session seed and scaled. */
+export function planReplyLatency(channel: string, seed: number, turn: number | string): ChannelLatency {
+  const base = CHANNEL_LATENCY[channel] ?? DEFAULT_LATENCY;
+  const rng = createRng(seed, "reply-latency", channel, turn);
+  const scale = getLatencyScale();
+  return {
+    firstWordMs: Math.round(base.firstWordMs * (0.75 + rng() * 0.5) * scale),
+    wordMs: Math.round(base.wordMs * scale),
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+// ─── Delta Sinks ─────────────────────────────────────────────────────────────
+
+// The persona-response handler runs inside bilko-flow and only sees its
+// inputs, so it finds where to send streamed chunks by the reply ID.
+const sinks = new Map<string, (delta: string) => void>();
+
+export function getReplySink(replyId: string | undefined): ((delta: string) => void) | undefined {
+  return replyId ? sinks.get(replyId) : undefined;
+}
+
+// ─── Streaming ───────────────────────────────────────────────────────────────
+
+export interface ReplyTarget {
+  sessionId: number;
+  replyId: string;
+  personaId: number;
+  personaName: string;
+  channel: Message["channel"];
+  latency: ChannelLatency;
+}
+
+/**
+ * Streams one persona reply: announces typing, waits out the first-word
+ * latency, then runs `generate`. Chunks the LLM provider streams through
+ * the reply's sink are relayed as they arrive; a reply that was not
+ * streamed is typed out word by word.
+ */
+export async function streamReply<T extends { response: string; streamed: boolean }>(
+  target: ReplyTarget,
+  generate: () => Promise<T>,
+): Promise<T> {
+  const { sessionId, replyId, personaId, personaName, channel, latency } = target;
+  // Also resets the client's partial text when a stream fails over to the pattern table
+  const announceTyping = () =>
+    publishSessionEvent({ type: "reply.typing", sessionId, replyId, personaId, personaName, channel });
+  const sendDelta = (delta: string) => publishSessionEvent({ type: "reply.delta", sessionId, replyId, delta });
+
+  announceTyping();
+  await sleep(latency.firstWordMs);
+
+  sinks.set(replyId, sendDelta);
+  try {
+    const result = await generate();
+    if (!result.streamed) {
+      announceTyping();
+      if (latency.wordMs <= 0) {
+        sendDelta(result.response);
+      } else {
+        for (const word of result.response.split(/(?<=\s)/)) {
+          sendDelta(word);
+          await sleep(latency.wordMs);
+        }
+      }
+    }
+    return result;
+  } catch (error: any) {
+    publishSessionEvent({ type: "reply.failed", sessionId, replyId, error: error?.message ?? String(error) });
+    throw error;
+  } finally {
+    sinks.delete(replyId);
+  }
+}
+
+// ─── Session Reply Queue ─────────────────────────────────────────────────────
+
+const queues = new Map<number, Promise<void>>();
+
+/** Runs a session's replies one at a time, in the order the user's turns arrived. */
+export function enqueueSessionReply(sessionId: number, task: () => Promise<void>): Promise<void> {
+  const run = (queues.get(sessionId) ?? Promise.resolve()).then(task);
+  const settled = run.catch(() => undefined);
+  queues.set(sessionId, settled);
+  void settled.then(() => {
+    if (queues.get(sessionId) === settled) queues.delete(sessionId);
+  });
+  return run;
+}
@@ -0,0 +1,52 @@
+/**
+ * Seeded Randomness
+ *
+ * Every random choice in the workflow engine is drawn from a PRNG derived
+ * from the session's stored seed plus a scope key describing the decision
+ * (e.g. "persona", personaId, turn index). Deriving a fresh generator per
+ * decision — instead of sharing one stateful stream — keeps replays
+ * byte-identical even across server restarts and concurrent sessions.
+ */
+
+import { randomInt } from "crypto";
+
+export type Rng = () => number;
+
+/** Generates a new 31-bit session seed. */
+export function generateSeed(): number {
+  return randomInt(0, 2 ** 31 - 1);
+}
+
+/** FNV-1a 32-bit hash, used to fold the seed and scope into one PRNG state. */
+function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32 — small, fast and good enough for simulation choices. */
+function mulberry32(state: number): Rng {
+  let a = state >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Creates a deterministic generator for one decision scope within a session.
+ * The same seed and scope always yield the same sequence.
+ */
+export function createRng(seed: number, ...scope: Array<string | number>): Rng {
+  return mulberry32(hashString([seed, ...scope].join(":")));
+}
+
+export function pickRandom<T>(rng: Rng, arr: T[]): T {
+  return arr[Math.floor(rng() * arr.length)];
+}
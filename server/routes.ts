@@ -1,27 +1,49 @@
 import type { Express } from "express";
 import type { Server } from "http";
+import { randomUUID } from "crypto";
 import { storage } from "./storage";
 import { api } from "@shared/routes";
 import { seedDatabase } from "./seed";
 import {
   getBilkoContext,
-  executePersonaResponseStep,
-  executeChannelTransitionStep,
-  executeAssessmentStep,
+  ensureSessionRun,
+  getSessionRunProgress,
+  executeSessionPersonaResponse,
+  getSessionRunSummaries,
+  getRunDetail,
   getActivePersonaForStep,
-  createScenarioRun,
+  getReplyPersonaForTurn,
+  type PersonaResponseResult,
 } from "./workflow-engine";
+import { reviewSubmittedArtifact } from "./artifact-review";
+import { enqueueAssessment, getAssessmentWithJob, startAssessmentWorker } from "./assessment-queue";
+import { attachSessionEvents } from "./session-events";
+import { enqueueSessionReply, planReplyLatency, streamReply, type ReplyTarget } from "./reply-stream";
+import { diffLines } from "./text-diff";
+import { checkArtifactDeadlines, formatArtifactList } from "./artifact-policy";
+import { advanceSession, startStepTimerWorker } from "./session-advance";
+import { pauseSession, resumeSession, withActiveTime, startSessionIdleWorker } from "./session-pause";
+import { planStepTimer, measureResponseLatency } from "./step-timer";
+import { extractMemories } from "./session-memory";
+import { buildCommitmentLedger } from "./commitments";
+import { getActiveConstraints } from "./constraints";
+import { getMeetingParticipants, planMeetingTurn, getDeferLine, type MeetingReaction } from "./meeting";
+import { generateSeed, createRng } from "./rng";
 import {
   insertTemplateSchema,
   insertSessionSchema,
   createMessageBodySchema,
   createArtifactBodySchema,
   updateArtifactBodySchema,
+  artifactDiffQuerySchema,
   updateTemplateBodySchema,
   updateSessionBodySchema,
   hitlUpdateBodySchema,
   updateUserConfigBodySchema,
   slugParamSchema,
+  type Message,
+  type Scenario,
+  type Session,
 } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
@@ -32,6 +54,126 @@ function formatValidationError(err: ZodError) {
   return { message: formatted.message };
 }
 
+/** Persona message metadata: stage plus the state transition that produced it, for auditing. */
+function buildPersonaMessageMetadata(result: PersonaResponseResult): Record<string, unknown> {
+  return {
+    stage: result.stage,
+    provider: result.provider,
+    personaState: result.personaState,
+    stance: result.stance,
+    stateChange: result.stateChange && {
+      deltas: result.stateChange.deltas,
+      reasons: result.stateChange.reasons,
+      signals: result.stateChange.signals,
+    },
+  };
+}
+
+/**
+ * Takes a session into `active` at the step its run has reached. The step's
+ * clock starts now, whether the rep's first message or a status update
+ * started the session.
+ */
+async function getActivationFields(session: Session, scenario: Scenario) {
+  const { currentStep } = await getSessionRunProgress(await ensureSessionRun(session));
+  return {
+    status: "active" as const,
+    currentStep,
+    lastActivityAt: new Date(),
+    ...planStepTimer(scenario, session, currentStep, session.currentChannel),
+  };
+}
+
+/**
+ * Generates the persona's reply to a user turn, streaming it to the
+ * session's subscribers, then saves it. The reply ID is kept in the message
+ * metadata so clients can swap the streamed text for the saved message.
+ */
+async function deliverPersonaReply(
+  target: ReplyTarget,
+  runId: string,
+  scenarioId: number,
+  personaType: string,
+  userMessage: Message,
+  meeting?: MeetingReaction & { participants: string[] },
+): Promise<void> {
+  const personaResult = await streamReply(target, () =>
+    // Execute persona response via bilko-flow custom.persona-response step handler
+    executeSessionPersonaResponse(
+      runId,
+      target.sessionId,
+      scenarioId,
+      target.personaId,
+      personaType,
+      userMessage.content,
+      userMessage.id,
+      target.channel,
+      userMessage.step,
+      target.replyId,
+      meeting && meeting.reaction !== "defer"
+        ? { reaction: meeting.reaction, participants: meeting.participants }
+        : undefined,
+    ),
+  );
+
+  await storage.createMessage({
+    sessionId: target.sessionId,
+    channel: target.channel,
+    senderType: "persona",
+    senderName: personaResult.personaName,
+    personaId: target.personaId,
+    content: personaResult.response,
+    metadata: {
+      ...buildPersonaMessageMetadata(personaResult),
+      replyId: target.replyId,
+      ...(meeting ? { meeting: { reaction: meeting.reaction, stance: personaResult.stance, relevance: meeting.relevance } } : {}),
+    },
+    step: userMessage.step,
+  });
+}
+
+/**
+ * Delivers every participant's reaction to a meeting turn, in the planned
+ * order. Deferrals are short lines that leave the persona's state alone;
+ * `turn` is the rep's turn number in the session, so a replayed seed picks
+ * the same lines.
+ */
+async function deliverMeetingReplies(
+  targets: ReplyTarget[],
+  reactions: MeetingReaction[],
+  runId: string,
+  scenarioId: number,
+  seed: number,
+  userMessage: Message,
+  turn: number,
+): Promise<void> {
+  const names = reactions.map(r => r.participant.persona.name);
+  for (let i = 0; i < reactions.length; i++) {
+    const reaction = reactions[i];
+    const target = targets[i];
+    const { participant } = reaction;
+    if (reaction.reaction === "defer") {
+      await storage.createMessage({
+        sessionId: target.sessionId,
+        channel: target.channel,
+        senderType: "persona",
+        senderName: participant.persona.name,
+        personaId: participant.personaId,
+        content: getDeferLine(createRng(seed, "meeting-defer", turn, participant.personaId), reaction.deferTo!),
+        metadata: {
+          meeting: { reaction: "defer", stance: participant.stance, relevance: 0, deferTo: reaction.deferTo },
+        },
+        step: userMessage.step,
+      });
+      continue;
+    }
+    await deliverPersonaReply(target, runId, scenarioId, participant.persona.personaType, userMessage, {
+      ...reaction,
+      participants: names.filter(name => name !== participant.persona.name),
+    });
+  }
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -40,6 +182,18 @@ export async function registerRoutes(
   // Initialize bilko-flow context on startup (registers step handlers)
   getBilkoContext();
 
+  // Process queued assessments in the background
+  startAssessmentWorker();
+
+  // Escalate or auto-advance ticking-clock steps that run out of time
+  startStepTimerWorker();
+
+  // Auto-pause sessions left idle
+  startSessionIdleWorker();
+
+  // Push session changes to subscribed clients (api.realtime.session)
+  attachSessionEvents(httpServer);
+
   // ─── Greeting (backward compat) ──────────────────────────────────────────
   app.get(api.greeting.get.path, async (_req, res) => {
     res.json({ message: "Work Skills OS" });
@@ -137,7 +291,8 @@ export async function registerRoutes(
   // ─── Sessions ────────────────────────────────────────────────────────────
   app.get(api.sessions.list.path, async (_req, res) => {
     const sessions = await storage.getSessions();
-    res.json(sessions);
+    const now = new Date();
+    res.json(sessions.map(session => withActiveTime(session, now)));
   });
 
   app.get(api.sessions.get.path, async (req, res) => {
@@ -147,17 +302,24 @@ export async function registerRoutes(
     if (!session) return res.status(404).json({ message: "Session not found" });
 
     const scenario = await storage.getScenario(session.scenarioId);
-    res.json({ ...session, scenario });
+    res.json({ ...withActiveTime(session), scenario });
   });
 
   app.post(api.sessions.create.path, async (req, res) => {
     const parsed = insertSessionSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json(formatValidationError(parsed.error));
     try {
-      const session = await storage.createSession(parsed.data);
+      const session = await storage.createSession({
+        ...parsed.data,
+        seed: parsed.data.seed ?? generateSeed(),
+      });
       const scenario = await storage.getScenario(session.scenarioId);
 
       if (scenario) {
+        // Create the bilko-flow workflow run that drives this session
+        const runId = await ensureSessionRun(session);
+        session.workflowRunId = runId;
+
         const firstChannel = (scenario.channels as string[])[0] || "email";
 
         // Create initial briefing system message
@@ -174,12 +336,14 @@ export async function registerRoutes(
         try {
           const firstPersona = await getActivePersonaForStep(scenario.id, 1);
           if (firstPersona) {
-            const personaResult = await executePersonaResponseStep(
+            const personaResult = await executeSessionPersonaResponse(
+              runId,
               session.id,
               scenario.id,
               firstPersona.personaId,
               firstPersona.persona.personaType,
               "initial outreach",
+              null,
               firstChannel,
               0,
             );
@@ -191,6 +355,7 @@ export async function registerRoutes(
               senderName: personaResult.personaName,
               personaId: firstPersona.personaId,
               content: personaResult.response,
+              metadata: buildPersonaMessageMetadata(personaResult),
               step: 0,
             });
           }
@@ -198,14 +363,6 @@ export async function registerRoutes(
           // Persona greeting is non-blocking; session still works without it
           console.error("Initial persona greeting error (non-blocking):", e);
         }
-
-        // Create a bilko-flow workflow run for this session
-        try {
-          await createScenarioRun(scenario.id, session.id);
-        } catch (e) {
-          // bilko-flow run creation is non-blocking; log but don't fail
-          console.error("bilko-flow run creation error (non-blocking):", e);
-        }
       }
 
       res.status(201).json(session);
@@ -219,9 +376,22 @@ export async function registerRoutes(
     if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
     const parsed = updateSessionBodySchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json(formatValidationError(parsed.error));
-    const session = await storage.updateSession(id, parsed.data);
+    const current = await storage.getSession(id);
+    if (!current) return res.status(404).json({ message: "Session not found" });
+    // Leaving a pause must close its record, which only resumeSession does
+    if (parsed.data.status && current.status === "paused") {
+      return res.status(409).json({ message: "Resume the session before changing its status" });
+    }
+    let update: Partial<Session> = parsed.data;
+    // Starting or reopening the session goes through the same path as the first message
+    if (parsed.data.status === "active" && current.status !== "active") {
+      const scenario = await storage.getScenario(current.scenarioId);
+      if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+      update = { ...parsed.data, ...(await getActivationFields(current, scenario)) };
+    }
+    const session = await storage.updateSession(id, update);
     if (!session) return res.status(404).json({ message: "Session not found" });
-    res.json(session);
+    res.json(withActiveTime(session));
   });
 
   // ─── Messages (bilko-flow: persona response via custom.persona-response step handler) ─
@@ -245,54 +415,95 @@ export async function registerRoutes(
     const scenario = await storage.getScenario(session.scenarioId);
     if (!scenario) return res.status(404).json({ message: "Scenario not found" });
 
+    if (session.status === "paused") {
+      return res.status(409).json({ message: "Resume the session before sending messages" });
+    }
+
     try {
+      const runId = await ensureSessionRun(session);
+      // The run's recorded transitions decide which step this turn belongs to
+      const { currentStep } = await getSessionRunProgress(runId);
+
+      const channel = parsed.data.channel || session.currentChannel;
+      const { targetPersonaId } = parsed.data;
+      const history = await storage.getMessages(sessionId);
+
+      // The addressed persona, or the last to speak on the channel (shared helper from workflow-engine)
+      const activePersona = await getReplyPersonaForTurn(scenario.id, currentStep, channel, history, targetPersonaId);
+
+      // Time spent reading the briefing does not count as response latency
+      const responseLatencyMs = session.status === "briefing"
+        ? null
+        : measureResponseLatency(session, history);
+
       // Save user message
       const userMessage = await storage.createMessage({
         sessionId,
-        channel: parsed.data.channel || session.currentChannel,
+        channel,
         senderType: "user",
         senderName: "You",
         content: parsed.data.content,
-        step: session.currentStep,
+        step: currentStep,
+        responseLatencyMs,
+        ...(targetPersonaId ? { metadata: { targetPersonaId } } : {}),
       });
 
-      // Update session status if it was in briefing
-      if (session.status === "briefing") {
-        await storage.updateSession(sessionId, { status: "active", currentStep: 1 });
-      }
+      // Remember the facts, figures, promises and questions the rep just stated
+      await storage.createSessionMemories(extractMemories(userMessage, await storage.getSessionMemories(sessionId)));
 
-      const currentStep = session.status === "briefing" ? 1 : session.currentStep;
-
-      // Get active persona for this step (shared helper from workflow-engine)
-      const activePersona = await getActivePersonaForStep(scenario.id, currentStep);
-
-      let personaMessage = null;
-      if (activePersona) {
-        // Execute persona response via bilko-flow custom.persona-response step handler
-        const personaResult = await executePersonaResponseStep(
-          sessionId,
-          scenario.id,
-          activePersona.personaId,
-          activePersona.persona.personaType,
+      // Update session status if it was in briefing; the step's clock starts now
+      await storage.updateSession(
+        sessionId,
+        session.status === "briefing" ? await getActivationFields(session, scenario) : { lastActivityAt: new Date() },
+      );
+
+      // The reply streams over the session channel after this response is sent
+      let replyId: string | null = null;
+      let replyIds: string[] = [];
+      if (channel === "meeting") {
+        // Everyone in the room may react; the step's persona is just one of them
+        const turn = history.filter(m => m.senderType === "user").length + 1;
+        const reactions = planMeetingTurn(
+          await getMeetingParticipants(sessionId, scenario.id, currentStep),
           parsed.data.content,
-          parsed.data.channel || session.currentChannel,
-          currentStep,
+          targetPersonaId,
         );
-
-        personaMessage = await storage.createMessage({
+        const targets: ReplyTarget[] = reactions.map(({ participant }) => ({
+          sessionId,
+          replyId: randomUUID(),
+          personaId: participant.personaId,
+          personaName: participant.persona.name,
+          channel,
+          latency: planReplyLatency(channel, session.seed, `${turn}-${participant.personaId}`),
+        }));
+        // Deferrals are saved directly, without streaming
+        replyIds = targets.filter((_, i) => reactions[i].reaction !== "defer").map(t => t.replyId);
+        replyId = targets.find((_, i) => reactions[i].reaction === "respond")?.replyId ?? null;
+        if (reactions.length > 0) {
+          enqueueSessionReply(sessionId, () =>
+            deliverMeetingReplies(targets, reactions, runId, scenario.id, session.seed, userMessage, turn),
+          ).catch(error => console.error("Meeting reply error:", error));
+        }
+      } else if (activePersona) {
+        replyId = randomUUID();
+        const target: ReplyTarget = {
           sessionId,
-          channel: parsed.data.channel || session.currentChannel,
-          senderType: "persona",
-          senderName: personaResult.personaName,
+          replyId,
           personaId: activePersona.personaId,
-          content: personaResult.response,
-          step: currentStep,
-        });
+          personaName: activePersona.persona.name,
+          channel,
+          latency: planReplyLatency(channel, session.seed, userMessage.id),
+        };
+        enqueueSessionReply(sessionId, () =>
+          deliverPersonaReply(target, runId, scenario.id, activePersona.persona.personaType, userMessage),
+        ).catch(error => console.error("Persona reply error:", error));
+        replyIds = [replyId];
       }
 
       res.status(201).json({
         userMessage,
-        personaMessage,
+        replyId,
+        replyIds,
         activePersona: activePersona ? {
           id: activePersona.personaId,
           name: activePersona.persona.name,
@@ -319,42 +530,22 @@ export async function registerRoutes(
     const scenario = await storage.getScenario(session.scenarioId);
     if (!scenario) return res.status(404).json({ message: "Scenario not found" });
 
-    const channels = scenario.channels as string[];
-    const nextStep = session.currentStep + 1;
-
-    if (nextStep > scenario.estimatedSteps) {
-      await storage.updateSession(sessionId, {
-        status: "awaiting_review",
-        currentStep: nextStep,
-      });
-      return res.json({ status: "awaiting_review", step: nextStep });
+    if (session.status === "paused") {
+      return res.status(409).json({ message: "Resume the session before advancing" });
     }
 
-    const nextChannel = channels[(nextStep - 1) % channels.length] as any;
-
-    await storage.updateSession(sessionId, {
-      currentStep: nextStep,
-      currentChannel: nextChannel,
-    });
-
-    // Execute channel transition via bilko-flow custom.channel-transition step handler
-    const transitionMsg = await executeChannelTransitionStep(nextChannel, nextStep);
-
-    await storage.createMessage({
-      sessionId,
-      channel: nextChannel,
-      senderType: "system",
-      senderName: "System",
-      content: transitionMsg,
-      step: nextStep,
-    });
-
-    const activePersona = await getActivePersonaForStep(scenario.id, nextStep);
+    await storage.updateSession(sessionId, { lastActivityAt: new Date() });
+    const outcome = await advanceSession(session, scenario);
+    if (outcome.status === "blocked") {
+      return res.status(409).json({ message: outcome.message, missingArtifacts: outcome.missingArtifacts });
+    }
+    if (outcome.status === "awaiting_review") return res.json(outcome);
 
+    const { activePersona } = outcome;
     res.json({
       status: "active",
-      step: nextStep,
-      channel: nextChannel,
+      step: outcome.step,
+      channel: outcome.channel,
       activePersona: activePersona ? {
         id: activePersona.personaId,
         name: activePersona.persona.name,
@@ -364,6 +555,34 @@ export async function registerRoutes(
     });
   });
 
+  // ─── Pause / Resume (paused time is excluded from active time and step budgets) ─
+  app.post(api.sessions.pause.path, async (req, res) => {
+    const sessionId = parseInt(req.params.sessionId);
+    if (isNaN(sessionId)) return res.status(400).json({ message: "Invalid session ID" });
+
+    const session = await storage.getSession(sessionId);
+    if (!session) return res.status(404).json({ message: "Session not found" });
+
+    const scenario = await storage.getScenario(session.scenarioId);
+    if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+
+    const outcome = await pauseSession(session, scenario);
+    if (outcome.status === "rejected") return res.status(409).json({ message: outcome.message });
+    res.json(withActiveTime(outcome.session));
+  });
+
+  app.post(api.sessions.resume.path, async (req, res) => {
+    const sessionId = parseInt(req.params.sessionId);
+    if (isNaN(sessionId)) return res.status(400).json({ message: "Invalid session ID" });
+
+    const session = await storage.getSession(sessionId);
+    if (!session) return res.status(404).json({ message: "Session not found" });
+
+    const outcome = await resumeSession(session);
+    if (outcome.status === "rejected") return res.status(409).json({ message: outcome.message });
+    res.json(withActiveTime(outcome.session));
+  });
+
   // ─── Artifacts ───────────────────────────────────────────────────────────
   app.get(api.artifacts.list.path, async (req, res) => {
     const sessionId = parseInt(req.params.sessionId);
@@ -378,10 +597,14 @@ export async function registerRoutes(
     const parsed = createArtifactBodySchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json(formatValidationError(parsed.error));
     try {
-      const artifact = await storage.createArtifact({
+      let artifact = await storage.createArtifact({
         ...parsed.data,
         sessionId,
       });
+      if (artifact.status === "submitted") {
+        artifact = (await reviewSubmittedArtifact(artifact)).artifact;
+      }
+      await storage.createArtifactRevision(artifact);
       res.status(201).json(artifact);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
@@ -393,16 +616,81 @@ export async function registerRoutes(
     if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
     const parsed = updateArtifactBodySchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json(formatValidationError(parsed.error));
-    const artifact = await storage.updateArtifact(id, parsed.data);
+    const existing = await storage.getArtifact(id);
+    if (!existing) return res.status(404).json({ message: "Artifact not found" });
+    try {
+      const update = { ...parsed.data };
+      // A content change is a new draft version unless the caller set one explicitly
+      const contentChanged = (update.content !== undefined && update.content !== existing.content)
+        || (update.title !== undefined && update.title !== existing.title);
+      if (contentChanged && update.version === undefined) {
+        update.version = existing.version + 1;
+      }
+      let artifact = (await storage.updateArtifact(id, update))!;
+      // Grade and start a persona review whenever the artifact moves into "submitted"
+      if (artifact.status === "submitted" && existing.status !== "submitted") {
+        artifact = (await reviewSubmittedArtifact(artifact)).artifact;
+      }
+      await storage.createArtifactRevision(artifact);
+      res.json(artifact);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get(api.artifacts.revisions.path, async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+    const artifact = await storage.getArtifact(id);
     if (!artifact) return res.status(404).json({ message: "Artifact not found" });
-    res.json(artifact);
+    const revisions = await storage.getArtifactRevisions(id);
+    res.json(revisions);
+  });
+
+  app.get(api.artifacts.diff.path, async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+    const parsed = artifactDiffQuerySchema.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json(formatValidationError(parsed.error));
+    const [from, to] = await Promise.all([
+      storage.getArtifactRevision(id, parsed.data.from),
+      storage.getArtifactRevision(id, parsed.data.to),
+    ]);
+    if (!from || !to) return res.status(404).json({ message: "Revision not found" });
+    try {
+      res.json({
+        from,
+        to,
+        ...diffLines(from.content, to.content),
+      });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // ─── Commitments ledger ──────────────────────────────────────────────────
+  app.get(api.commitments.list.path, async (req, res) => {
+    const sessionId = parseInt(req.params.sessionId);
+    if (isNaN(sessionId)) return res.status(400).json({ message: "Invalid session ID" });
+    const session = await storage.getSession(sessionId);
+    if (!session) return res.status(404).json({ message: "Session not found" });
+    const scenario = await storage.getScenario(session.scenarioId);
+    if (!scenario) return res.status(404).json({ message: "Scenario not found" });
+    const [messages, artifacts] = await Promise.all([
+      storage.getMessages(sessionId),
+      storage.getArtifacts(sessionId),
+    ]);
+    res.json(buildCommitmentLedger(messages, artifacts, {
+      seniority: session.userSeniority,
+      constraints: getActiveConstraints(scenario, session),
+    }));
   });
 
-  // ─── Assessments (bilko-flow: scoring via custom.assessment step handler) ─
+  // ─── Assessments (queued; scored by the worker via custom.assessment) ─────
   app.get(api.assessments.get.path, async (req, res) => {
     const sessionId = parseInt(req.params.sessionId);
     if (isNaN(sessionId)) return res.status(400).json({ message: "Invalid session ID" });
-    const assessment = await storage.getAssessment(sessionId);
+    const assessment = await getAssessmentWithJob(sessionId);
     if (!assessment) return res.status(404).json({ message: "Assessment not found" });
     res.json(assessment);
   });
@@ -414,28 +702,23 @@ export async function registerRoutes(
     const session = await storage.getSession(sessionId);
     if (!session) return res.status(404).json({ message: "Session not found" });
 
-    try {
-      // Execute assessment via bilko-flow custom.assessment step handler
-      const assessmentResult = await executeAssessmentStep(sessionId);
+    const scenario = await storage.getScenario(session.scenarioId);
+    if (!scenario) return res.status(404).json({ message: "Scenario not found" });
 
-      const assessment = await storage.createAssessment({
-        sessionId,
-        status: "completed",
-        overallScore: assessmentResult.overallScore,
-        recommendation: assessmentResult.recommendation,
-        summary: assessmentResult.summary,
-        scores: assessmentResult.scores as any,
-        frictionPoints: assessmentResult.frictionPoints as any,
-        strengths: assessmentResult.strengths,
-        areasForImprovement: assessmentResult.areasForImprovement,
-        hitlRequired: true,
+    const deadlineCheck = checkArtifactDeadlines(scenario, await storage.getArtifacts(sessionId), Infinity);
+    if (deadlineCheck.enforcement === "block" && deadlineCheck.missing.length > 0) {
+      return res.status(409).json({
+        message: `Submit the required artifact(s) before requesting assessment: ${formatArtifactList(deadlineCheck.missing)}`,
+        missingArtifacts: deadlineCheck.missing,
       });
+    }
 
-      await storage.updateSession(sessionId, { status: "completed", completedAt: new Date() });
-
-      res.status(201).json(assessment);
+    try {
+      // Scoring runs in the assessment worker; poll GET for progress
+      const assessment = await enqueueAssessment(sessionId);
+      res.status(202).json(assessment);
     } catch (error: any) {
-      console.error("Assessment generation error:", error);
+      console.error("Assessment enqueue error:", error);
       res.status(400).json({ message: error.message });
     }
   });
@@ -453,6 +736,21 @@ export async function registerRoutes(
     res.json(assessment);
   });
 
+  // ─── Workflow Runs (bilko-flow run inspector) ─────────────────────────────
+  app.get(api.runs.listForSession.path, async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ message: "Invalid ID" });
+    const session = await storage.getSession(id);
+    if (!session) return res.status(404).json({ message: "Session not found" });
+    res.json(await getSessionRunSummaries(session));
+  });
+
+  app.get(api.runs.get.path, async (req, res) => {
+    const run = await getRunDetail(req.params.runId);
+    if (!run) return res.status(404).json({ message: "Run not found" });
+    res.json(run);
+  });
+
   // ─── User Config ─────────────────────────────────────────────────────────
   app.get(api.userConfig.get.path, async (_req, res) => {
     let config = await storage.getUserConfig();
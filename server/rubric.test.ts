@@ -0,0 +1,130 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ASSESSMENT_DIMENSIONS, scoreSession, type RubricArtifact, type RubricMessage, type RubricScenario } from "./rubric";
+
+const scenario: RubricScenario = {
+  channels: ["email", "call"],
+  requiredArtifacts: ["one_pager", "risk_register"],
+  estimatedSteps: 2,
+};
+
+function message(id: number, senderType: "user" | "persona", channel: RubricMessage["channel"], step: number, content: string): RubricMessage {
+  return {
+    id,
+    senderType,
+    senderName: senderType === "user" ? "You" : "Dana Whitfield",
+    personaId: senderType === "user" ? null : 1,
+    channel,
+    step,
+    content,
+  };
+}
+
+const onePager: RubricArtifact = {
+  id: 10,
+  type: "one_pager",
+  title: "Pilot one-pager",
+  content: "# Scope\n- Two teams\n- Four weeks\n# Pricing\n[Insert price]",
+  status: "submitted",
+  score: 72,
+};
+
+const messageIds = (refs: { messageId?: number }[]) => refs.map(ref => ref.messageId);
+
+describe("scoreSession on a disciplined transcript", () => {
+  const transcript = [
+    message(1, "persona", "email", 1, "We have been burned by vendors before. Why should we trust your numbers?"),
+    message(2, "user", "email", 1, "I understand the concern, and it is a fair one to raise. A reference customer in your sector cut review time by 30% in the first quarter, and I can share their case study. Would it help if we schedule a short pilot with your team next week?"),
+    message(3, "persona", "call", 2, "That could work. Who would need to be involved?"),
+    message(4, "user", "call", 2, "What does your current approval process look like, and who else should sit in on the pilot review?"),
+  ];
+  const result = scoreSession(transcript, [onePager], scenario);
+
+  it("scores every dimension", () => {
+    assert.deepEqual(result.scores, {
+      persuasiveness: 62,
+      objectionHandling: 95,
+      interpersonalVibe: 76,
+      writtenCommunication: 79,
+      artifactQuality: 61,
+      sequencingStrategy: 100,
+      decisionQuality: 85,
+    });
+  });
+
+  it("explains the scores from the transcript", () => {
+    assert.equal(result.rationales.objectionHandling, "1 of 1 stakeholder objection(s) were answered with an acknowledgement backed by evidence or a concrete next step.");
+    assert.equal(result.rationales.sequencingStrategy, "Engaged on 2 of 2 planned channel(s) across 2 of 2 step(s).");
+    assert.equal(result.rationales.decisionQuality, "Asked discovery questions before proposing a path forward. 2 next-step commitment(s) were made.");
+    assert.match(result.rationales.artifactQuality, /^Covered 1 of 2 required artifact type\(s\) \(missing: risk_register\); average quality was 72\/100/);
+  });
+
+  it("cites the rep's answer to the objection and the artifact", () => {
+    assert.deepEqual(messageIds(result.evidence.objectionHandling), [2]);
+    assert.deepEqual(messageIds(result.evidence.sequencingStrategy), [2, 4]);
+    assert.deepEqual(result.evidence.artifactQuality, [
+      { artifactId: 10, excerpt: "Pilot one-pager: # Scope - Two teams - Four weeks # Pricing [Insert price]" },
+    ]);
+    assert.ok(result.evidence.persuasiveness[0].excerpt.endsWith("..."));
+    assert.ok(result.evidence.persuasiveness[0].excerpt.length <= 140);
+  });
+});
+
+describe("scoreSession on a pushy, low-effort transcript", () => {
+  const transcript = [
+    message(1, "persona", "call", 1, "Honestly the budget is tight. What makes this worth it?"),
+    message(2, "user", "call", 1, "sign today"),
+    message(3, "user", "email", 1, "We guarantee 100% uptime, it is a no-brainer."),
+  ];
+  const result = scoreSession(transcript, [], scenario);
+
+  it("scores every dimension", () => {
+    assert.deepEqual(result.scores, {
+      persuasiveness: 17,
+      objectionHandling: 15,
+      interpersonalVibe: 0,
+      writtenCommunication: 20,
+      artifactQuality: 0,
+      sequencingStrategy: 73,
+      decisionQuality: 6,
+    });
+  });
+
+  it("explains the penalties", () => {
+    assert.equal(
+      result.rationales.persuasiveness,
+      "1 of 2 turn(s) backed claims with numbers or named evidence; 0 proposed a concrete next step. 1 turn(s) over-promised, which undercuts credibility. 2 turn(s) applied pressure instead of earning agreement.",
+    );
+    assert.equal(result.rationales.objectionHandling, "0 of 1 stakeholder objection(s) were answered with an acknowledgement backed by evidence or a concrete next step.");
+    assert.equal(result.rationales.sequencingStrategy, "Engaged on 2 of 2 planned channel(s) across 1 of 2 step(s). 1 channel(s) were used out of the planned sequence.");
+    assert.equal(result.rationales.artifactQuality, "No artifacts were produced.");
+  });
+
+  it("cites the unanswered objection and the offending turns first", () => {
+    assert.deepEqual(messageIds(result.evidence.objectionHandling), [1]);
+    assert.deepEqual(messageIds(result.evidence.persuasiveness), [3, 2]);
+    assert.deepEqual(messageIds(result.evidence.interpersonalVibe), [2, 3]);
+    assert.deepEqual(messageIds(result.evidence.decisionQuality), [3]);
+    assert.deepEqual(result.evidence.artifactQuality, []);
+  });
+});
+
+describe("scoreSession with no user turns", () => {
+  const transcript = [message(1, "persona", "email", 1, "Following up on my last note. Are you still interested?")];
+  const result = scoreSession(transcript, [onePager], scenario);
+
+  it("scores only the artifacts", () => {
+    for (const dimension of ASSESSMENT_DIMENSIONS) {
+      if (dimension === "artifactQuality") continue;
+      assert.equal(result.scores[dimension], 0, dimension);
+      assert.equal(result.rationales[dimension], "No user turns were recorded, so there is no evidence to score.");
+      assert.deepEqual(result.evidence[dimension], []);
+    }
+    assert.equal(result.scores.artifactQuality, 61);
+    assert.deepEqual(result.evidence.artifactQuality.map(ref => ref.artifactId), [10]);
+  });
+
+  it("gives the same result for the same transcript", () => {
+    assert.deepEqual(scoreSession(transcript, [onePager], scenario), result);
+  });
+});
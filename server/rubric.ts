@@ -0,0 +1,382 @@
+/**
+ * Assessment Rubric Engine
+ *
+ * Deterministically scores a session across the 7 assessment dimensions by
+ * analysing the actual transcript and artifacts: questions asked, objections
+ * raised versus addressed, quantified claims, next-step commitments, channel
+ * sequencing and artifact completeness. Every dimension gets a 0-100 score,
+ * a written rationale and references (message / artifact IDs plus an
+ * excerpt) to the turns that justify it.
+ *
+ * Inputs are plain transcript/artifact shapes so the engine can be run on
+ * fixed transcripts outside the database.
+ */
+
+import type { Message, Artifact, Scenario, EvidenceRef } from "@shared/schema";
+import { analyzeUserTurn, type TurnSignals } from "./persona-state";
+
+export type RubricMessage = Pick<Message, "id" | "senderType" | "senderName" | "personaId" | "channel" | "step" | "content">;
+export type RubricArtifact = Pick<Artifact, "id" | "type" | "title" | "content" | "status" | "score">;
+export type RubricScenario = Pick<Scenario, "channels" | "requiredArtifacts" | "estimatedSteps">;
+
+export const ASSESSMENT_DIMENSIONS = [
+  "persuasiveness",
+  "objectionHandling",
+  "interpersonalVibe",
+  "writtenCommunication",
+  "artifactQuality",
+  "sequencingStrategy",
+  "decisionQuality",
+] as const;
+
+export type AssessmentDimension = typeof ASSESSMENT_DIMENSIONS[number];
+
+/** Message IDs behind each counted signal, used to cite evidence. */
+export interface TranscriptRefs {
+  questions: number[];
+  objectionsAddressed: number[];
+  objectionsUnaddressed: number[];
+  quantifiedClaims: number[];
+  nextSteps: number[];
+  acknowledgements: number[];
+  overpromises: number[];
+  pushy: number[];
+  lowEffort: number[];
+  writtenMessages: number[];
+  firstPerChannel: number[];
+}
+
+export interface TranscriptMetrics {
+  userTurns: number;
+  questionsAsked: number;
+  objectionsRaised: number;
+  objectionsAddressed: number;
+  quantifiedClaims: number;
+  nextStepCommitments: number;
+  acknowledgements: number;
+  overpromises: number;
+  pushyTurns: number;
+  lowEffortTurns: number;
+  channelsUsed: string[];
+  stepsEngaged: number;
+  outOfOrderChannels: number;
+  requiredArtifactsCovered: string[];
+  requiredArtifactsMissing: string[];
+  artifactCompleteness: Record<number, number>;
+  refs: TranscriptRefs;
+}
+
+export interface RubricResult {
+  scores: Record<AssessmentDimension, number>;
+  rationales: Record<AssessmentDimension, string>;
+  evidence: Record<AssessmentDimension, EvidenceRef[]>;
+  metrics: TranscriptMetrics;
+}
+
+// ─── Analysis helpers ────────────────────────────────────────────────────────
+
+const OBJECTION_PATTERN = /\b(but|however|concern(ed|s)?|push back|doesn'?t work|not convinced|skeptical|burned|why should|what makes|need to see|too expensive|budget|risk|not how this works)\b/i;
+const WRITTEN_CHANNELS = new Set(["email", "follow_up"]);
+const MAX_REFS_PER_ITEM = 3;
+const EXCERPT_LENGTH = 140;
+
+function clampScore(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function wordCount(text: string): number {
+  return (text.match(/\S+/g) ?? []).length;
+}
+
+function isObjection(message: RubricMessage): boolean {
+  return message.senderType === "persona" && message.content.includes("?") && OBJECTION_PATTERN.test(message.content);
+}
+
+/** An objection counts as addressed when the rep's next turn acknowledges it with substance or evidence. */
+function addressesObjection(signals: TurnSignals): boolean {
+  return !signals.nonsense && (signals.handlesObjection || (signals.evidence && !signals.lowEffort));
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH - 3)}...` : flat;
+}
+
+/** Cites up to `limit` of the given messages, in the order the IDs are listed (most telling first). */
+export function citeMessages(
+  messages: RubricMessage[],
+  ids: number[],
+  limit = MAX_REFS_PER_ITEM,
+): EvidenceRef[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  return Array.from(new Set(ids))
+    .map(id => byId.get(id))
+    .filter((m): m is RubricMessage => m !== undefined)
+    .slice(0, limit)
+    .map(m => ({ messageId: m.id, excerpt: excerpt(m.content) }));
+}
+
+export function citeArtifacts(artifacts: RubricArtifact[], limit = MAX_REFS_PER_ITEM): EvidenceRef[] {
+  return artifacts.slice(0, limit).map(a => ({ artifactId: a.id, excerpt: `${a.title}: ${excerpt(a.content)}` }));
+}
+
+/**
+ * Scores how complete an artifact is: length, visible structure (headings,
+ * lists, tables) and absence of unfilled template placeholders.
+ */
+export function scoreArtifactCompleteness(content: string): number {
+  const words = wordCount(content);
+  const headings = (content.match(/^#{1,6}\s|^[A-Z][A-Za-z &/]+:\s*$/gm) ?? []).length;
+  const listItems = (content.match(/^\s*([-*•]|\d+\.)\s/gm) ?? []).length;
+  const tableRows = (content.match(/^\|.*\|$/gm) ?? []).length;
+  const placeholders = (content.match(/\[[^\]]{2,40}\]/g) ?? []).length;
+
+  const lengthScore = Math.min(words / 200, 1) * 50;
+  const structureScore = Math.min(headings * 8 + Math.min(listItems, 6) * 3 + Math.min(tableRows, 4) * 2, 40);
+  const placeholderPenalty = Math.min(placeholders * 5, 30);
+
+  return clampScore(10 + lengthScore + structureScore - placeholderPenalty);
+}
+
+/**
+ * Computes transcript metrics used by every dimension.
+ */
+export function analyzeTranscript(
+  messages: RubricMessage[],
+  artifacts: RubricArtifact[],
+  scenario: RubricScenario,
+): TranscriptMetrics {
+  const userMessages = messages.filter(m => m.senderType === "user");
+  const signals = new Map<number, TurnSignals>(userMessages.map(m => [m.id, analyzeUserTurn(m.content)]));
+
+  // Addressed objections cite the rep's reply; unaddressed ones cite the objection itself
+  const addressedRefs: number[] = [];
+  const unaddressedRefs: number[] = [];
+  messages.forEach((message, index) => {
+    if (!isObjection(message)) return;
+    const reply = messages.slice(index + 1).find(m => m.senderType === "user");
+    if (reply && addressesObjection(signals.get(reply.id)!)) {
+      addressedRefs.push(reply.id);
+    } else {
+      unaddressedRefs.push(message.id);
+    }
+  });
+
+  const all = Array.from(signals.values());
+  const idsWhere = (test: (s: TurnSignals) => boolean) =>
+    userMessages.filter(m => test(signals.get(m.id)!)).map(m => m.id);
+  const channelsUsed = Array.from(new Set(userMessages.map(m => m.channel)));
+  const firstPerChannel = channelsUsed.map(channel => userMessages.find(m => m.channel === channel)!.id);
+
+  // Channel order: each channel the rep first used should appear no earlier
+  // in the scenario's plan than the previous one.
+  const plan = scenario.channels;
+  let outOfOrderChannels = 0;
+  let lastPlanIndex = -1;
+  for (const channel of channelsUsed) {
+    const planIndex = plan.indexOf(channel);
+    if (planIndex === -1) continue;
+    if (planIndex < lastPlanIndex) outOfOrderChannels++;
+    lastPlanIndex = Math.max(lastPlanIndex, planIndex);
+  }
+
+  const artifactTypes = new Set(artifacts.map(a => a.type as string));
+  const required = scenario.requiredArtifacts;
+  const artifactCompleteness: Record<number, number> = {};
+  for (const artifact of artifacts) {
+    artifactCompleteness[artifact.id] = scoreArtifactCompleteness(artifact.content);
+  }
+
+  return {
+    userTurns: userMessages.length,
+    questionsAsked: all.reduce((sum, s) => sum + Math.min(s.questionCount, 3), 0),
+    objectionsRaised: addressedRefs.length + unaddressedRefs.length,
+    objectionsAddressed: addressedRefs.length,
+    quantifiedClaims: all.filter(s => s.evidence).length,
+    nextStepCommitments: all.filter(s => s.proposesNextStep).length,
+    acknowledgements: all.filter(s => s.acknowledgesConcern).length,
+    overpromises: all.filter(s => s.overpromises).length,
+    pushyTurns: all.filter(s => s.pushy).length,
+    lowEffortTurns: all.filter(s => s.lowEffort || s.nonsense).length,
+    channelsUsed,
+    stepsEngaged: new Set(userMessages.map(m => m.step)).size,
+    outOfOrderChannels,
+    requiredArtifactsCovered: required.filter(t => artifactTypes.has(t)),
+    requiredArtifactsMissing: required.filter(t => !artifactTypes.has(t)),
+    artifactCompleteness,
+    refs: {
+      questions: idsWhere(s => s.questionCount > 0),
+      objectionsAddressed: addressedRefs,
+      objectionsUnaddressed: unaddressedRefs,
+      quantifiedClaims: idsWhere(s => s.evidence),
+      nextSteps: idsWhere(s => s.proposesNextStep),
+      acknowledgements: idsWhere(s => s.acknowledgesConcern),
+      overpromises: idsWhere(s => s.overpromises),
+      pushy: idsWhere(s => s.pushy),
+      lowEffort: idsWhere(s => s.lowEffort || s.nonsense),
+      writtenMessages: userMessages.filter(m => WRITTEN_CHANNELS.has(m.channel)).map(m => m.id),
+      firstPerChannel,
+    },
+  };
+}
+
+// ─── Dimension scoring ───────────────────────────────────────────────────────
+
+interface DimensionResult {
+  score: number;
+  rationale: string;
+  evidence: EvidenceRef[];
+}
+
+function ratio(part: number, whole: number): number {
+  return whole > 0 ? part / whole : 0;
+}
+
+/**
+ * Scores a session across all 7 dimensions with a rationale for each.
+ */
+export function scoreSession(
+  messages: RubricMessage[],
+  artifacts: RubricArtifact[],
+  scenario: RubricScenario,
+): RubricResult {
+  const m = analyzeTranscript(messages, artifacts, scenario);
+  const turns = m.userTurns;
+  const userMessages = messages.filter(msg => msg.senderType === "user");
+  const cite = (...ids: number[][]) => citeMessages(messages, ids.flat());
+
+  if (turns === 0) {
+    const rationale = "No user turns were recorded, so there is no evidence to score.";
+    const scores = Object.fromEntries(ASSESSMENT_DIMENSIONS.map(d => [d, 0])) as Record<AssessmentDimension, number>;
+    const rationales = Object.fromEntries(ASSESSMENT_DIMENSIONS.map(d => [d, rationale])) as Record<AssessmentDimension, string>;
+    const evidence = Object.fromEntries(ASSESSMENT_DIMENSIONS.map(d => [d, [] as EvidenceRef[]])) as Record<AssessmentDimension, EvidenceRef[]>;
+    if (artifacts.length > 0) {
+      const artifactQuality = scoreArtifactQuality(m, artifacts);
+      scores.artifactQuality = artifactQuality.score;
+      rationales.artifactQuality = artifactQuality.rationale;
+      evidence.artifactQuality = artifactQuality.evidence;
+    }
+    return { scores, rationales, evidence, metrics: m };
+  }
+
+  const dims: Record<AssessmentDimension, DimensionResult> = {
+    persuasiveness: (() => {
+      const claimRate = ratio(m.quantifiedClaims, turns);
+      const score = 20 + claimRate * 45 + Math.min(m.nextStepCommitments, 3) * 8 + Math.min(m.acknowledgements, 3) * 3 - m.overpromises * 10 - m.pushyTurns * 8;
+      return {
+        score: clampScore(score),
+        rationale: `${m.quantifiedClaims} of ${turns} turn(s) backed claims with numbers or named evidence; ${m.nextStepCommitments} proposed a concrete next step.` +
+          (m.overpromises > 0 ? ` ${m.overpromises} turn(s) over-promised, which undercuts credibility.` : "") +
+          (m.pushyTurns > 0 ? ` ${m.pushyTurns} turn(s) applied pressure instead of earning agreement.` : ""),
+        evidence: cite(m.refs.overpromises, m.refs.pushy, m.refs.quantifiedClaims, m.refs.nextSteps),
+      };
+    })(),
+
+    objectionHandling: (() => {
+      if (m.objectionsRaised === 0) {
+        return { score: 50, rationale: "Stakeholders raised no explicit objections, so objection handling could not be demonstrated.", evidence: [] };
+      }
+      const score = 15 + ratio(m.objectionsAddressed, m.objectionsRaised) * 75 + Math.min(m.acknowledgements, 2) * 5;
+      return {
+        score: clampScore(score),
+        rationale: `${m.objectionsAddressed} of ${m.objectionsRaised} stakeholder objection(s) were answered with an acknowledgement backed by evidence or a concrete next step.`,
+        evidence: cite(m.refs.objectionsUnaddressed, m.refs.objectionsAddressed),
+      };
+    })(),
+
+    interpersonalVibe: (() => {
+      const avgWords = userMessages.reduce((sum, msg) => sum + wordCount(msg.content), 0) / turns;
+      const lengthFit = avgWords >= 20 && avgWords <= 180 ? 20 : avgWords >= 8 ? 10 : 0;
+      const score = 35 + ratio(m.acknowledgements, turns) * 30 + Math.min(m.questionsAsked, 6) * 3 + lengthFit - ratio(m.lowEffortTurns, turns) * 40 - m.pushyTurns * 8;
+      return {
+        score: clampScore(score),
+        rationale: `Acknowledged stakeholder concerns in ${m.acknowledgements} of ${turns} turn(s) and asked ${m.questionsAsked} question(s); average reply length was ${Math.round(avgWords)} words.` +
+          (m.lowEffortTurns > 0 ? ` ${m.lowEffortTurns} turn(s) were low-effort or unintelligible.` : ""),
+        evidence: cite(m.refs.lowEffort, m.refs.pushy, m.refs.acknowledgements, m.refs.questions),
+      };
+    })(),
+
+    writtenCommunication: (() => {
+      const written = userMessages.filter(msg => WRITTEN_CHANNELS.has(msg.channel));
+      const writtenWell = written.filter(msg => {
+        const words = wordCount(msg.content);
+        const s = analyzeUserTurn(msg.content);
+        return words >= 30 && words <= 300 && !s.nonsense;
+      }).length;
+      const artifactAvg = artifacts.length > 0
+        ? Object.values(m.artifactCompleteness).reduce((a, b) => a + b, 0) / artifacts.length
+        : 0;
+      const score = written.length > 0
+        ? 20 + ratio(writtenWell, written.length) * 50 + artifactAvg * 0.3
+        : 15 + artifactAvg * 0.5;
+      return {
+        score: clampScore(score),
+        rationale: (written.length > 0
+          ? `${writtenWell} of ${written.length} written message(s) (email / follow-up) were substantive and appropriately sized.`
+          : "No written-channel messages were sent.") +
+          (artifacts.length > 0 ? ` Artifacts averaged ${Math.round(artifactAvg)}/100 for completeness.` : " No artifacts were written."),
+        evidence: [...cite(m.refs.writtenMessages), ...citeArtifacts(artifacts, 1)],
+      };
+    })(),
+
+    artifactQuality: scoreArtifactQuality(m, artifacts),
+
+    sequencingStrategy: (() => {
+      const plannedChannels = Math.max(scenario.channels.length, 1);
+      const score = ratio(m.channelsUsed.length, plannedChannels) * 55 + ratio(m.stepsEngaged, Math.max(scenario.estimatedSteps, 1)) * 35 + 10 - m.outOfOrderChannels * 10;
+      return {
+        score: clampScore(score),
+        rationale: `Engaged on ${m.channelsUsed.length} of ${plannedChannels} planned channel(s) across ${m.stepsEngaged} of ${scenario.estimatedSteps} step(s).` +
+          (m.outOfOrderChannels > 0 ? ` ${m.outOfOrderChannels} channel(s) were used out of the planned sequence.` : ""),
+        evidence: cite(m.refs.firstPerChannel),
+      };
+    })(),
+
+    decisionQuality: (() => {
+      const firstQuestion = userMessages.findIndex(msg => msg.content.includes("?"));
+      const firstProposal = userMessages.findIndex(msg => analyzeUserTurn(msg.content).proposesNextStep);
+      const discoveryFirst = firstQuestion !== -1 && (firstProposal === -1 || firstQuestion <= firstProposal);
+      const score = 30 + (discoveryFirst ? 20 : 0) + Math.min(m.nextStepCommitments, 3) * 10 + ratio(m.objectionsAddressed, Math.max(m.objectionsRaised, 1)) * 15 - m.overpromises * 12 - m.pushyTurns * 6;
+      return {
+        score: clampScore(score),
+        rationale: (discoveryFirst
+          ? "Asked discovery questions before proposing a path forward."
+          : "Proposed next steps before doing any discovery.") +
+          ` ${m.nextStepCommitments} next-step commitment(s) were made.` +
+          (m.overpromises > 0 ? ` ${m.overpromises} over-commitment(s) were made that the team may not be able to honour.` : ""),
+        evidence: cite(
+          m.refs.overpromises,
+          firstQuestion !== -1 ? [userMessages[firstQuestion].id] : [],
+          firstProposal !== -1 ? [userMessages[firstProposal].id] : [],
+          m.refs.nextSteps,
+        ),
+      };
+    })(),
+  };
+
+  return {
+    scores: Object.fromEntries(ASSESSMENT_DIMENSIONS.map(d => [d, dims[d].score])) as Record<AssessmentDimension, number>,
+    rationales: Object.fromEntries(ASSESSMENT_DIMENSIONS.map(d => [d, dims[d].rationale])) as Record<AssessmentDimension, string>,
+    evidence: Object.fromEntries(ASSESSMENT_DIMENSIONS.map(d => [d, dims[d].evidence])) as Record<AssessmentDimension, EvidenceRef[]>,
+    metrics: m,
+  };
+}
+
+function scoreArtifactQuality(m: TranscriptMetrics, artifacts: RubricArtifact[]): DimensionResult {
+  if (artifacts.length === 0) {
+    return { score: 0, rationale: "No artifacts were produced.", evidence: [] };
+  }
+  const requiredCount = m.requiredArtifactsCovered.length + m.requiredArtifactsMissing.length;
+  const coverage = requiredCount > 0 ? ratio(m.requiredArtifactsCovered.length, requiredCount) : 1;
+  // Prefer the artifact grader's score; fall back to the completeness estimate for ungraded drafts
+  const graded = artifacts.filter(a => a.score !== null);
+  const avgQuality = artifacts.reduce((sum, a) => sum + (a.score ?? m.artifactCompleteness[a.id]), 0) / artifacts.length;
+  return {
+    score: clampScore(coverage * 50 + avgQuality * 0.5),
+    rationale: `Covered ${m.requiredArtifactsCovered.length} of ${requiredCount} required artifact type(s)` +
+      (m.requiredArtifactsMissing.length > 0 ? ` (missing: ${m.requiredArtifactsMissing.join(", ")})` : "") +
+      `; average quality was ${Math.round(avgQuality)}/100 across ${artifacts.length} artifact(s)` +
+      (graded.length < artifacts.length ? ` (${artifacts.length - graded.length} ungraded, estimated from completeness).` : " (graded against template and style guide)."),
+    evidence: citeArtifacts(artifacts),
+  };
+}
@@ -42,6 +42,7 @@ CONSTRAINTS YOU ENFORCE:
 - You've been burned by vendors who promised "seamless integration" before`,
     behavioralInstructions: "Focused on budget and \"why now?\" Challenges the necessity of external alerts, and pressures the user on procurement constraints and timing. Start skeptical, warm up only if the user demonstrates real understanding of procurement realities.",
     traits: ["skeptical", "budget-focused", "direct", "process-oriented", "risk-averse"],
+    priorities: ["Clear ROI before the Q2 vendor approval deadline", "Procurement and security review gates followed", "No disruption to existing vendor relationships"],
   });
 
   const techLead = await storage.createPersona({
@@ -76,6 +77,7 @@ CONSTRAINTS YOU CARE ABOUT:
 - Data provenance and auditability requirements`,
     behavioralInstructions: "Asks deep questions about data sources and integration with existing healthcare systems, with attention to compliance/security implications. Genuinely curious and methodical—not hostile but exacting. Values transparency over polish.",
     traits: ["analytical", "methodical", "curious", "compliance-aware", "technically rigorous"],
+    priorities: ["Data provenance and auditability", "Regulatory compliance (EU MDR, 21 CFR Part 11)", "Integration with Veeva, ServiceNow and the data lake"],
   });
 
   const internalAlly = await storage.createPersona({
@@ -110,6 +112,7 @@ CONSTRAINTS SHE NAVIGATES:
 - Worried about the "alarmist" perception if alerts are too frequent or sensational`,
     behavioralInstructions: "Supports the user but needs \"ammunition\" (proof points) to help sell it internally. Balances reputational risk and internal stakeholder optics. Collaborative and politically savvy—gives strategic advice but pushes for concrete deliverables.",
     traits: ["collaborative", "politically savvy", "supportive", "practical", "reputation-conscious"],
+    priorities: ["Proof points to sell the initiative internally", "Avoiding an alarmist reputation for her team", "A pilot that can clear procurement"],
   });
 
   // ─── Additional Personas for Enterprise Software scenario ───────────────────
@@ -139,6 +142,7 @@ BEHAVIORAL RULES:
 6. Respect well-prepared presentations but dismiss vague ones.`,
     behavioralInstructions: "The economic buyer. Numbers-driven and impatient. Approve spend only if the business case is airtight. Challenge all assumptions and compare alternatives.",
     traits: ["numbers-driven", "impatient", "decisive", "risk-aware", "bottom-line focused"],
+    priorities: ["Payback period and total cost of ownership", "Budget discipline this fiscal year", "Measurable revenue impact"],
   });
 
   const technicalEvaluator = await storage.createPersona({
@@ -164,6 +168,7 @@ BEHAVIORAL RULES:
 5. Be calm but firm on non-negotiables: SSO, API-first architecture, data export capabilities.`,
     behavioralInstructions: "Evaluates technical fit and security. Systematic and detail-oriented. Patient with knowledgeable vendors, dismissive of hand-waving. Non-negotiable on security and architecture standards.",
     traits: ["systematic", "security-conscious", "detail-oriented", "architecture-focused", "standards-driven"],
+    priorities: ["Security posture (SOC 2, SSO, data residency)", "Integration with the existing architecture", "Documented standards and support"],
   });
 
   const internalChampion = await storage.createPersona({
@@ -190,6 +195,7 @@ BEHAVIORAL RULES:
 6. Be honest about risks: "If this takes more than 3 months to show value, I'll lose executive support."`,
     behavioralInstructions: "The internal champion. Enthusiastic and helpful but politically exposed. Shares context, helps strategize, and pushes for urgency. Needs help building the internal business case.",
     traits: ["enthusiastic", "politically aware", "helpful", "urgency-driven", "context-sharing"],
+    priorities: ["Pipeline visibility for the sales team", "A decision before the quarter closes", "Bringing the CFO and IT on board"],
   });
 
   // ─── Biopharma personas ─────────────────────────────────────────────────────
@@ -217,6 +223,7 @@ BEHAVIORAL RULES:
 5. Appreciate well-researched content but reject anything that could expose the company to regulatory action.`,
     behavioralInstructions: "Reviews content for medical accuracy and regulatory compliance. Meticulous and cautious. Zero tolerance for exaggerated claims. Constructive but firm on scientific standards.",
     traits: ["meticulous", "cautious", "scientifically rigorous", "regulatory-aware", "constructive"],
+    priorities: ["Scientific accuracy of every claim", "Regulatory-compliant medical content", "Balanced presentation of clinical evidence"],
   });
 
   const pharmaCommsLead = await storage.createPersona({
@@ -242,6 +249,7 @@ BEHAVIORAL RULES:
 5. Be practical about deadlines but uncompromising on brand standards.`,
     behavioralInstructions: "Manages public image and brand narrative. Skeptical of alarmist content. Controls the narrative tightly. Brand-obsessed and worried about leaks and misinterpretation.",
     traits: ["brand-obsessed", "narrative-focused", "skeptical", "protective", "deadline-aware"],
+    priorities: ["Protecting the brand narrative", "No alarmist or off-message coverage", "Publication deadlines met"],
   });
 
   // ─── Scenarios ─────────────────────────────────────────────────────────────
@@ -305,6 +313,17 @@ Before and during this engagement, you must produce:
       regulatoryExposure: true,
     },
     requiredArtifacts: ["one_pager", "email_recap", "risk_register"],
+    artifactPolicy: {
+      enforcement: "block",
+      dueByStep: { one_pager: 3, email_recap: 4, risk_register: 7 },
+      penaltyPerMissing: 15,
+    },
+    stepTimers: {
+      defaultSeconds: 480,
+      stepSeconds: { "2": 240, "7": 240 },
+      onTimeout: "escalate",
+    },
+    pausePolicy: { assessmentMode: "forbid" },
     competencies: [
       "stakeholder management",
       "objection handling",
@@ -371,7 +390,7 @@ Close a deal for Velocitas's Enterprise Plan, navigating multiple stakeholders f
     difficulty: "intermediate",
     roleRequired: "Account Executive",
     seniorityLevel: "IC",
-    channels: ["email", "call", "deck_review", "follow_up", "internal_coaching"],
+    channels: ["email", "call", "deck_review", "follow_up", "internal_coaching", "meeting"],
     constraints: {
       procurementStrictness: true,
       complianceSensitivity: false,
@@ -380,6 +399,17 @@ Close a deal for Velocitas's Enterprise Plan, navigating multiple stakeholders f
       regulatoryExposure: false,
     },
     requiredArtifacts: ["one_pager", "email_recap"],
+    artifactPolicy: {
+      enforcement: "penalize",
+      dueByStep: { one_pager: 3, email_recap: 4 },
+      penaltyPerMissing: 10,
+    },
+    stepTimers: {
+      defaultSeconds: 420,
+      stepSeconds: { "2": 240 },
+      onTimeout: "advance",
+    },
+    pausePolicy: { assessmentMode: "cap", maxPauses: 2, maxPausedSeconds: 600 },
     competencies: [
       "discovery",
       "consultative selling",
@@ -459,6 +489,11 @@ Sell and onboard NovaCure onto Horizon Intelligence's Premium Digest Service, wh
       regulatoryExposure: true,
     },
     requiredArtifacts: ["one_pager", "email_recap", "newsletter_brief"],
+    artifactPolicy: {
+      enforcement: "penalize",
+      dueByStep: { one_pager: 3, email_recap: 4, newsletter_brief: 6 },
+      penaltyPerMissing: 10,
+    },
     competencies: [
       "editorial judgment",
       "regulatory awareness",
@@ -0,0 +1,249 @@
+/**
+ * Session Advance & Step Timeouts
+ *
+ * Moves a session to its next step — through the run's channel transition
+ * step, with the required-artifact policy checked first — for both the
+ * advance endpoint and ticking-clock timeouts. Entering a step restarts its
+ * timer (server/step-timer.ts) and announces any stakeholder introduced at
+ * that step (server/stakeholder-intro.ts).
+ *
+ * A worker in the server process claims active sessions whose step deadline
+ * has passed. With `onTimeout: "escalate"` (the default) the step's persona
+ * escalates and loses patience; with `"advance"` the session moves on, or
+ * escalates instead when a blocking artifact deadline stops it. Either way
+ * the timeout is recorded as a message for the assessment, once per step.
+ *
+ * Environment:
+ *   - STEP_TIMER_POLL_MS  How often the worker checks for expired steps (default 1000)
+ */
+
+import type { Scenario, Session } from "@shared/schema";
+import { storage } from "./storage";
+import {
+  ensureSessionRun,
+  getSessionRunProgress,
+  executeSessionTransition,
+  getActivePersonaForStep,
+} from "./workflow-engine";
+import { checkArtifactDeadlines, formatArtifactList, DEADLINE_MISSED_KIND, type ArtifactDeadline } from "./artifact-policy";
+import { getStepTimerPolicy, getStepBudgetSeconds, getEscalationLine, planStepTimer, formatDuration, STEP_TIMEOUT_KIND } from "./step-timer";
+import { getInitialPersonaState, getStanceFromState } from "./persona-state";
+import { buildStakeholderJoinedMessage } from "./stakeholder-intro";
+import { enqueueSessionReply } from "./reply-stream";
+import { createRng } from "./rng";
+
+/** Patience a persona loses when a step runs out of time. */
+const TIMEOUT_PATIENCE_COST = 15;
+
+type ActivePersona = NonNullable<Awaited<ReturnType<typeof getActivePersonaForStep>>>;
+
+export type AdvanceOutcome =
+  | { status: "blocked"; message: string; missingArtifacts: ArtifactDeadline[] }
+  | { status: "awaiting_review"; step: number }
+  | { status: "active"; step: number; channel: string; activePersona: ActivePersona | null };
+
+// ─── Advance ─────────────────────────────────────────────────────────────────
+
+/**
+ * Moves the session to its next step, or to `awaiting_review` after the
+ * last one. Returns `blocked` when a required artifact due by the step being
+ * left is missing under "block" enforcement; under "penalize" the miss is
+ * recorded once as a system message and the session moves on.
+ */
+export async function advanceSession(session: Session, scenario: Scenario): Promise<AdvanceOutcome> {
+  const sessionId = session.id;
+  const runId = await ensureSessionRun(session);
+  const progress = await getSessionRunProgress(runId);
+
+  // Required artifacts due by the step being left must exist before moving on
+  const artifacts = await storage.getArtifacts(sessionId);
+  const deadlineCheck = checkArtifactDeadlines(scenario, artifacts, progress.currentStep);
+  if (deadlineCheck.missing.length > 0) {
+    if (deadlineCheck.enforcement === "block") {
+      return {
+        status: "blocked",
+        message: `Submit the required artifact(s) before advancing: ${formatArtifactList(deadlineCheck.missing)}`,
+        missingArtifacts: deadlineCheck.missing,
+      };
+    }
+    const recorded = new Set(
+      (await storage.getMessages(sessionId))
+        .filter(m => m.metadata?.kind === DEADLINE_MISSED_KIND)
+        .flatMap(m => m.metadata!.artifactTypes as string[]),
+    );
+    const newlyMissed = deadlineCheck.missing.filter(d => !recorded.has(d.type));
+    if (newlyMissed.length > 0) {
+      await storage.createMessage({
+        sessionId,
+        channel: session.currentChannel,
+        senderType: "system",
+        senderName: "System",
+        content: `**Deadline missed:** ${formatArtifactList(newlyMissed)}. You can still submit ${newlyMissed.length === 1 ? "it" : "them"}, but the miss will count against your assessment.`,
+        metadata: { kind: DEADLINE_MISSED_KIND, artifactTypes: newlyMissed.map(d => d.type) },
+        step: progress.currentStep,
+      });
+    }
+  }
+
+  const channels = scenario.channels as string[];
+  const nextStep = progress.currentStep + 1;
+
+  if (nextStep > scenario.estimatedSteps) {
+    await storage.updateSession(sessionId, {
+      status: "awaiting_review",
+      currentStep: nextStep,
+      stepDeadlineAt: null,
+    });
+    return { status: "awaiting_review", step: nextStep };
+  }
+
+  const nextChannel = channels[(nextStep - 1) % channels.length] as any;
+
+  // Execute the run's next channel transition step (custom.channel-transition)
+  const transition = await executeSessionTransition(runId, nextChannel, nextStep);
+
+  await storage.updateSession(sessionId, {
+    currentStep: transition.progress.currentStep,
+    currentChannel: transition.progress.currentChannel as any,
+    ...planStepTimer(scenario, session, nextStep, nextChannel),
+  });
+
+  await storage.createMessage({
+    sessionId,
+    channel: nextChannel,
+    senderType: "system",
+    senderName: "System",
+    content: transition.transitionMessage,
+    step: nextStep,
+  });
+
+  const joining = (await storage.getScenarioPersonas(scenario.id)).filter(sp => sp.introduceAtStep === nextStep);
+  for (const link of joining) {
+    await storage.createMessage(buildStakeholderJoinedMessage(sessionId, link, nextChannel, nextStep));
+  }
+
+  const activePersona = await getActivePersonaForStep(scenario.id, nextStep);
+  return { status: "active", step: nextStep, channel: nextChannel, activePersona };
+}
+
+// ─── Step Timeouts ───────────────────────────────────────────────────────────
+
+async function escalateTimeout(session: Session, scenario: Scenario, budgetSeconds: number, timeouts: number): Promise<void> {
+  const step = session.currentStep;
+  const active = await getActivePersonaForStep(scenario.id, step);
+  if (!active) {
+    await storage.createMessage({
+      sessionId: session.id,
+      channel: session.currentChannel,
+      senderType: "system",
+      senderName: "System",
+      content: `**Time's up:** step ${step} ran past its ${formatDuration(budgetSeconds * 1000)} budget.`,
+      metadata: { kind: STEP_TIMEOUT_KIND, budgetSeconds, action: "escalated" },
+      step,
+    });
+    return;
+  }
+
+  const stored = await storage.getPersonaState(session.id, active.personaId);
+  const current = stored ?? { ...getInitialPersonaState(active.persona.personaType), turnCount: 0 };
+  const patience = Math.max(0, current.patience - TIMEOUT_PATIENCE_COST);
+  const after = { trust: current.trust, patience, perceivedValue: current.perceivedValue };
+  await storage.upsertPersonaState({
+    sessionId: session.id,
+    personaId: active.personaId,
+    ...after,
+    stance: getStanceFromState(after),
+    turnCount: current.turnCount,
+  });
+
+  await storage.createMessage({
+    sessionId: session.id,
+    channel: session.currentChannel,
+    senderType: "persona",
+    senderName: active.persona.name,
+    personaId: active.personaId,
+    content: getEscalationLine(createRng(session.seed, "step-timeout", step), timeouts),
+    metadata: {
+      kind: STEP_TIMEOUT_KIND,
+      budgetSeconds,
+      action: "escalated",
+      stateChange: {
+        deltas: { patience: patience - current.patience },
+        reasons: ["The step ran out of time"],
+      },
+    },
+    step,
+  });
+}
+
+/** Escalates or auto-advances a session whose step deadline has passed. */
+async function handleStepTimeout(claimed: Session): Promise<void> {
+  // The rep may have advanced while a reply was still being delivered
+  const session = await storage.getSession(claimed.id);
+  if (!session || session.status !== "active" || session.currentStep !== claimed.currentStep) return;
+
+  const scenario = await storage.getScenario(session.scenarioId);
+  if (!scenario) return;
+
+  const step = session.currentStep;
+  const budgetSeconds = getStepBudgetSeconds(scenario, step, session.currentChannel);
+  const messages = await storage.getMessages(session.id);
+  const timeouts = messages.filter(m => m.metadata?.kind === STEP_TIMEOUT_KIND).length + 1;
+
+  if (getStepTimerPolicy(scenario).onTimeout === "advance") {
+    const deadlineCheck = checkArtifactDeadlines(scenario, await storage.getArtifacts(session.id), step);
+    const blocked = deadlineCheck.enforcement === "block" && deadlineCheck.missing.length > 0;
+    if (!blocked) {
+      await storage.createMessage({
+        sessionId: session.id,
+        channel: session.currentChannel,
+        senderType: "system",
+        senderName: "System",
+        content: `**Time's up:** step ${step} ran past its ${formatDuration(budgetSeconds * 1000)} budget, so the conversation has moved on without you.`,
+        metadata: { kind: STEP_TIMEOUT_KIND, budgetSeconds, action: "advanced" },
+        step,
+      });
+      await advanceSession(session, scenario);
+      return;
+    }
+  }
+
+  await escalateTimeout(session, scenario, budgetSeconds, timeouts);
+}
+
+// ─── Worker ──────────────────────────────────────────────────────────────────
+
+let workerTimer: NodeJS.Timeout | null = null;
+let draining = false;
+
+/** Claims and handles expired steps until none are left. */
+async function drainExpiredSteps(): Promise<void> {
+  if (draining) return;
+  draining = true;
+  try {
+    let session: Session | undefined;
+    while ((session = await storage.claimExpiredStepSession())) {
+      const claimed = session;
+      // Queued behind any reply still being delivered for the session
+      await enqueueSessionReply(claimed.id, () => handleStepTimeout(claimed)).catch(error =>
+        console.error(`Step timeout for session ${claimed.id} failed:`, error),
+      );
+    }
+  } catch (error) {
+    console.error("Step timer worker error:", error);
+  } finally {
+    draining = false;
+  }
+}
+
+export function startStepTimerWorker(): void {
+  if (workerTimer) return;
+  const pollMs = parseInt(process.env.STEP_TIMER_POLL_MS || "1000", 10);
+  workerTimer = setInterval(() => void drainExpiredSteps(), isNaN(pollMs) ? 1000 : pollMs);
+  void drainExpiredSteps();
+}
+
+export function stopStepTimerWorker(): void {
+  if (workerTimer) clearInterval(workerTimer);
+  workerTimer = null;
+}
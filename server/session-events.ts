@@ -0,0 +1,83 @@
+/**
+ * Session Event Channel
+ *
+ * One WebSocket channel per session at `/ws/sessions/:sessionId`. Storage
+ * publishes an event whenever a session's messages, step/channel, artifacts,
+ * assessment or assessment job change, so every open tab and observer sees
+ * them live — including persona replies and scoring progress produced
+ * outside the request that triggered them.
+ *
+ * Subscribers are held in this process only; a client that reconnects
+ * should refetch, since events published while it was away are not replayed.
+ *
+ * Environment:
+ *   - SESSION_SOCKET_HEARTBEAT_MS  Ping interval for dropping dead sockets (default 30000)
+ */
+
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import type { SessionEvent } from "@shared/schema";
+
+const SESSION_PATH = /^\/ws\/sessions\/(\d+)\/?$/;
+
+const subscribers = new Map<number, Set<WebSocket>>();
+
+// ─── Publishing ──────────────────────────────────────────────────────────────
+
+export function publishSessionEvent(event: SessionEvent): void {
+  const sockets = subscribers.get(event.sessionId);
+  if (!sockets || sockets.size === 0) return;
+  const payload = JSON.stringify(event);
+  for (const socket of Array.from(sockets)) {
+    if (socket.readyState === WebSocket.OPEN) socket.send(payload);
+  }
+}
+
+// ─── Subscriptions ───────────────────────────────────────────────────────────
+
+function subscribe(sessionId: number, socket: WebSocket): void {
+  const sockets = subscribers.get(sessionId) ?? new Set<WebSocket>();
+  sockets.add(socket);
+  subscribers.set(sessionId, sockets);
+
+  socket.on("close", () => {
+    sockets.delete(socket);
+    if (sockets.size === 0) subscribers.delete(sessionId);
+  });
+}
+
+/**
+ * Handles upgrades for session channels on the app's HTTP server. Other
+ * upgrade requests (e.g. Vite HMR on `/vite-hmr`) are left untouched.
+ */
+export function attachSessionEvents(httpServer: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    const match = pathname.match(SESSION_PATH);
+    if (!match) return;
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      alive.set(ws, true);
+      ws.on("pong", () => alive.set(ws, true));
+      subscribe(parseInt(match[1], 10), ws);
+    });
+  });
+
+  const heartbeatMs = parseInt(process.env.SESSION_SOCKET_HEARTBEAT_MS || "30000", 10);
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(ws => {
+      if (!alive.get(ws)) return ws.terminate();
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, isNaN(heartbeatMs) ? 30000 : heartbeatMs);
+
+  httpServer.on("close", () => {
+    clearInterval(heartbeat);
+    wss.close();
+  });
+}
@@ -0,0 +1,218 @@
+/**
+ * Session Memory
+ *
+ * Every user turn is mined for what the rep has put on the record: facts
+ * about the product, numbers (prices, discounts, timelines), promises
+ * (dates, discounts, pilots, reviews) and the questions they asked. Each is
+ * stored in `session_memories` with the channel and step it was said on, so
+ * personas on any channel can hold the rep to it — the LLM prompt lists
+ * them, and pattern-table personas recall a promise made elsewhere ("On the
+ * call you promised ...").
+ *
+ * A later statement on the same subject that changes a figure, a promised
+ * date or a yes/no fact is a contradiction: the persona calls it out, and
+ * the assessment reports it as a friction point.
+ *
+ * Everything here is pure; the route stores what `extractMemories` returns.
+ */
+
+import type { InsertSessionMemory, Message, SessionMemory } from "@shared/schema";
+import { DATE_PATTERN, PROMISE_PATTERN, splitSentences } from "./promise-language";
+import { pickRandom, type Rng } from "./rng";
+
+export type MemoryKind = "fact" | "number" | "promise" | "question";
+
+export interface MemoryContradiction {
+  subject: string;
+  kind: MemoryKind;
+  earlier: SessionMemory;
+  later: SessionMemory;
+}
+
+/** Subjects the rep's statements are filed under; the first match wins. */
+const SUBJECTS: Array<{ subject: string; pattern: RegExp }> = [
+  { subject: "discount", pattern: /\bdiscount(s|ed)?\b/i },
+  { subject: "pilot", pattern: /\b(pilot|proof of concept|poc|trial)\b/i },
+  { subject: "security review", pattern: /\b(security review|security questionnaire|soc ?2|pen(etration)? test)\b/i },
+  { subject: "compliance", pattern: /\b(hipaa|gxp|baa|gdpr|21 cfr part 11|compliance|compliant)\b/i },
+  { subject: "sso", pattern: /\b(sso|single sign-on|saml)\b/i },
+  { subject: "data residency", pattern: /\b(data residency|(eu|us) (data )?(hosting|region))\b/i },
+  { subject: "roi", pattern: /\b(roi|payback|return on investment|savings?)\b/i },
+  { subject: "implementation", pattern: /\b(implementation|implement|deploy(ment)?|roll ?out|onboarding|go[- ]live|integration)\b/i },
+  { subject: "price", pattern: /\b(price|pricing|cost|costs|fee|fees|per (seat|user|year|month)|annual contract|contract value)\b/i },
+];
+
+const FACT_PATTERN = /\b(we|our (platform|product|solution|team|service)|it|the (platform|product|solution))\b.*\b(is|are|has|have|does|do|support|supports|integrate|integrates|include|includes|offer|offers|can|can't|cannot)\b/i;
+const NEGATION_PATTERN = /\b(not|no|don't|doesn't|can't|cannot|won't|isn't|aren't|never|without)\b|n't\b/i;
+
+const CHANNEL_PHRASES: Record<string, string> = {
+  call: "On the call",
+  meeting: "In the meeting",
+  email: "In your email",
+  follow_up: "In your follow-up",
+  deck_review: "In the deck review",
+  internal_coaching: "In our coaching session",
+};
+
+/** Chance a pattern-table persona brings up a promise made on another channel. */
+const RECALL_CHANCE = 0.4;
+
+const PROMISE_CHECKS = [
+  "Is that still on track?",
+  "I'm holding you to that.",
+  "Where does that stand?",
+];
+
+/** How many of the most recent memories the persona prompt lists. */
+const PROMPT_MEMORY_LIMIT = 12;
+
+// ─── Extraction ──────────────────────────────────────────────────────────────
+
+function getSubject(sentence: string): string | null {
+  return SUBJECTS.find(s => s.pattern.test(sentence))?.subject ?? null;
+}
+
+/** The sentence's figure in a comparable form: "$50000/year", "15%", "42 days". */
+function getFigure(sentence: string): string | null {
+  const money = sentence.match(/\$\s?(\d[\d,]*(?:\.\d+)?)\s?(k|m|million|thousand)?\b/i);
+  if (money) {
+    const unit = (money[2] ?? "").toLowerCase();
+    const amount = parseFloat(money[1].replace(/,/g, "")) * (unit === "k" || unit === "thousand" ? 1e3 : unit === "m" || unit === "million" ? 1e6 : 1);
+    const period = sentence.match(/\b(?:per |a |\/)(year|month|seat|user)\b|\b(annual|monthly)(ly)?\b/i);
+    const per = period ? `/${(period[1] ?? (period[2].toLowerCase() === "annual" ? "year" : "month")).toLowerCase()}` : "";
+    return `$${Math.round(amount)}${per}`;
+  }
+  const percent = sentence.match(/(\d+(?:\.\d+)?)\s?(%|percent)/i);
+  if (percent) return `${parseFloat(percent[1])}%`;
+  const duration = sentence.match(/\b(\d+)\s?(days?|weeks?|months?)\b/i);
+  if (duration) {
+    const unit = duration[2][0].toLowerCase();
+    return `${parseInt(duration[1], 10) * (unit === "d" ? 1 : unit === "w" ? 7 : 30)} days`;
+  }
+  return null;
+}
+
+/** The unit a figure is compared in, so "$50000" is never set against "15%". */
+function getFigureUnit(value: string): string {
+  if (value.startsWith("$")) {
+    const per = value.indexOf("/");
+    return per >= 0 ? value.slice(per) : "$";
+  }
+  return value.endsWith("%") ? "%" : "days";
+}
+
+function classifySentence(sentence: string): Pick<InsertSessionMemory, "kind" | "subject" | "value"> | null {
+  const subject = getSubject(sentence);
+  if (sentence.trim().endsWith("?")) return { kind: "question", subject, value: null };
+
+  const date = sentence.match(DATE_PATTERN)?.[0].toLowerCase() ?? null;
+  const figure = getFigure(sentence);
+  if (PROMISE_PATTERN.test(sentence) && (date || subject)) {
+    return { kind: "promise", subject, value: date ?? figure };
+  }
+  if (figure) return { kind: "number", subject, value: figure };
+  if (subject && FACT_PATTERN.test(sentence)) {
+    return { kind: "fact", subject, value: NEGATION_PATTERN.test(sentence) ? "no" : "yes" };
+  }
+  return null;
+}
+
+/**
+ * What the rep put on the record in `message`, less anything already
+ * remembered in the same words.
+ */
+export function extractMemories(
+  message: Pick<Message, "id" | "sessionId" | "content" | "channel" | "step">,
+  existing: Pick<SessionMemory, "kind" | "subject" | "value" | "content">[] = [],
+): InsertSessionMemory[] {
+  const memories: InsertSessionMemory[] = [];
+  for (const sentence of splitSentences(message.content)) {
+    const classified = classifySentence(sentence);
+    if (!classified) continue;
+    const duplicate = [...existing, ...memories].some(m =>
+      m.kind === classified.kind && m.subject === classified.subject && m.value === classified.value &&
+      (classified.kind !== "question" || m.content === sentence),
+    );
+    if (duplicate) continue;
+    memories.push({
+      sessionId: message.sessionId,
+      messageId: message.id,
+      ...classified,
+      content: sentence,
+      channel: message.channel,
+      step: message.step,
+    });
+  }
+  return memories;
+}
+
+// ─── Contradictions ──────────────────────────────────────────────────────────
+
+/**
+ * Statements that change what the rep said earlier on the same subject: a
+ * different figure (in the same unit), a different promised date, or a fact
+ * flipped between yes and no. Each is compared with the latest earlier
+ * statement of its kind.
+ */
+export function findContradictions(memories: SessionMemory[]): MemoryContradiction[] {
+  const contradictions: MemoryContradiction[] = [];
+  memories.forEach((later, index) => {
+    if (!later.subject || !later.value || later.kind === "question") return;
+    const earlier = memories
+      .slice(0, index)
+      .reverse()
+      .find(m =>
+        m.kind === later.kind && m.subject === later.subject && m.value !== null && m.messageId !== later.messageId &&
+        (later.kind !== "number" || getFigureUnit(m.value) === getFigureUnit(later.value!)),
+      );
+    if (earlier && earlier.value !== later.value) {
+      contradictions.push({ subject: later.subject, kind: later.kind as MemoryKind, earlier, later });
+    }
+  });
+  return contradictions;
+}
+
+// ─── Persona replies ─────────────────────────────────────────────────────────
+
+function getChannelPhrase(channel: string): string {
+  return CHANNEL_PHRASES[channel] ?? `On ${channel.replace(/_/g, " ")}`;
+}
+
+/** The persona prompt's record of what the rep has said, for LLM-backed personas. */
+export function formatMemoryForPrompt(memories: SessionMemory[]): string | null {
+  if (memories.length === 0) return null;
+  const labels: Record<string, string> = { fact: "stated", number: "quoted", promise: "promised", question: "asked" };
+  const lines = memories
+    .slice(-PROMPT_MEMORY_LIMIT)
+    .map(m => `- ${getChannelPhrase(m.channel)} (step ${m.step}) the rep ${labels[m.kind] ?? "said"}: "${m.content}"`);
+  const contradictions = findContradictions(memories).map(c =>
+    `- The rep changed their story on ${c.subject}: "${c.earlier.content}" (${c.earlier.channel.replace(/_/g, " ")}), then "${c.later.content}" (${c.later.channel.replace(/_/g, " ")})`,
+  );
+  return [
+    "WHAT THE REP HAS TOLD YOU SO FAR (across every channel; hold them to promises and do not re-raise objections they already answered):",
+    ...lines,
+    ...(contradictions.length > 0 ? ["CONTRADICTIONS TO CALL OUT:", ...contradictions] : []),
+  ].join("\n");
+}
+
+/**
+ * The line a pattern-table persona adds to recall the record, or null. A
+ * contradiction in the rep's latest turn is always called out; otherwise a
+ * promise made on another channel is sometimes brought up.
+ */
+export function getMemoryRecallLine(
+  memories: SessionMemory[],
+  latestMessageId: number | undefined,
+  channel: string,
+  rng: Rng,
+): string | null {
+  const contradiction = findContradictions(memories).find(c => c.later.messageId === latestMessageId);
+  if (contradiction) {
+    return `${getChannelPhrase(contradiction.earlier.channel)} you told me "${contradiction.earlier.content}" Now it's "${contradiction.later.content}" Which is it?`;
+  }
+
+  const promises = memories.filter(m => m.kind === "promise" && m.channel !== channel);
+  if (promises.length === 0 || rng() >= RECALL_CHANCE) return null;
+  const promise = pickRandom(rng, promises);
+  return `${getChannelPhrase(promise.channel)} you promised: "${promise.content}" ${pickRandom(rng, PROMISE_CHECKS)}`;
+}
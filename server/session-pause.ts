@@ -0,0 +1,181 @@
+/**
+ * Session Pause & Active Time
+ *
+ * Active sessions can be paused and resumed; each pause is kept on the
+ * session (`sessions.pauses`) so paused time can be left out of the session's
+ * active time, of response latency, and of ticking-clock budgets — resuming
+ * pushes the current step's deadline back by the length of the pause.
+ *
+ * Practice sessions may always pause. For assessment-mode sessions,
+ * `scenarios.pausePolicy` allows pausing, forbids it, or caps it by number
+ * of pauses and total paused time; a capped session is resumed
+ * automatically once its paused-time allowance runs out.
+ *
+ * A worker in the server process pauses active sessions with no rep
+ * activity for SESSION_IDLE_PAUSE_MINUTES. The pause is backdated to the
+ * last activity so idle time never counts as active time.
+ *
+ * Environment:
+ *   - SESSION_IDLE_PAUSE_MINUTES  Inactivity before a session is auto-paused; 0 disables (default 10)
+ *   - SESSION_IDLE_POLL_MS        How often the worker checks for idle sessions (default 30000)
+ */
+
+import type { Scenario, Session } from "@shared/schema";
+import { storage } from "./storage";
+
+export type PausePolicy = NonNullable<Scenario["pausePolicy"]>;
+export type SessionPause = Session["pauses"][number];
+
+export type PauseOutcome =
+  | { status: "rejected"; message: string }
+  | { status: "ok"; session: Session };
+
+// ─── Time Accounting ─────────────────────────────────────────────────────────
+
+/** Paused time in ms overlapping [from, to]; an open pause runs until `to`. */
+export function getPausedMs(pauses: SessionPause[], from: Date, to: Date): number {
+  let total = 0;
+  for (const pause of pauses) {
+    const start = Math.max(Date.parse(pause.startedAt), from.getTime());
+    const end = Math.min(pause.endedAt ? Date.parse(pause.endedAt) : to.getTime(), to.getTime());
+    if (end > start) total += end - start;
+  }
+  return total;
+}
+
+export function getOpenPause(session: Pick<Session, "pauses">): SessionPause | undefined {
+  return session.pauses.find(p => p.endedAt === null);
+}
+
+/**
+ * Time the session has been worked on: from start to completion (or to the
+ * last activity once it is awaiting review, or now), less paused time.
+ */
+export function getActiveTimeMs(
+  session: Pick<Session, "status" | "startedAt" | "completedAt" | "lastActivityAt" | "pauses">,
+  now: Date = new Date(),
+): number {
+  const end = session.completedAt ?? (session.status === "awaiting_review" ? session.lastActivityAt : now);
+  const elapsed = end.getTime() - session.startedAt.getTime();
+  return Math.max(0, elapsed - getPausedMs(session.pauses, session.startedAt, end));
+}
+
+export function withActiveTime<T extends Session>(session: T, now: Date = new Date()): T & { activeMs: number } {
+  return { ...session, activeMs: getActiveTimeMs(session, now) };
+}
+
+// ─── Policy ──────────────────────────────────────────────────────────────────
+
+export function getPausePolicy(scenario: Pick<Scenario, "pausePolicy">): PausePolicy {
+  return scenario.pausePolicy ?? { assessmentMode: "allow" };
+}
+
+/** Paused time still allowed under a capped policy, or Infinity when uncapped. */
+function remainingPauseMs(session: Session, scenario: Pick<Scenario, "pausePolicy">, now: Date): number {
+  const policy = getPausePolicy(scenario);
+  if (session.mode !== "assessment" || policy.assessmentMode !== "cap" || policy.maxPausedSeconds === undefined) {
+    return Infinity;
+  }
+  return policy.maxPausedSeconds * 1000 - getPausedMs(session.pauses, session.startedAt, now);
+}
+
+/** Why the session may not pause now, or null when it may. */
+export function checkPauseAllowed(session: Session, scenario: Pick<Scenario, "pausePolicy">, now: Date = new Date()): string | null {
+  if (session.status !== "active") return `Only active sessions can be paused (this one is ${session.status.replace(/_/g, " ")})`;
+  if (session.mode !== "assessment") return null;
+
+  const policy = getPausePolicy(scenario);
+  if (policy.assessmentMode === "forbid") return "Pausing is not allowed in this assessment";
+  if (policy.assessmentMode === "cap") {
+    if (policy.maxPauses !== undefined && session.pauses.length >= policy.maxPauses) {
+      return `This assessment allows at most ${policy.maxPauses} pause(s)`;
+    }
+    if (remainingPauseMs(session, scenario, now) <= 0) return "This assessment's pause allowance is used up";
+  }
+  return null;
+}
+
+// ─── Pause / Resume ──────────────────────────────────────────────────────────
+
+export async function pauseSession(
+  session: Session,
+  scenario: Scenario,
+  reason: SessionPause["reason"] = "manual",
+  startedAt: Date = new Date(),
+): Promise<PauseOutcome> {
+  const rejection = checkPauseAllowed(session, scenario, startedAt);
+  if (rejection) return { status: "rejected", message: rejection };
+
+  const updated = await storage.updateSession(session.id, {
+    status: "paused",
+    pauses: [...session.pauses, { startedAt: startedAt.toISOString(), endedAt: null, reason }],
+  });
+  if (!updated) return { status: "rejected", message: "Session not found" };
+  return { status: "ok", session: updated };
+}
+
+/** Ends the open pause and pushes the current step's deadline back by its length. */
+export async function resumeSession(session: Session, now: Date = new Date()): Promise<PauseOutcome> {
+  const open = getOpenPause(session);
+  if (session.status !== "paused" || !open) return { status: "rejected", message: "Session is not paused" };
+
+  const pausedMs = Math.max(0, now.getTime() - Date.parse(open.startedAt));
+  const shiftDeadline = session.stepDeadlineAt && !session.stepExpiredAt;
+  const updated = await storage.updateSession(session.id, {
+    status: "active",
+    pauses: session.pauses.map(p => (p === open ? { ...p, endedAt: now.toISOString() } : p)),
+    lastActivityAt: now,
+    ...(shiftDeadline ? { stepDeadlineAt: new Date(session.stepDeadlineAt!.getTime() + pausedMs) } : {}),
+  });
+  if (!updated) return { status: "rejected", message: "Session not found" };
+  return { status: "ok", session: updated };
+}
+
+// ─── Worker ──────────────────────────────────────────────────────────────────
+
+let workerTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+function getIdlePauseMs(): number {
+  const minutes = parseFloat(process.env.SESSION_IDLE_PAUSE_MINUTES || "10");
+  return isNaN(minutes) ? 10 * 60 * 1000 : minutes * 60 * 1000;
+}
+
+/** Auto-pauses idle sessions and resumes capped ones whose pause allowance ran out. */
+async function sweepSessions(): Promise<void> {
+  if (sweeping) return;
+  sweeping = true;
+  try {
+    const now = new Date();
+    const idleMs = getIdlePauseMs();
+
+    if (idleMs > 0) {
+      for (const session of await storage.getIdleSessions(new Date(now.getTime() - idleMs))) {
+        const scenario = await storage.getScenario(session.scenarioId);
+        if (!scenario || checkPauseAllowed(session, scenario, now)) continue;
+        await pauseSession(session, scenario, "inactivity", session.lastActivityAt);
+      }
+    }
+
+    for (const session of await storage.getSessionsByStatus("paused")) {
+      const scenario = await storage.getScenario(session.scenarioId);
+      if (scenario && remainingPauseMs(session, scenario, now) <= 0) await resumeSession(session, now);
+    }
+  } catch (error) {
+    console.error("Session idle worker error:", error);
+  } finally {
+    sweeping = false;
+  }
+}
+
+export function startSessionIdleWorker(): void {
+  if (workerTimer) return;
+  const pollMs = parseInt(process.env.SESSION_IDLE_POLL_MS || "30000", 10);
+  workerTimer = setInterval(() => void sweepSessions(), isNaN(pollMs) ? 30000 : pollMs);
+  void sweepSessions();
+}
+
+export function stopSessionIdleWorker(): void {
+  if (workerTimer) clearInterval(workerTimer);
+  workerTimer = null;
+}
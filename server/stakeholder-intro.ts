@@ -0,0 +1,121 @@
+/**
+ * Stakeholder Introductions
+ *
+ * Scenario personas join at `scenarioPersonas.introduceAtStep`. When a
+ * session advances into that step, a "stakeholder joined" system message is
+ * posted whose metadata carries the newcomer's profile: their role in the
+ * scenario, public traits and stated priorities. The session view renders
+ * it as a profile card.
+ *
+ * The assessment checks whether the rep adapted to each newcomer: within
+ * their next few turns, did they address the newcomer by name or speak to
+ * one of the newcomer's priorities?
+ */
+
+import type { InsertMessage, Message, Persona } from "@shared/schema";
+
+/** Message metadata kind used to record a stakeholder joining. */
+export const STAKEHOLDER_JOINED_KIND = "stakeholder_joined";
+
+/** User turns after a stakeholder joins that are checked for adaptation. */
+const ADAPTATION_WINDOW = 3;
+
+/** Words too common in priorities to show the rep was speaking to them. */
+const PRIORITY_STOPWORDS = new Set(["about", "after", "before", "every", "their", "there", "which", "without", "within", "getting", "moving", "making"]);
+
+export interface StakeholderProfile {
+  personaId: number;
+  name: string;
+  role: string;
+  roleInScenario: string;
+  traits: string[];
+  priorities: string[];
+  avatarInitials: string;
+  avatarColor: string;
+}
+
+export interface StakeholderAdaptation {
+  personaId: number;
+  name: string;
+  step: number;
+  joinMessageId: number;
+  /** The rep's turns checked for adaptation; empty when the rep never spoke after the join. */
+  checkedMessageIds: number[];
+  /** Checked turns that named the newcomer or spoke to one of their priorities. */
+  adaptedMessageIds: number[];
+}
+
+/** The system message announcing `persona` joining the session at `step`. */
+export function buildStakeholderJoinedMessage(
+  sessionId: number,
+  link: { personaId: number; roleInScenario: string; persona: Persona },
+  channel: string,
+  step: number,
+): InsertMessage {
+  const { persona } = link;
+  const profile: StakeholderProfile = {
+    personaId: link.personaId,
+    name: persona.name,
+    role: persona.role,
+    roleInScenario: link.roleInScenario,
+    traits: persona.traits,
+    priorities: persona.priorities,
+    avatarInitials: persona.avatarInitials,
+    avatarColor: persona.avatarColor,
+  };
+  return {
+    sessionId,
+    channel: channel as InsertMessage["channel"],
+    senderType: "system",
+    senderName: "System",
+    content: `**${persona.name} has joined** as ${link.roleInScenario}.`,
+    metadata: { kind: STAKEHOLDER_JOINED_KIND, profile },
+    step,
+  };
+}
+
+/** First name, skipping honorifics ("Dr. Elena Vasquez" → "Elena"). */
+function getFirstName(name: string): string {
+  const parts = name.split(/\s+/);
+  return (/^(dr|mr|mrs|ms|prof)\.?$/i.test(parts[0]) && parts[1]) || parts[0];
+}
+
+/** Stems of the substantive words in the priorities ("auditability" → "audita"). */
+function getPriorityStems(priorities: string[]): string[] {
+  const words = priorities.join(" ").toLowerCase().match(/[a-z]{5,}/g) ?? [];
+  return Array.from(new Set(words.filter(w => !PRIORITY_STOPWORDS.has(w)).map(w => w.slice(0, 6))));
+}
+
+/** Whether the rep adapted to each stakeholder who joined during the session. */
+export function analyzeStakeholderAdaptation(
+  messages: Pick<Message, "id" | "senderType" | "content" | "step" | "metadata">[],
+): StakeholderAdaptation[] {
+  const results: StakeholderAdaptation[] = [];
+
+  messages.forEach((message, index) => {
+    if (message.metadata?.kind !== STAKEHOLDER_JOINED_KIND) return;
+    const profile = message.metadata.profile as StakeholderProfile;
+    const namePattern = new RegExp(`\\b${getFirstName(profile.name)}\\b`, "i");
+    const stems = getPriorityStems(profile.priorities ?? []);
+
+    const checked = messages
+      .slice(index + 1)
+      .filter(m => m.senderType === "user")
+      .slice(0, ADAPTATION_WINDOW);
+    const adapted = checked.filter(m => {
+      const lower = m.content.toLowerCase();
+      return namePattern.test(m.content) || stems.some(stem => lower.includes(stem));
+    });
+
+    results.push({
+      personaId: profile.personaId,
+      name: profile.name,
+      step: message.step,
+      joinMessageId: message.id,
+      checkedMessageIds: checked.map(m => m.id),
+      adaptedMessageIds: adapted.map(m => m.id),
+    });
+  });
+
+  return results;
+}
@@ -0,0 +1,147 @@
+/**
+ * Step Timers
+ *
+ * Under `tickingClockPressure`, every scenario step has a time budget:
+ * `scenarios.stepTimers` sets a default and per-step overrides, and
+ * scenarios without it use a per-channel default. The clock starts when the
+ * session becomes active or moves to a new step, and its deadline is stored
+ * on the session (`stepDeadlineAt`) so the client can count down. What
+ * happens when it runs out (`onTimeout`) is handled in
+ * server/session-advance.ts: the step's persona escalates, or the session
+ * auto-advances.
+ *
+ * Every user turn also records `responseLatencyMs`, the time since the
+ * previous message less any time the session was paused. The assessment
+ * counts turns that used more than half of the step's budget as hesitation,
+ * alongside the steps that timed out. Pausing (server/session-pause.ts)
+ * pushes the deadline back by the length of the pause.
+ */
+
+import type { Message, Scenario, Session } from "@shared/schema";
+import { getActiveConstraints } from "./constraints";
+import { getPausedMs } from "./session-pause";
+import { pickRandom, type Rng } from "./rng";
+
+export type StepTimerPolicy = NonNullable<Scenario["stepTimers"]>;
+
+export interface StepTimer {
+  stepStartedAt: Date;
+  stepDeadlineAt: Date | null;
+  stepExpiredAt: Date | null;
+}
+
+export interface ResponseTiming {
+  /** User message IDs whose latency used more than SLOW_TURN_SHARE of the step's budget. */
+  slowTurns: number[];
+  /** The message recording each step timeout. */
+  timedOutSteps: Array<{ step: number; messageId: number }>;
+  medianLatencyMs: number | null;
+}
+
+/** Message metadata kind used to record a step that ran out of time. */
+export const STEP_TIMEOUT_KIND = "step_timeout";
+
+const SLOW_TURN_SHARE = 0.5;
+
+/** Budgets for scenarios without `stepTimers`: live channels move fastest. */
+const CHANNEL_BUDGET_SECONDS: Record<string, number> = {
+  call: 180,
+  meeting: 240,
+  internal_coaching: 300,
+  deck_review: 600,
+  follow_up: 600,
+  email: 600,
+};
+
+const DEFAULT_BUDGET_SECONDS = 300;
+
+/** Ordered by escalation: the first timeout uses the first line. */
+const ESCALATION_LINES = [
+  [
+    "I haven't heard back and I'm out of time on my side. I need an answer by end of day.",
+    "We're past the point I said I needed this by. Give me something concrete by end of day.",
+  ],
+  [
+    "This is the second deadline that has slipped. If I don't have a decision today, I'll take this to the other vendors.",
+    "I've now had to chase you twice. My leadership is asking why this is stalled, and I have no answer for them.",
+  ],
+  [
+    "I can't keep waiting. Unless I hear from you in the next hour, we're pausing this until next quarter.",
+  ],
+];
+
+export function getStepTimerPolicy(scenario: Pick<Scenario, "stepTimers">): StepTimerPolicy {
+  return scenario.stepTimers ?? { onTimeout: "escalate" };
+}
+
+export function getStepBudgetSeconds(scenario: Pick<Scenario, "stepTimers">, step: number, channel: string): number {
+  const policy = getStepTimerPolicy(scenario);
+  return policy.stepSeconds?.[step] ?? policy.defaultSeconds ?? CHANNEL_BUDGET_SECONDS[channel] ?? DEFAULT_BUDGET_SECONDS;
+}
+
+/**
+ * The timer fields for a session entering `step`. The deadline is null
+ * unless ticking-clock pressure is active for the session.
+ */
+export function planStepTimer(
+  scenario: Pick<Scenario, "stepTimers" | "constraints">,
+  session: Pick<Session, "config">,
+  step: number,
+  channel: string,
+  now: Date = new Date(),
+): StepTimer {
+  const timed = getActiveConstraints(scenario, session).includes("tickingClockPressure");
+  return {
+    stepStartedAt: now,
+    stepDeadlineAt: timed ? new Date(now.getTime() + getStepBudgetSeconds(scenario, step, channel) * 1000) : null,
+    stepExpiredAt: null,
+  };
+}
+
+/** Time since the session's latest message (or since the step started), less paused time. */
+export function measureResponseLatency(
+  session: Pick<Session, "startedAt" | "stepStartedAt" | "pauses">,
+  messages: Pick<Message, "createdAt">[],
+  now: Date = new Date(),
+): number {
+  const previous = messages.reduce<Date>(
+    (latest, m) => (m.createdAt > latest ? m.createdAt : latest),
+    session.stepStartedAt ?? session.startedAt,
+  );
+  return Math.max(0, now.getTime() - previous.getTime() - getPausedMs(session.pauses, previous, now));
+}
+
+/** The persona's escalation after the session's `timeouts`-th step timeout (1-based). */
+export function getEscalationLine(rng: Rng, timeouts: number): string {
+  return pickRandom(rng, ESCALATION_LINES[Math.min(timeouts, ESCALATION_LINES.length) - 1]);
+}
+
+/** Summarizes how quickly the rep answered, for the assessment. */
+export function getResponseTiming(
+  scenario: Pick<Scenario, "stepTimers">,
+  messages: Pick<Message, "id" | "senderType" | "channel" | "step" | "metadata" | "responseLatencyMs">[],
+): ResponseTiming {
+  const latencies: number[] = [];
+  const slowTurns: number[] = [];
+  const timedOutSteps: ResponseTiming["timedOutSteps"] = [];
+
+  for (const message of messages) {
+    if (message.metadata?.kind === STEP_TIMEOUT_KIND) {
+      timedOutSteps.push({ step: message.step, messageId: message.id });
+      continue;
+    }
+    if (message.senderType !== "user" || message.responseLatencyMs === null) continue;
+    latencies.push(message.responseLatencyMs);
+    const budgetMs = getStepBudgetSeconds(scenario, message.step, message.channel) * 1000;
+    if (message.responseLatencyMs > budgetMs * SLOW_TURN_SHARE) slowTurns.push(message.id);
+  }
+
+  latencies.sort((a, b) => a - b);
+  const medianLatencyMs = latencies.length > 0 ? latencies[Math.floor(latencies.length / 2)] : null;
+  return { slowTurns, timedOutSteps, medianLatencyMs };
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
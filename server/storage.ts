@@ -1,18 +1,23 @@
 import {
-  personas, scenarios, scenarioPersonas, templates, sessions, messages, artifacts, assessments, userConfigs, greetings,
+  personas, scenarios, scenarioPersonas, templates, sessions, messages, personaStates, sessionMemories, artifacts, artifactRevisions, assessments, assessmentJobs, userConfigs, greetings,
   type Persona, type InsertPersona,
   type Scenario, type InsertScenario,
   type ScenarioPersona,
   type Template, type InsertTemplate,
   type Session, type InsertSession,
   type Message, type InsertMessage,
+  type PersonaState, type InsertPersonaState,
+  type SessionMemory, type InsertSessionMemory,
   type Artifact, type InsertArtifact,
+  type ArtifactRevision,
   type Assessment, type InsertAssessment,
+  type AssessmentJob, type InsertAssessmentJob,
   type UserConfig, type InsertUserConfig,
   type Greeting,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, asc } from "drizzle-orm";
+import { publishSessionEvent } from "./session-events";
+import { eq, desc, and, asc, lt, sql } from "drizzle-orm";
 
 export interface IStorage {
   getGreeting(): Promise<Greeting | undefined>;
@@ -42,26 +47,53 @@ export interface IStorage {
   getSession(id: number): Promise<Session | undefined>;
   createSession(data: InsertSession): Promise<Session>;
   updateSession(id: number, data: Partial<Session>): Promise<Session | undefined>;
+  claimExpiredStepSession(): Promise<Session | undefined>;
+  getSessionsByStatus(status: Session["status"]): Promise<Session[]>;
+  getIdleSessions(inactiveSince: Date): Promise<Session[]>;
 
   // Messages
   getMessages(sessionId: number): Promise<Message[]>;
   createMessage(data: InsertMessage): Promise<Message>;
 
+  // Persona States
+  getPersonaStates(sessionId: number): Promise<PersonaState[]>;
+  getPersonaState(sessionId: number, personaId: number): Promise<PersonaState | undefined>;
+  upsertPersonaState(data: InsertPersonaState): Promise<PersonaState>;
+
+  // Session Memory
+  getSessionMemories(sessionId: number): Promise<SessionMemory[]>;
+  createSessionMemories(data: InsertSessionMemory[]): Promise<SessionMemory[]>;
+
   // Artifacts
   getArtifacts(sessionId: number): Promise<Artifact[]>;
+  getArtifact(id: number): Promise<Artifact | undefined>;
   createArtifact(data: InsertArtifact): Promise<Artifact>;
   updateArtifact(id: number, data: Partial<Artifact>): Promise<Artifact | undefined>;
 
+  // Artifact Revisions
+  getArtifactRevisions(artifactId: number): Promise<ArtifactRevision[]>;
+  getArtifactRevision(artifactId: number, revisionNumber: number): Promise<ArtifactRevision | undefined>;
+  createArtifactRevision(artifact: Artifact): Promise<ArtifactRevision>;
+
   // Assessments
   getAssessment(sessionId: number): Promise<Assessment | undefined>;
   createAssessment(data: InsertAssessment): Promise<Assessment>;
   updateAssessment(id: number, data: Partial<Assessment>): Promise<Assessment | undefined>;
 
+  // Assessment Jobs
+  createAssessmentJob(data: InsertAssessmentJob): Promise<AssessmentJob>;
+  getLatestAssessmentJob(assessmentId: number): Promise<AssessmentJob | undefined>;
+  updateAssessmentJob(id: number, data: Partial<AssessmentJob>): Promise<AssessmentJob | undefined>;
+  claimNextAssessmentJob(): Promise<AssessmentJob | undefined>;
+  requeueStaleAssessmentJobs(lockedBefore: Date): Promise<number>;
+
   // User Config
   getUserConfig(): Promise<UserConfig | undefined>;
   upsertUserConfig(data: Partial<InsertUserConfig>): Promise<UserConfig>;
 }
 
+// Writes that change what a session's viewers see also publish a session
+// event, so open tabs update without refetching (server/session-events.ts).
 export class DatabaseStorage implements IStorage {
   async getGreeting(): Promise<Greeting | undefined> {
     return await db.query.greetings.findFirst();
@@ -167,9 +199,41 @@ export class DatabaseStorage implements IStorage {
 
   async updateSession(id: number, data: Partial<Session>): Promise<Session | undefined> {
     const [result] = await db.update(sessions).set(data as any).where(eq(sessions.id, id)).returning();
+    if (result) publishSessionEvent({ type: "session.updated", sessionId: result.id, session: result });
     return result;
   }
 
+  async getSessionsByStatus(status: Session["status"]): Promise<Session[]> {
+    return await db.select().from(sessions).where(eq(sessions.status, status));
+  }
+
+  /** Active sessions with no rep activity since `inactiveSince`. */
+  async getIdleSessions(inactiveSince: Date): Promise<Session[]> {
+    return await db.select().from(sessions)
+      .where(and(eq(sessions.status, "active"), lt(sessions.lastActivityAt, inactiveSince)));
+  }
+
+  /** Marks one active session whose step deadline has passed as expired and returns it. */
+  async claimExpiredStepSession(): Promise<Session | undefined> {
+    const claimed = await db.execute<{ id: number }>(sql`
+      UPDATE sessions
+      SET step_expired_at = now()
+      WHERE id = (
+        SELECT id FROM sessions
+        WHERE status = 'active' AND step_deadline_at <= now() AND step_expired_at IS NULL
+        ORDER BY step_deadline_at, id
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `);
+    const id = claimed.rows[0]?.id;
+    if (id === undefined) return undefined;
+    const session = await this.getSession(id);
+    if (session) publishSessionEvent({ type: "session.updated", sessionId: session.id, session });
+    return session;
+  }
+
   // ─── Messages ────────────────────────────────────────────────────────────────
 
   async getMessages(sessionId: number): Promise<Message[]> {
@@ -180,9 +244,47 @@ export class DatabaseStorage implements IStorage {
 
   async createMessage(data: InsertMessage): Promise<Message> {
     const [result] = await db.insert(messages).values(data as any).returning();
+    publishSessionEvent({ type: "message.created", sessionId: result.sessionId, message: result });
     return result;
   }
 
+  // ─── Persona States ──────────────────────────────────────────────────────────
+
+  async getPersonaStates(sessionId: number): Promise<PersonaState[]> {
+    return await db.select().from(personaStates)
+      .where(eq(personaStates.sessionId, sessionId))
+      .orderBy(asc(personaStates.personaId));
+  }
+
+  async getPersonaState(sessionId: number, personaId: number): Promise<PersonaState | undefined> {
+    return await db.query.personaStates.findFirst({
+      where: and(eq(personaStates.sessionId, sessionId), eq(personaStates.personaId, personaId)),
+    });
+  }
+
+  async upsertPersonaState(data: InsertPersonaState): Promise<PersonaState> {
+    const [result] = await db.insert(personaStates).values(data as any)
+      .onConflictDoUpdate({
+        target: [personaStates.sessionId, personaStates.personaId],
+        set: { ...data, updatedAt: new Date() } as any,
+      })
+      .returning();
+    return result;
+  }
+
+  // ─── Session Memory ──────────────────────────────────────────────────────────
+
+  async getSessionMemories(sessionId: number): Promise<SessionMemory[]> {
+    return await db.select().from(sessionMemories)
+      .where(eq(sessionMemories.sessionId, sessionId))
+      .orderBy(asc(sessionMemories.id));
+  }
+
+  async createSessionMemories(data: InsertSessionMemory[]): Promise<SessionMemory[]> {
+    if (data.length === 0) return [];
+    return await db.insert(sessionMemories).values(data as any).returning();
+  }
+
   // ─── Artifacts ───────────────────────────────────────────────────────────────
 
   async getArtifacts(sessionId: number): Promise<Artifact[]> {
@@ -191,16 +293,62 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(artifacts.updatedAt));
   }
 
+  async getArtifact(id: number): Promise<Artifact | undefined> {
+    return await db.query.artifacts.findFirst({ where: eq(artifacts.id, id) });
+  }
+
   async createArtifact(data: InsertArtifact): Promise<Artifact> {
     const [result] = await db.insert(artifacts).values(data as any).returning();
+    publishSessionEvent({ type: "artifact.updated", sessionId: result.sessionId, artifact: result });
     return result;
   }
 
   async updateArtifact(id: number, data: Partial<Artifact>): Promise<Artifact | undefined> {
     const [result] = await db.update(artifacts).set({ ...data, updatedAt: new Date() } as any).where(eq(artifacts.id, id)).returning();
+    if (result) publishSessionEvent({ type: "artifact.updated", sessionId: result.sessionId, artifact: result });
     return result;
   }
 
+  // ─── Artifact Revisions ──────────────────────────────────────────────────────
+
+  async getArtifactRevisions(artifactId: number): Promise<ArtifactRevision[]> {
+    return await db.select().from(artifactRevisions)
+      .where(eq(artifactRevisions.artifactId, artifactId))
+      .orderBy(asc(artifactRevisions.revisionNumber));
+  }
+
+  async getArtifactRevision(artifactId: number, revisionNumber: number): Promise<ArtifactRevision | undefined> {
+    return await db.query.artifactRevisions.findFirst({
+      where: and(eq(artifactRevisions.artifactId, artifactId), eq(artifactRevisions.revisionNumber, revisionNumber)),
+    });
+  }
+
+  /**
+   * Snapshots the artifact's current state as its next revision. The artifact
+   * row is locked while the number is allocated, so concurrent saves of one
+   * artifact (an autosave and a submit) get consecutive numbers.
+   */
+  async createArtifactRevision(artifact: Artifact): Promise<ArtifactRevision> {
+    return await db.transaction(async (tx) => {
+      await tx.select({ id: artifacts.id }).from(artifacts).where(eq(artifacts.id, artifact.id)).for("update");
+      const [latest] = await tx.select({ revisionNumber: artifactRevisions.revisionNumber }).from(artifactRevisions)
+        .where(eq(artifactRevisions.artifactId, artifact.id))
+        .orderBy(desc(artifactRevisions.revisionNumber))
+        .limit(1);
+      const [result] = await tx.insert(artifactRevisions).values({
+        artifactId: artifact.id,
+        revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+        version: artifact.version,
+        title: artifact.title,
+        content: artifact.content,
+        status: artifact.status,
+        feedback: artifact.feedback,
+        score: artifact.score,
+      }).returning();
+      return result;
+    });
+  }
+
   // ─── Assessments ─────────────────────────────────────────────────────────────
 
   async getAssessment(sessionId: number): Promise<Assessment | undefined> {
@@ -209,14 +357,73 @@ export class DatabaseStorage implements IStorage {
 
   async createAssessment(data: InsertAssessment): Promise<Assessment> {
     const [result] = await db.insert(assessments).values(data as any).returning();
+    publishSessionEvent({ type: "assessment.updated", sessionId: result.sessionId, assessment: result });
     return result;
   }
 
   async updateAssessment(id: number, data: Partial<Assessment>): Promise<Assessment | undefined> {
     const [result] = await db.update(assessments).set(data as any).where(eq(assessments.id, id)).returning();
+    if (result) publishSessionEvent({ type: "assessment.updated", sessionId: result.sessionId, assessment: result });
     return result;
   }
 
+  // ─── Assessment Jobs ─────────────────────────────────────────────────────────
+
+  async createAssessmentJob(data: InsertAssessmentJob): Promise<AssessmentJob> {
+    const [result] = await db.insert(assessmentJobs).values(data as any).returning();
+    publishSessionEvent({ type: "assessment.job", sessionId: result.sessionId, job: result });
+    return result;
+  }
+
+  async getLatestAssessmentJob(assessmentId: number): Promise<AssessmentJob | undefined> {
+    return await db.query.assessmentJobs.findFirst({
+      where: eq(assessmentJobs.assessmentId, assessmentId),
+      orderBy: [desc(assessmentJobs.id)],
+    });
+  }
+
+  async updateAssessmentJob(id: number, data: Partial<AssessmentJob>): Promise<AssessmentJob | undefined> {
+    const [result] = await db.update(assessmentJobs)
+      .set({ ...data, updatedAt: new Date() } as any)
+      .where(eq(assessmentJobs.id, id))
+      .returning();
+    if (result) publishSessionEvent({ type: "assessment.job", sessionId: result.sessionId, job: result });
+    return result;
+  }
+
+  /**
+   * Locks the next due queued job for this worker and counts the attempt.
+   * SKIP LOCKED lets several server processes share the queue.
+   */
+  async claimNextAssessmentJob(): Promise<AssessmentJob | undefined> {
+    const claimed = await db.execute<{ id: number }>(sql`
+      UPDATE assessment_jobs
+      SET status = 'running', attempts = attempts + 1, locked_at = now(), updated_at = now()
+      WHERE id = (
+        SELECT id FROM assessment_jobs
+        WHERE status = 'queued' AND run_after <= now()
+        ORDER BY run_after, id
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id
+    `);
+    const id = claimed.rows[0]?.id;
+    if (id === undefined) return undefined;
+    const job = await db.query.assessmentJobs.findFirst({ where: eq(assessmentJobs.id, id) });
+    if (job) publishSessionEvent({ type: "assessment.job", sessionId: job.sessionId, job });
+    return job;
+  }
+
+  /** Puts jobs whose worker died mid-run back in the queue. */
+  async requeueStaleAssessmentJobs(lockedBefore: Date): Promise<number> {
+    const result = await db.update(assessmentJobs)
+      .set({ status: "queued", lockedAt: null, updatedAt: new Date() })
+      .where(and(eq(assessmentJobs.status, "running"), lt(assessmentJobs.lockedAt, lockedBefore)))
+      .returning();
+    return result.length;
+  }
+
   // ─── User Config ─────────────────────────────────────────────────────────────
 
   async getUserConfig(): Promise<UserConfig | undefined> {
@@ -0,0 +1,98 @@
+/**
+ * Line Diff
+ *
+ * Computes a line-level diff between two texts (longest common subsequence)
+ * and lays it out as side-by-side rows: unchanged lines appear on both
+ * sides, and runs of removed / added lines are paired up as "changed" rows
+ * so the two columns stay aligned.
+ */
+
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+export interface DiffRow {
+  kind: "unchanged" | "changed" | "removed" | "added";
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+export interface DiffResult {
+  rows: DiffRow[];
+  stats: { added: number; removed: number; unchanged: number };
+}
+
+type Op = { type: "equal" | "remove" | "add"; left?: number; right?: number };
+
+/** Most lines either text may have: the LCS table grows with the product of the two line counts. */
+export const MAX_DIFF_LINES = 2000;
+
+/** Backtracks an LCS table into a sequence of equal / remove / add operations. */
+function lineOps(a: string[], b: string[]): Op[] {
+  const lcs = Array.from({ length: a.length + 1 }, () => new Int32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: "equal", left: i++, right: j++ });
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: "remove", left: i++ });
+    } else {
+      ops.push({ type: "add", right: j++ });
+    }
+  }
+  while (i < a.length) ops.push({ type: "remove", left: i++ });
+  while (j < b.length) ops.push({ type: "add", right: j++ });
+  return ops;
+}
+
+export function diffLines(before: string, after: string): DiffResult {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    throw new Error(`Revisions longer than ${MAX_DIFF_LINES} lines cannot be compared`);
+  }
+  const ops = lineOps(a, b);
+  const rows: DiffRow[] = [];
+  const stats = { added: 0, removed: 0, unchanged: 0 };
+
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].type === "equal") {
+      const { left, right } = ops[k++];
+      rows.push({
+        kind: "unchanged",
+        left: { number: left! + 1, text: a[left!] },
+        right: { number: right! + 1, text: b[right!] },
+      });
+      stats.unchanged++;
+      continue;
+    }
+
+    // Collect the run of removals and additions and pair them row by row
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (k < ops.length && ops[k].type !== "equal") {
+      if (ops[k].type === "remove") removed.push(ops[k].left!);
+      else added.push(ops[k].right!);
+      k++;
+    }
+    stats.removed += removed.length;
+    stats.added += added.length;
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      const left = r < removed.length ? { number: removed[r] + 1, text: a[removed[r]] } : null;
+      const right = r < added.length ? { number: added[r] + 1, text: b[added[r]] } : null;
+      rows.push({ kind: left && right ? "changed" : left ? "removed" : "added", left, right });
+    }
+  }
+
+  return { rows, stats };
+}
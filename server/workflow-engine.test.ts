@@ -0,0 +1,112 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { Persona } from "@shared/schema";
+import { createLLMStubServer, pickReply } from "../script/llm-stub-server";
+import { OpenAICompatibleProvider, setLLMProvider } from "./llm-provider";
+
+// Runs the real handler through bilko-flow against a seeded Postgres database.
+const skip = process.env.DATABASE_URL ? false : "DATABASE_URL is not set";
+
+describe("custom.persona-response", { skip }, () => {
+  let engine: typeof import("./workflow-engine");
+  let storage: typeof import("./storage")["storage"];
+  let closeDatabase: () => Promise<void>;
+  let stub: Server;
+  let stubUrl: string;
+  let scenarioId: number;
+  let persona: Persona;
+
+  before(async () => {
+    ({ storage } = await import("./storage"));
+    const { seedDatabase } = await import("./seed");
+    const { pool } = await import("./db");
+    engine = await import("./workflow-engine");
+    closeDatabase = () => pool.end();
+
+    await seedDatabase();
+    const scenario = await storage.getScenarioBySlug("risk-intelligence-pitch");
+    assert.ok(scenario, "seeded scenario is missing");
+    scenarioId = scenario.id;
+    persona = (await storage.getScenarioPersonas(scenarioId))[0].persona;
+
+    stub = createLLMStubServer();
+    await new Promise<void>(resolve => stub.listen(0, "127.0.0.1", resolve));
+    stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}/v1`;
+  });
+
+  after(async () => {
+    setLLMProvider(null);
+    await new Promise<void>(resolve => stub.close(() => resolve()));
+    await closeDatabase();
+  });
+
+  async function replyTo(content: string, seed = 1234) {
+    const session = await storage.createSession({
+      scenarioId,
+      userRole: "Account Executive",
+      userSeniority: "IC",
+      seed,
+      status: "active",
+      currentChannel: "email",
+    });
+    const message = await storage.createMessage({ sessionId: session.id, channel: "email", senderType: "user", senderName: "You", content, step: 1 });
+    const inputs = await engine.buildPersonaResponseInputs(session.id, persona.id, persona.personaType, content, message.id, "email");
+    return engine.executePersonaResponseStep(inputs);
+  }
+
+  it("answers through the configured provider", async () => {
+    setLLMProvider(new OpenAICompatibleProvider({ baseUrl: stubUrl, model: "stub-model", timeoutMs: 5000 }));
+    const message = "Can we walk through pricing for next year?";
+    const result = await replyTo(message);
+    assert.equal(result.provider, "openai");
+    assert.equal(result.response, pickReply(`[Rep via email]: ${message}`));
+    assert.equal(result.personaName, persona.name);
+    assert.ok(result.personaState);
+  });
+
+  it("falls back to the pattern table when the provider fails", async () => {
+    setLLMProvider(new OpenAICompatibleProvider({ baseUrl: "http://127.0.0.1:1/v1", model: "stub-model", timeoutMs: 5000 }));
+    const result = await replyTo("Thanks for taking the time to speak with me.");
+    assert.equal(result.provider, "patterns");
+    assert.ok(result.response.length > 0);
+  });
+
+  it("draws the same pattern-table reply from the same session seed", async () => {
+    setLLMProvider(null);
+    const message = "We have helped similar teams cut review time by 30%.";
+    const first = await replyTo(message, 98765);
+    const second = await replyTo(message, 98765);
+    assert.equal(first.provider, "patterns");
+    assert.equal(first.response, second.response);
+    assert.equal(first.stage, second.stage);
+  });
+
+  it("records a reply against the turn it answers when the rep has sent more", async () => {
+    setLLMProvider(null);
+    const session = await storage.createSession({
+      scenarioId,
+      userRole: "Account Executive",
+      userSeniority: "IC",
+      seed: 4321,
+      status: "active",
+      currentChannel: "email",
+    });
+    const runId = await engine.ensureSessionRun(session);
+    // Both turns are saved before the first (delayed) reply runs
+    const turns = [];
+    for (const content of ["Thanks for the time yesterday.", "Following up on pricing for next year."]) {
+      turns.push(await storage.createMessage({ sessionId: session.id, channel: "email", senderType: "user", senderName: "You", content, step: 1 }));
+    }
+    for (const turn of turns) {
+      await engine.executeSessionPersonaResponse(runId, session.id, scenarioId, persona.id, persona.personaType, turn.content, turn.id, "email", 1);
+    }
+
+    const run = await engine.getRunStore().getRun(runId);
+    assert.ok(run);
+    const replies = Object.values(run.stepResults).filter(r => r.stepId === "step-1-persona");
+    assert.deepEqual(replies.map(r => r.inputs.userMessageId).sort(), turns.map(t => t.id).sort());
+    assert.ok(replies.every(r => r.attempts === 1));
+  });
+});
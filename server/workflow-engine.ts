@@ -18,14 +18,45 @@ import {
   type StepHandler,
   type Workflow,
   type Step,
-  type Run,
   type CreateRunInput,
   WorkflowStatus,
   DeterminismGrade,
 } from "bilko-flow";
 import type { CompiledStep, StepExecutionContext } from "bilko-flow";
 import { storage } from "./storage";
-import type { Persona, Scenario, Message } from "@shared/schema";
+import {
+  createWorkflowRunStore,
+  type RunRetentionPolicy,
+  type SessionStepResult,
+  type StoredRun,
+  type WorkflowRunStore,
+} from "./bilko-store";
+import { getLLMProvider } from "./llm-provider";
+import { getReplySink } from "./reply-stream";
+import { createRng, pickRandom } from "./rng";
+import { getDeadlineOutcome, type DeadlineOutcome } from "./artifact-policy";
+import { getResponseTiming, formatDuration, type ResponseTiming } from "./step-timer";
+import { analyzeStakeholderAdaptation, type StakeholderAdaptation } from "./stakeholder-intro";
+import { findContradictions, getMemoryRecallLine } from "./session-memory";
+import { buildCommitmentLedger, type Commitment } from "./commitments";
+import { scoreSession, citeMessages, citeArtifacts, type RubricMessage, type RubricArtifact, type RubricScenario } from "./rubric";
+import { buildPersonaPrompt, type PersonaPrompt, type MeetingCue } from "./persona-prompt";
+import {
+  getActiveConstraints,
+  getConstraintLine,
+  analyzeConstraintHandling,
+  formatConstraintList,
+} from "./constraints";
+import {
+  applyUserTurn,
+  getInitialPersonaState,
+  getStageFromState,
+  getStanceFromState,
+  type PersonaStateValues,
+  type PersonaStance,
+  type StateTransition,
+} from "./persona-state";
+import type { Persona, Scenario, Session, Message, SessionMemory, EvidenceRef } from "@shared/schema";
 
 // ─── Bilko-Flow Application Context (singleton) ─────────────────────────────
 
@@ -43,6 +74,16 @@ export function getBilkoContext(): AppContext {
   return bilkoContext;
 }
 
+let runStore: WorkflowRunStore | null = null;
+
+/** Store for scenario workflows and session runs, selected by BILKO_STORE. */
+export function getRunStore(): WorkflowRunStore {
+  if (!runStore) {
+    runStore = createWorkflowRunStore(process.env, getBilkoContext(), getBilkoScope());
+  }
+  return runStore;
+}
+
 export function getBilkoScope() {
   return {
     accountId: BILKO_ACCOUNT_ID,
@@ -118,30 +159,6 @@ const responsePatterns: Record<string, Record<string, string[]>> = {
   },
 };
 
-function pickRandom<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
-
-function getStageForPersonaType(personaType: string, messageCount: number): string {
-  if (personaType === "analytical_calm") {
-    if (messageCount === 0) return "opening";
-    if (messageCount <= 2) return "probing";
-    if (messageCount <= 4) return "satisfied";
-    return "closing";
-  }
-  if (personaType === "cooperative") {
-    if (messageCount === 0) return "opening";
-    if (messageCount <= 2) return "coaching";
-    if (messageCount <= 4) return "supportive";
-    return "closing";
-  }
-  // difficult_skeptical and default
-  if (messageCount === 0) return "opening";
-  if (messageCount <= 2) return "objection";
-  if (messageCount <= 4) return "engaged";
-  return "closing";
-}
-
 function getContextualModifier(userMessage: string, channel: string): string {
   const lower = userMessage.toLowerCase();
   let channelPrefix = "";
@@ -163,6 +180,77 @@ function getContextualModifier(userMessage: string, channel: string): string {
   return channelPrefix;
 }
 
+/**
+ * Loads (or initializes) the persona's stored state for the session and, for
+ * user turns, applies the turn and persists the result.
+ */
+async function updatePersonaState(
+  sessionId: number,
+  personaId: number,
+  personaType: string,
+  userMessage: string,
+  isUserTurn: boolean,
+  constraints: string[],
+): Promise<{ personaState: PersonaStateValues; stateChange: StateTransition | null }> {
+  const stored = await storage.getPersonaState(sessionId, personaId);
+  const current: PersonaStateValues = stored
+    ? { trust: stored.trust, patience: stored.patience, perceivedValue: stored.perceivedValue }
+    : getInitialPersonaState(personaType);
+
+  const stateChange = isUserTurn
+    ? applyUserTurn(personaType, current, userMessage, constraints, stored?.turnCount ?? 0)
+    : null;
+  const personaState = stateChange ? stateChange.after : current;
+
+  if (!stored || stateChange) {
+    await storage.upsertPersonaState({
+      sessionId,
+      personaId,
+      ...personaState,
+      stance: getStanceFromState(personaState),
+      turnCount: (stored?.turnCount ?? 0) + (stateChange ? 1 : 0),
+    });
+  }
+
+  return { personaState, stateChange };
+}
+
+/**
+ * Loads the session context and assembles the canonical persona prompt.
+ * Returns null when the session or scenario no longer exists.
+ */
+async function loadPersonaPrompt(
+  persona: Persona,
+  sessionId: number,
+  channel: string,
+  userMessage: string,
+  meeting?: MeetingCue,
+): Promise<PersonaPrompt | null> {
+  const session = await storage.getSession(sessionId);
+  if (!session) return null;
+  const scenario = await storage.getScenario(session.scenarioId);
+  if (!scenario) return null;
+
+  const [history, scenarioPersonas, memories] = await Promise.all([
+    storage.getMessages(sessionId),
+    storage.getScenarioPersonas(scenario.id),
+    storage.getSessionMemories(sessionId),
+  ]);
+  const link = scenarioPersonas.find(sp => sp.personaId === persona.id);
+
+  return buildPersonaPrompt({
+    persona,
+    roleInScenario: link?.roleInScenario,
+    scenario,
+    session,
+    channel,
+    history,
+    userMessage,
+    meeting,
+    memories,
+  });
+}
+
 // ─── Custom Step Handlers ────────────────────────────────────────────────────
 
 function registerCustomStepHandlers() {
@@ -171,48 +259,114 @@ function registerCustomStepHandlers() {
    *
    * Generates a persona response based on persona type, conversation stage,
    * and user message context. This replaces the standalone persona-engine module.
+   * Both paths consume the canonical prompt from persona-prompt.ts: the
+   * configured LLM provider receives it in full, and the response pattern
+   * table (the offline fallback) reads the user turn it was built around.
    *
    * Inputs:
    *   - personaId: number
    *   - personaType: string
    *   - userMessage: string
+   *   - userMessageId?: number (the saved user turn; its contradictions are called out, see session-memory.ts)
    *   - channel: string
    *   - sessionId: number
+   *   - seed: number (session PRNG seed)
    *   - priorPersonaMessageCount: number
+   *   - userTurn?: boolean (false for persona-initiated messages; skips the state update)
+   *   - replyId?: string (streams LLM output to the reply's sink; see reply-stream.ts)
+   *   - constraints: string[] (active scenario + session constraints; see constraints.ts)
+   *   - meeting?: { reaction, participants } (multi-persona meeting turn; see meeting.ts)
    *
    * Outputs:
    *   - response: string
-   *   - stage: string
+   *   - stage: string (derived from the persona's trust / patience / perceived value)
    *   - personaName: string
+   *   - provider: string ("patterns" when the offline fallback was used)
+   *   - streamed?: boolean (true when the response was relayed to the reply's sink as generated)
+   *   - personaState: { trust, patience, perceivedValue }
+   *   - stance: "supportive" | "neutral" | "skeptical" | "opposed"
+   *   - stateChange: { before, after, deltas, signals, reasons } | null
    */
   const personaResponseHandler: StepHandler = {
     type: "custom.persona-response",
     async execute(step: CompiledStep, context: StepExecutionContext) {
-      const { personaId, personaType, userMessage, channel, priorPersonaMessageCount } =
-        step.inputs as {
+      const { personaId, personaType, userMessage, userMessageId, channel, sessionId, seed, priorPersonaMessageCount, userTurn, replyId, constraints = [], meeting } =
+        (await resolveStepInputs(step, context)) as {
           personaId: number;
           personaType: string;
           userMessage: string;
+          userMessageId?: number;
           channel: string;
           sessionId: number;
+          seed: number;
           priorPersonaMessageCount: number;
+          userTurn?: boolean;
+          replyId?: string;
+          constraints?: string[];
+          meeting?: MeetingCue;
         };
 
       const persona = await storage.getPersona(personaId);
       const personaName = persona?.name ?? "Unknown";
 
+      // Move the persona's trust / patience / perceived value with the user's turn
+      const { personaState, stateChange } = await updatePersonaState(
+        sessionId,
+        personaId,
+        personaType,
+        userMessage,
+        userTurn !== false,
+        constraints,
+      );
+
+      const stance = getStanceFromState(personaState);
+
       const patterns = responsePatterns[personaType];
+      const stage = patterns ? getStageFromState(personaType, personaState, priorPersonaMessageCount) : "fallback";
+
+      const prompt = persona ? await loadPersonaPrompt(persona, sessionId, channel, userMessage, meeting) : null;
+      const promptUserMessage = prompt?.userMessage ?? userMessage;
+
+      // Prefer the configured LLM provider; the pattern table below is the offline fallback
+      const provider = getLLMProvider();
+      if (provider && prompt) {
+        try {
+          const sink = provider.stream ? getReplySink(replyId) : undefined;
+          const completion = sink
+            ? await provider.stream!({ messages: prompt.messages, seed }, sink)
+            : await provider.complete({ messages: prompt.messages, seed });
+          return {
+            outputs: {
+              response: completion.content,
+              stage,
+              personaName,
+              provider: completion.provider,
+              streamed: !!sink,
+              promptTokens: prompt.estimatedTokens,
+              personaState,
+              stance,
+              stateChange,
+            },
+          };
+        } catch (e) {
+          console.error("LLM provider error, falling back to response patterns:", e);
+        }
+      }
+
       if (!patterns) {
         return {
           outputs: {
             response: `Thank you for your message. I'll review this and get back to you with my thoughts.`,
-            stage: "fallback",
+            stage,
             personaName,
+            provider: "patterns",
+            personaState,
+            stance,
+            stateChange,
           },
         };
       }
 
-      const stage = getStageForPersonaType(personaType, priorPersonaMessageCount);
       const stageResponses = patterns[stage];
       if (!stageResponses || stageResponses.length === 0) {
         return {
@@ -220,18 +374,32 @@ function registerCustomStepHandlers() {
             response: `I've noted your points. Let me think about this and we can discuss further.`,
             stage,
             personaName,
+            provider: "patterns",
+            personaState,
+            stance,
+            stateChange,
           },
         };
       }
 
-      const baseResponse = pickRandom(stageResponses);
-      const modifier = getContextualModifier(userMessage, channel);
+      const rng = createRng(seed, "persona", personaId, priorPersonaMessageCount);
+      const baseResponse = pickRandom(rng, stageResponses);
+      const modifier = getContextualModifier(promptUserMessage, channel);
+      // Opening replies stay as scripted; constraints press from the first real exchange
+      const constraintLine = stage === "opening" ? null : getConstraintLine(constraints, promptUserMessage, rng, priorPersonaMessageCount - 1);
+      const interruption = meeting?.reaction === "interrupt" ? "Sorry to cut in, but this matters on my side. " : "";
+      // Hold the rep to what they said on other channels, and call out contradictions
+      const memoryLine = getMemoryRecallLine(await storage.getSessionMemories(sessionId), userMessageId, channel, rng);
 
       return {
         outputs: {
-          response: baseResponse + modifier,
+          response: interruption + baseResponse + modifier + (constraintLine ? ` ${constraintLine}` : "") + (memoryLine ? ` ${memoryLine}` : ""),
           stage,
           personaName,
+          provider: "patterns",
+          personaState,
+          stance,
+          stateChange,
         },
       };
     },
@@ -253,8 +421,8 @@ function registerCustomStepHandlers() {
    */
   const channelTransitionHandler: StepHandler = {
     type: "custom.channel-transition",
-    async execute(step: CompiledStep, _context: StepExecutionContext) {
-      const { channel, stepNumber } = step.inputs as {
+    async execute(step: CompiledStep, context: StepExecutionContext) {
+      const { channel, stepNumber } = (await resolveStepInputs(step, context)) as {
         channel: string;
         stepNumber: number;
       };
@@ -280,55 +448,161 @@ function registerCustomStepHandlers() {
   /**
    * Step handler: custom.assessment
    *
-   * Generates an automated assessment of the session across 7 dimensions.
+   * Generates an automated assessment of the session across 7 dimensions
+   * using the deterministic rubric engine in rubric.ts.
    * Replaces the inline assessment generation in routes.ts.
    *
    * Inputs:
    *   - sessionId: number
-   *   - userMessageCount: number
-   *   - artifactCount: number
-   *   - uniqueChannelCount: number
-   *   - hasArtifacts: boolean
+   *   - transcript: RubricMessage[]
+   *   - artifacts: RubricArtifact[]
+   *   - scenario: { channels, requiredArtifacts, estimatedSteps }
+   *   - deadlines: { missing, late, penaltyPerMissing } (required-artifact policy outcome)
+   *   - constraints: string[] (active scenario + session constraints)
+   *   - timing: { slowTurns, timedOutSteps, medianLatencyMs } (ticking-clock response timing)
+   *   - adaptation: [{ personaId, name, step, joinMessageId, checkedMessageIds, adaptedMessageIds }] (stakeholders who joined)
+   *   - contradictions: [{ subject, earlier, later }] (rep statements that changed; see session-memory.ts)
+   *   - commitments: Commitment[] (the rep's commitments ledger, classified by seniority and constraints; see commitments.ts)
    *
    * Outputs:
    *   - scores: { ... }
+   *   - scoreRationales: { ... } (one written rationale per dimension)
+   *   - scoreEvidence: { ... } (message / artifact refs per dimension)
    *   - overallScore: number
    *   - recommendation: string
    *   - summary: string
-   *   - frictionPoints: [...]
+   *   - frictionPoints: [...] (each with message / artifact evidence refs)
    *   - strengths: [...]
    *   - areasForImprovement: [...]
+   *   - activeConstraints: string[]
    */
   const assessmentHandler: StepHandler = {
     type: "custom.assessment",
-    async execute(step: CompiledStep, _context: StepExecutionContext) {
-      const {
-        sessionId,
-        userMessageCount,
-        artifactCount,
-        uniqueChannelCount,
-        hasArtifacts,
-      } = step.inputs as {
+    async execute(step: CompiledStep, context: StepExecutionContext) {
+      const { transcript, artifacts, scenario, deadlines, constraints = [], timing, adaptation = [], contradictions = [], commitments = [] } = (await resolveStepInputs(step, context)) as {
         sessionId: number;
-        userMessageCount: number;
-        artifactCount: number;
-        uniqueChannelCount: number;
-        hasArtifacts: boolean;
+        transcript: RubricMessage[];
+        artifacts: RubricArtifact[];
+        scenario: RubricScenario;
+        deadlines: DeadlineOutcome;
+        constraints?: string[];
+        timing?: ResponseTiming;
+        adaptation?: StakeholderAdaptation[];
+        contradictions?: RecordedContradiction[];
+        commitments?: Commitment[];
       };
 
-      const messageDepth = Math.min(userMessageCount * 8, 100);
-      const artifactBonus = hasArtifacts ? 15 : 0;
-      const channelDiversity = Math.min(uniqueChannelCount * 12, 100);
-
-      const scores = {
-        persuasiveness: Math.min(Math.round(messageDepth * 0.8 + Math.random() * 20), 100),
-        objectionHandling: Math.min(Math.round(messageDepth * 0.7 + Math.random() * 25), 100),
-        interpersonalVibe: Math.min(Math.round(messageDepth * 0.75 + Math.random() * 20), 100),
-        writtenCommunication: Math.min(Math.round((messageDepth + artifactBonus) * 0.8 + Math.random() * 15), 100),
-        artifactQuality: hasArtifacts ? Math.min(Math.round(60 + Math.random() * 35), 100) : 0,
-        sequencingStrategy: Math.min(Math.round(channelDiversity * 0.8 + Math.random() * 20), 100),
-        decisionQuality: Math.min(Math.round(messageDepth * 0.65 + Math.random() * 30), 100),
+      const { scores, rationales, evidence, metrics } = scoreSession(transcript, artifacts, scenario);
+
+      // Required-artifact policy: deduct for every missing or late deliverable
+      const deadlinePenalty = deadlines.missing.length * deadlines.penaltyPerMissing
+        + Math.round(deadlines.late.length * deadlines.penaltyPerMissing / 2);
+      if (deadlinePenalty > 0) {
+        scores.artifactQuality = Math.max(0, scores.artifactQuality - deadlinePenalty);
+        rationales.artifactQuality += ` ${deadlinePenalty} point(s) deducted under the scenario's artifact deadline policy` +
+          ` (${deadlines.missing.length} missing, ${deadlines.late.length} late).`;
+      }
+
+      // Active constraints: penalise loose compliance claims, skipped procurement and unmanaged deadlines
+      const activeConstraints = new Set(constraints);
+      const userTurns = transcript.filter(m => m.senderType === "user");
+      const handling = analyzeConstraintHandling(userTurns);
+      const deduct = (dimension: keyof typeof scores, points: number, note: string) => {
+        scores[dimension] = Math.max(0, scores[dimension] - points);
+        rationales[dimension] += ` ${points} point(s) deducted: ${note}.`;
       };
+      const constraintFrictionPoints: Array<{ area: string; description: string; severity: string; channel: string; evidence: EvidenceRef[] }> = [];
+      if (activeConstraints.has("complianceSensitivity") && handling.looseClaims.length > 0) {
+        const penalty = Math.min(handling.looseClaims.length * 8, 24);
+        deduct("persuasiveness", penalty, `${handling.looseClaims.length} unsubstantiated compliance claim(s) under compliance sensitivity`);
+        deduct("decisionQuality", penalty, "compliance claims were made without documentation to back them");
+        constraintFrictionPoints.push({
+          area: "Unsubstantiated Compliance Claims",
+          description: `${handling.looseClaims.length} message(s) made compliance or security claims without naming the documentation (BAA, audit, validation) behind them.`,
+          severity: "high",
+          channel: "all",
+          evidence: citeMessages(transcript, handling.looseClaims),
+        });
+      }
+      if (activeConstraints.has("procurementStrictness") && userTurns.length > 0) {
+        if (handling.procurementBypassed.length > 0) {
+          deduct("decisionQuality", 10, "tried to work around a strict procurement process");
+          constraintFrictionPoints.push({
+            area: "Procurement Bypass",
+            description: "Suggested skipping or working around procurement, security review or legal under a strict procurement process.",
+            severity: "high",
+            channel: "all",
+            evidence: citeMessages(transcript, handling.procurementBypassed),
+          });
+        } else if (handling.procurementEngaged.length === 0) {
+          deduct("decisionQuality", 8, "never engaged with the security review, MSA or bid process");
+          constraintFrictionPoints.push({
+            area: "Procurement Process Ignored",
+            description: "Procurement strictness was active, but the security review, MSA and competitive bid requirements were never addressed.",
+            severity: "medium",
+            channel: "all",
+            evidence: [],
+          });
+        }
+      }
+      if (activeConstraints.has("tickingClockPressure") && userTurns.length > 0 && handling.datedCommitments.length === 0) {
+        deduct("sequencingStrategy", 10, "no dated commitment was made under deadline pressure");
+        constraintFrictionPoints.push({
+          area: "Deadline Not Managed",
+          description: "Stakeholders were under deadline pressure, but no turn committed to a date or timeframe.",
+          severity: "medium",
+          channel: "all",
+          evidence: [],
+        });
+      }
+      // Ticking clock: hesitation costs decision quality, steps that ran out of time cost sequencing
+      if (activeConstraints.has("tickingClockPressure") && timing) {
+        const pace = timing.medianLatencyMs !== null ? ` Median response time: ${formatDuration(timing.medianLatencyMs)}.` : "";
+        if (timing.slowTurns.length > 0) {
+          deduct("decisionQuality", Math.min(timing.slowTurns.length * 5, 15), `${timing.slowTurns.length} turn(s) took more than half the step's time budget`);
+          constraintFrictionPoints.push({
+            area: "Hesitation Under Deadline",
+            description: `${timing.slowTurns.length} response(s) used more than half of the step's time budget before answering.`,
+            severity: "medium",
+            channel: "all",
+            evidence: citeMessages(transcript, timing.slowTurns),
+          });
+        }
+        rationales.decisionQuality += pace;
+        if (timing.timedOutSteps.length > 0) {
+          deduct("sequencingStrategy", Math.min(timing.timedOutSteps.length * 10, 20), `${timing.timedOutSteps.length} step(s) ran out of time`);
+          constraintFrictionPoints.push({
+            area: "Step Time Ran Out",
+            description: `Step(s) ${timing.timedOutSteps.map(t => t.step).join(", ")} ran past their time budget, forcing the stakeholder to chase or the conversation to move on.`,
+            severity: "high",
+            channel: "all",
+            evidence: citeMessages(transcript, timing.timedOutSteps.map(t => t.messageId)),
+          });
+        }
+      }
+      // Stakeholders who joined mid-session: did the rep's next turns speak to them?
+      const assessedJoins = adaptation.filter(a => a.checkedMessageIds.length > 0);
+      const missedJoins = assessedJoins.filter(a => a.adaptedMessageIds.length === 0);
+      if (missedJoins.length > 0) {
+        deduct("interpersonalVibe", Math.min(missedJoins.length * 8, 16), `did not adapt to ${missedJoins.map(a => a.name).join(", ")} joining`);
+      }
+      // Statements the rep later changed cost credibility
+      if (contradictions.length > 0) {
+        deduct("persuasiveness", Math.min(contradictions.length * 8, 24), `${contradictions.length} earlier statement(s) were contradicted later`);
+      }
+      // Commitments beyond the rep's seniority or the scenario's constraints
+      const overreach = commitments.filter(c => c.verdict === "overreach");
+      const needsApproval = commitments.filter(c => c.verdict === "needs_approval");
+      if (overreach.length > 0) {
+        deduct("decisionQuality", Math.min(overreach.length * 10, 30), `${overreach.length} commitment(s) went beyond the rep's authority`);
+      }
+      if (needsApproval.length > 0) {
+        deduct("decisionQuality", Math.min(needsApproval.length * 4, 12), `${needsApproval.length} commitment(s) were made without the approval they need`);
+      }
+      const userMessageCount = metrics.userTurns;
+      const uniqueChannelCount = metrics.channelsUsed.length;
+      const artifactCount = artifacts.length;
+      const hasArtifacts = artifactCount > 0;
 
       const overallScore = Math.round(
         Object.values(scores).reduce((a, b) => a + b, 0) / Object.keys(scores).length
@@ -336,13 +610,14 @@ function registerCustomStepHandlers() {
 
       const recommendation = overallScore >= 70 ? "pass" : overallScore >= 50 ? "needs_improvement" : "fail";
 
-      const frictionPoints: Array<{ area: string; description: string; severity: string; channel: string }> = [];
+      const frictionPoints: Array<{ area: string; description: string; severity: string; channel: string; evidence: EvidenceRef[] }> = [];
       if (!hasArtifacts) {
         frictionPoints.push({
           area: "Artifact Production",
           description: "No artifacts were submitted during the session. Required deliverables were not produced.",
           severity: "high",
           channel: "all",
+          evidence: [],
         });
       }
       if (userMessageCount < 3) {
@@ -351,6 +626,7 @@ function registerCustomStepHandlers() {
           description: "Limited engagement with stakeholders. More substantive interactions would demonstrate stronger consultative selling skills.",
           severity: "medium",
           channel: "all",
+          evidence: citeMessages(transcript, transcript.filter(m => m.senderType === "user").map(m => m.id)),
         });
       }
       if (uniqueChannelCount < 2) {
@@ -359,6 +635,74 @@ function registerCustomStepHandlers() {
           description: "Engagement was limited to a single channel. Multi-channel sequencing is important for demonstrating full workflow competency.",
           severity: "medium",
           channel: "email",
+          evidence: citeMessages(transcript, metrics.refs.firstPerChannel),
+        });
+      }
+      if (metrics.objectionsRaised > metrics.objectionsAddressed) {
+        const unaddressed = metrics.objectionsRaised - metrics.objectionsAddressed;
+        frictionPoints.push({
+          area: "Unaddressed Objections",
+          description: `${unaddressed} of ${metrics.objectionsRaised} stakeholder objection(s) were not answered with evidence or a concrete next step.`,
+          severity: unaddressed > metrics.objectionsRaised / 2 ? "high" : "medium",
+          channel: "all",
+          evidence: citeMessages(transcript, metrics.refs.objectionsUnaddressed),
+        });
+      }
+      if (metrics.overpromises > 0) {
+        frictionPoints.push({
+          area: "Over-Commitment",
+          description: `${metrics.overpromises} message(s) made guarantees or absolute claims that a stakeholder could hold against you later.`,
+          severity: "high",
+          channel: "all",
+          evidence: citeMessages(transcript, metrics.refs.overpromises),
+        });
+      }
+      for (const missing of deadlines.missing) {
+        frictionPoints.push({
+          area: "Missing Deliverable",
+          description: `Required ${missing.type.replace(/_/g, " ")} was never submitted (due by step ${missing.dueByStep}).`,
+          severity: "high",
+          channel: "all",
+          evidence: [],
+        });
+      }
+      for (const late of deadlines.late) {
+        frictionPoints.push({
+          area: "Late Deliverable",
+          description: `Required ${late.type.replace(/_/g, " ")} was submitted after its step ${late.dueByStep} deadline.`,
+          severity: "medium",
+          channel: "all",
+          evidence: citeArtifacts(artifacts.filter(a => a.type === late.type), 1),
+        });
+      }
+      frictionPoints.push(...constraintFrictionPoints);
+      for (const c of contradictions) {
+        frictionPoints.push({
+          area: "Contradicted Earlier Statement",
+          description: `On ${c.subject}, the rep said "${c.earlier.content}" (${c.earlier.channel.replace(/_/g, " ")}, step ${c.earlier.step}) and later "${c.later.content}" (${c.later.channel.replace(/_/g, " ")}, step ${c.later.step}).`,
+          severity: "high",
+          channel: c.later.channel,
+          evidence: citeMessages(transcript, [c.earlier.messageId, c.later.messageId]),
+        });
+      }
+      for (const c of overreach) {
+        frictionPoints.push({
+          area: "Commitment Beyond Authority",
+          description: `Committed to "${c.content}" ${c.reason}`,
+          severity: "high",
+          channel: c.channel ?? "all",
+          evidence: c.messageId !== undefined
+            ? citeMessages(transcript, [c.messageId])
+            : citeArtifacts(artifacts.filter(a => a.id === c.artifactId), 1),
+        });
+      }
+      for (const missed of missedJoins) {
+        frictionPoints.push({
+          area: "New Stakeholder Overlooked",
+          description: `${missed.name} joined at step ${missed.step}, but the next ${missed.checkedMessageIds.length} turn(s) neither addressed them nor spoke to their stated priorities.`,
+          severity: "medium",
+          channel: "all",
+          evidence: citeMessages(transcript, [missed.joinMessageId, ...missed.checkedMessageIds]),
         });
       }
 
@@ -366,11 +710,31 @@ function registerCustomStepHandlers() {
       if (userMessageCount >= 5) strengths.push("Strong engagement depth across multiple touchpoints");
       if (hasArtifacts) strengths.push("Produced required deliverables demonstrating documentation discipline");
       if (uniqueChannelCount >= 3) strengths.push("Effective multi-channel sequencing and stakeholder management");
+      if (metrics.objectionsRaised > 0 && metrics.objectionsAddressed === metrics.objectionsRaised) {
+        strengths.push("Answered every stakeholder objection with evidence or a concrete next step");
+      }
+      if (metrics.quantifiedClaims >= 3) strengths.push("Backed claims with quantified, specific evidence");
+      if (activeConstraints.has("procurementStrictness") && handling.procurementEngaged.length > 0 && handling.procurementBypassed.length === 0) {
+        strengths.push("Worked within the procurement process instead of around it");
+      }
+      if (activeConstraints.has("tickingClockPressure") && handling.datedCommitments.length > 0) {
+        strengths.push("Kept momentum under deadline pressure with dated commitments");
+      }
+      if (activeConstraints.has("tickingClockPressure") && timing && userTurns.length > 0 && timing.slowTurns.length === 0 && timing.timedOutSteps.length === 0) {
+        strengths.push("Answered decisively within every step's time budget");
+      }
+      if (assessedJoins.length > 0 && missedJoins.length === 0) {
+        strengths.push("Adapted to each new stakeholder, addressing them and their priorities soon after they joined");
+      }
+      if (commitments.length > 0 && overreach.length === 0 && needsApproval.length === 0) {
+        strengths.push("Kept every pricing, delivery, scope and compliance commitment within their authority");
+      }
 
       const areasForImprovement: string[] = [];
       if (!hasArtifacts) areasForImprovement.push("Produce all required artifacts as first-class deliverables");
       if (userMessageCount < 5) areasForImprovement.push("Deepen engagement with more substantive stakeholder interactions");
       if (scores.objectionHandling < 60) areasForImprovement.push("Strengthen objection handling with more specific, evidence-based responses");
+      if (metrics.questionsAsked < 2) areasForImprovement.push("Ask more discovery questions before proposing solutions");
 
       const summary = `Session completed with an overall score of ${overallScore}/100. ${
         recommendation === "pass"
@@ -378,17 +742,22 @@ function registerCustomStepHandlers() {
           : recommendation === "needs_improvement"
           ? "The candidate showed potential but needs improvement in key areas."
           : "The candidate did not meet the minimum performance threshold."
-      } ${userMessageCount} user messages across ${uniqueChannelCount} channel(s). ${artifactCount} artifact(s) submitted.`;
+      } ${userMessageCount} user messages across ${uniqueChannelCount} channel(s). ${artifactCount} artifact(s) submitted. ${
+        constraints.length > 0 ? `Active constraints: ${formatConstraintList(constraints)}.` : "No constraints were active."
+      }`;
 
       return {
         outputs: {
           scores,
+          scoreRationales: rationales,
+          scoreEvidence: evidence,
           overallScore,
           recommendation,
           summary,
           frictionPoints,
           strengths,
           areasForImprovement,
+          activeConstraints: constraints,
         },
       };
     },
@@ -401,6 +770,16 @@ function registerCustomStepHandlers() {
 
 // ─── Workflow Builder ────────────────────────────────────────────────────────
 
+export const ASSESSMENT_STEP_ID = "step-assessment";
+
+export function getTransitionStepId(stepNumber: number): string {
+  return `step-${stepNumber}-transition`;
+}
+
+export function getPersonaStepId(stepNumber: number): string {
+  return `step-${stepNumber}-persona`;
+}
+
 /**
  * Builds a bilko-flow Workflow definition from a scenario.
  * Each scenario channel becomes a step in the workflow, followed by an
@@ -418,7 +797,7 @@ export function buildScenarioWorkflow(scenario: Scenario): Workflow {
     const stepNum = i + 1;
 
     // Channel transition step
-    const transitionStepId = `step-${stepNum}-transition`;
+    const transitionStepId = getTransitionStepId(stepNum);
     steps.push({
       id: transitionStepId,
       workflowId,
@@ -438,7 +817,7 @@ export function buildScenarioWorkflow(scenario: Scenario): Workflow {
     });
 
     // Persona response step (depends on transition)
-    const responseStepId = `step-${stepNum}-persona`;
+    const responseStepId = getPersonaStepId(stepNum);
     steps.push({
       id: responseStepId,
       workflowId,
@@ -452,6 +831,7 @@ export function buildScenarioWorkflow(scenario: Scenario): Workflow {
         userMessage: "", // Will be provided at runtime
         channel,
         sessionId: 0, // Will be provided at runtime
+        seed: 0, // Will be provided at runtime
         priorPersonaMessageCount: 0, // Will be computed at runtime
         _handlerType: "custom.persona-response",
       },
@@ -465,7 +845,7 @@ export function buildScenarioWorkflow(scenario: Scenario): Workflow {
   }
 
   // Assessment step at the end
-  const assessmentStepId = "step-assessment";
+  const assessmentStepId = ASSESSMENT_STEP_ID;
   steps.push({
     id: assessmentStepId,
     workflowId,
@@ -475,10 +855,14 @@ export function buildScenarioWorkflow(scenario: Scenario): Workflow {
     dependsOn: previousStepIds.length > 0 ? [previousStepIds[previousStepIds.length - 1]] : [],
     inputs: {
       sessionId: 0,
-      userMessageCount: 0,
-      artifactCount: 0,
-      uniqueChannelCount: 0,
-      hasArtifacts: false,
+      transcript: [],
+      artifacts: [],
+      scenario: {
+        channels: scenario.channels,
+        requiredArtifacts: scenario.requiredArtifacts,
+        estimatedSteps: scenario.estimatedSteps,
+      },
+      deadlines: { missing: [], late: [], penaltyPerMissing: 0 },
       _handlerType: "custom.assessment",
     },
     policy: {
@@ -510,110 +894,186 @@ export function buildScenarioWorkflow(scenario: Scenario): Workflow {
   };
 }
 
-// ─── Run Management ──────────────────────────────────────────────────────────
+// ─── Handler Workflows ───────────────────────────────────────────────────────
+//
+// Each step handler is invoked through a single-step workflow that is built
+// once, cached and stored once per handler type. Every invocation is a run
+// of that workflow carrying its values as run inputs, which override the
+// step's placeholder inputs (see resolveStepInputs).
 
-/**
- * Creates and stores a bilko-flow workflow for a scenario, then creates a run.
- * Returns the run ID for tracking.
- */
-export async function createScenarioRun(scenarioId: number, sessionId: number): Promise<string> {
-  const ctx = getBilkoContext();
-  const scenario = await storage.getScenario(scenarioId);
-  if (!scenario) throw new Error("Scenario not found");
+type HandlerType = "custom.persona-response" | "custom.channel-transition" | "custom.assessment";
 
-  const workflow = buildScenarioWorkflow(scenario);
+const HANDLER_STEP_ID = "handler-step";
 
-  // Store the workflow in bilko-flow's store
-  await ctx.store.workflows.create(workflow);
+const handlerWorkflowSpecs: Record<HandlerType, { name: string; timeoutMs: number; grade: DeterminismGrade }> = {
+  "custom.persona-response": { name: "Persona Response", timeoutMs: 10000, grade: DeterminismGrade.BestEffort },
+  "custom.channel-transition": { name: "Channel Transition", timeoutMs: 5000, grade: DeterminismGrade.Pure },
+  "custom.assessment": { name: "Generate Assessment", timeoutMs: 15000, grade: DeterminismGrade.Pure },
+};
 
-  // Create a run
-  const run = await ctx.executor.createRun({
-    workflowId: workflow.id,
-    accountId: BILKO_ACCOUNT_ID,
-    projectId: BILKO_PROJECT_ID,
-    environmentId: BILKO_ENV_ID,
-    inputs: {
-      scenarioId,
-      sessionId,
-    },
-  });
+const handlerWorkflows = new Map<HandlerType, Workflow>();
+const storedWorkflowIds = new Set<string>();
 
-  return run.id;
-}
+function getHandlerWorkflow(handlerType: HandlerType): Workflow {
+  const cached = handlerWorkflows.get(handlerType);
+  if (cached) return cached;
 
-/**
- * Executes a persona response step using the bilko-flow step handler.
- * Called when a user sends a message during a session.
- */
-export async function executePersonaResponseStep(
-  sessionId: number,
-  scenarioId: number,
-  personaId: number,
-  personaType: string,
-  userMessage: string,
-  channel: string,
-  step: number,
-): Promise<{ response: string; stage: string; personaName: string }> {
-  const ctx = getBilkoContext();
-
-  // Count prior persona messages for this persona in this session
-  const allMessages = await storage.getMessages(sessionId);
-  const priorPersonaMessageCount = allMessages.filter(m => m.personaId === personaId).length;
-
-  // Build a one-off workflow with a single persona-response step
+  const spec = handlerWorkflowSpecs[handlerType];
+  const workflowId = `wf-handler-${handlerType.replace(/\./g, "-")}`;
   const now = new Date().toISOString();
-  const workflowId = `wf-persona-${sessionId}-${step}-${Date.now()}`;
-  const oneOffWorkflow: Workflow = {
+  const workflow: Workflow = {
     id: workflowId,
     accountId: BILKO_ACCOUNT_ID,
     projectId: BILKO_PROJECT_ID,
     environmentId: BILKO_ENV_ID,
-    name: `Persona Response (Session ${sessionId}, Step ${step})`,
+    name: spec.name,
     version: 1,
     specVersion: "1.0.0",
     status: WorkflowStatus.Active,
     createdAt: now,
     updatedAt: now,
-    determinism: { targetGrade: DeterminismGrade.BestEffort },
-    entryStepId: "persona-step",
+    determinism: { targetGrade: spec.grade },
+    entryStepId: HANDLER_STEP_ID,
     steps: [
       {
-        id: "persona-step",
+        id: HANDLER_STEP_ID,
         workflowId,
-        name: "Generate Persona Response",
+        name: spec.name,
         type: "custom" as any,
         dependsOn: [],
-        inputs: {
-          personaId,
-          personaType,
-          userMessage,
-          channel,
-          sessionId,
-          priorPersonaMessageCount,
-        },
-        policy: { timeoutMs: 10000, maxAttempts: 1 },
+        inputs: { _handlerType: handlerType },
+        policy: { timeoutMs: spec.timeoutMs, maxAttempts: 1 },
       },
     ],
     secrets: [],
   };
+  handlerWorkflows.set(handlerType, workflow);
+  return workflow;
+}
+
+async function storeWorkflowOnce(workflow: Workflow): Promise<void> {
+  if (storedWorkflowIds.has(workflow.id)) return;
+  await getBilkoContext().store.workflows.create(workflow);
+  storedWorkflowIds.add(workflow.id);
+}
 
-  await ctx.store.workflows.create(oneOffWorkflow);
+/** Merges a step's own inputs with the inputs of the run executing it. */
+async function resolveStepInputs(step: CompiledStep, context: StepExecutionContext): Promise<Record<string, unknown>> {
+  const run = await getBilkoContext().store.runs.getById(context.runId, getBilkoScope());
+  return { ...step.inputs, ...(run?.inputs ?? {}) };
+}
+
+/**
+ * Runs a handler's cached workflow with the given inputs and returns the
+ * step outputs. The invocation run is deleted afterwards: callers record the
+ * result on the session run, so keeping it would only grow the store.
+ */
+async function invokeHandler(
+  handlerType: HandlerType,
+  inputs: Record<string, unknown>,
+): Promise<Record<string, unknown> | null> {
+  const ctx = getBilkoContext();
+  const workflow = getHandlerWorkflow(handlerType);
+  await storeWorkflowOnce(workflow);
 
   const run = await ctx.executor.createRun({
-    workflowId: oneOffWorkflow.id,
+    workflowId: workflow.id,
     accountId: BILKO_ACCOUNT_ID,
     projectId: BILKO_PROJECT_ID,
     environmentId: BILKO_ENV_ID,
+    inputs,
   });
 
-  const executedRun = await ctx.executor.executeRun(run.id, getBilkoScope());
+  try {
+    const executedRun = await ctx.executor.executeRun(run.id, getBilkoScope());
+    return executedRun.stepResults[HANDLER_STEP_ID]?.outputs ?? null;
+  } finally {
+    await ctx.store.runs.delete(run.id, getBilkoScope());
+  }
+}
+
+// ─── Run Management ──────────────────────────────────────────────────────────
+
+/**
+ * Creates and stores a bilko-flow workflow for a scenario, then creates a run.
+ * Returns the run ID for tracking.
+ */
+export async function createScenarioRun(scenarioId: number, sessionId: number): Promise<string> {
+  const scenario = await storage.getScenario(scenarioId);
+  if (!scenario) throw new Error("Scenario not found");
+
+  // Every session of the scenario runs against the same stored definition
+  const workflow = buildScenarioWorkflow(scenario);
+  const store = getRunStore();
+  await store.saveWorkflow(workflow);
+
+  const run = await store.createRun(workflow, { scenarioId, sessionId });
+  return run.id;
+}
+
+export interface PersonaResponseResult {
+  response: string;
+  stage: string;
+  personaName: string;
+  provider: string;
+  /** True when the response was streamed to the reply's sink as it was generated. */
+  streamed: boolean;
+  personaState: PersonaStateValues | null;
+  stance: PersonaStance | null;
+  stateChange: StateTransition | null;
+}
 
-  const stepResult = executedRun.stepResults["persona-step"];
-  if (stepResult?.outputs) {
+/** Inputs for the custom.persona-response handler, as recorded on the session run. */
+export async function buildPersonaResponseInputs(
+  sessionId: number,
+  personaId: number,
+  personaType: string,
+  userMessage: string,
+  userMessageId: number | null,
+  channel: string,
+  replyId?: string,
+  meeting?: MeetingCue,
+): Promise<Record<string, unknown>> {
+  const session = await storage.getSession(sessionId);
+  if (!session) throw new Error("Session not found");
+  const scenario = await storage.getScenario(session.scenarioId);
+
+  // Count prior persona messages for this persona in this session
+  const allMessages = await storage.getMessages(sessionId);
+  const priorPersonaMessageCount = allMessages.filter(m => m.personaId === personaId).length;
+
+  return {
+    personaId,
+    personaType,
+    userMessage,
+    ...(userMessageId !== null ? { userMessageId } : {}),
+    channel,
+    sessionId,
+    seed: session.seed,
+    priorPersonaMessageCount,
+    userTurn: userMessageId !== null,
+    constraints: scenario ? getActiveConstraints(scenario, session) : [],
+    ...(replyId ? { replyId } : {}),
+    ...(meeting ? { meeting } : {}),
+  };
+}
+
+/**
+ * Executes a persona response step using the bilko-flow step handler.
+ * Called when a user sends a message during a session.
+ */
+export async function executePersonaResponseStep(inputs: Record<string, unknown>): Promise<PersonaResponseResult> {
+  const outputs = await invokeHandler("custom.persona-response", inputs);
+  if (outputs) {
     return {
-      response: stepResult.outputs.response as string,
-      stage: stepResult.outputs.stage as string,
-      personaName: stepResult.outputs.personaName as string,
+      response: outputs.response as string,
+      stage: outputs.stage as string,
+      personaName: outputs.personaName as string,
+      provider: outputs.provider as string,
+      streamed: outputs.streamed === true,
+      personaState: (outputs.personaState as PersonaStateValues) ?? null,
+      stance: (outputs.stance as PersonaStance) ?? null,
+      stateChange: (outputs.stateChange as StateTransition) ?? null,
     };
   }
 
@@ -621,6 +1081,11 @@ export async function executePersonaResponseStep(
     response: "Thank you for your message. I'll review this and get back to you.",
     stage: "fallback",
     personaName: "Unknown",
+    provider: "patterns",
+    streamed: false,
+    personaState: null,
+    stance: null,
+    stateChange: null,
   };
 }
 
@@ -632,51 +1097,79 @@ export async function executeChannelTransitionStep(
   channel: string,
   stepNumber: number,
 ): Promise<string> {
-  const ctx = getBilkoContext();
-  const now = new Date().toISOString();
-  const wfId = `wf-transition-${stepNumber}-${Date.now()}`;
+  const outputs = await invokeHandler("custom.channel-transition", { channel, stepNumber });
 
-  const workflow: Workflow = {
-    id: wfId,
-    accountId: BILKO_ACCOUNT_ID,
-    projectId: BILKO_PROJECT_ID,
-    environmentId: BILKO_ENV_ID,
-    name: `Channel Transition (Step ${stepNumber})`,
-    version: 1,
-    specVersion: "1.0.0",
-    status: WorkflowStatus.Active,
-    createdAt: now,
-    updatedAt: now,
-    determinism: { targetGrade: DeterminismGrade.Pure },
-    entryStepId: "transition-step",
-    steps: [
-      {
-        id: "transition-step",
-        workflowId: wfId,
-        name: "Channel Transition",
-        type: "custom" as any,
-        dependsOn: [],
-        inputs: { channel, stepNumber },
-        policy: { timeoutMs: 5000, maxAttempts: 1 },
-      },
-    ],
-    secrets: [],
-  };
+  return (outputs?.transitionMessage as string) ||
+    `**Step ${stepNumber}**: Continue the engagement through ${channel}.`;
+}
 
-  await ctx.store.workflows.create(workflow);
+/** A contradicted statement as recorded on the session run. */
+interface RecordedStatement {
+  messageId: number;
+  content: string;
+  channel: string;
+  step: number;
+}
 
-  const run = await ctx.executor.createRun({
-    workflowId: workflow.id,
-    accountId: BILKO_ACCOUNT_ID,
-    projectId: BILKO_PROJECT_ID,
-    environmentId: BILKO_ENV_ID,
-  });
+interface RecordedContradiction {
+  subject: string;
+  earlier: RecordedStatement;
+  later: RecordedStatement;
+}
 
-  const executedRun = await ctx.executor.executeRun(run.id, getBilkoScope());
-  const stepResult = executedRun.stepResults["transition-step"];
+function pickRecordedStatement(memory: SessionMemory): RecordedStatement {
+  return { messageId: memory.messageId, content: memory.content, channel: memory.channel, step: memory.step };
+}
 
-  return (stepResult?.outputs?.transitionMessage as string) ||
-    `**Step ${stepNumber}**: Continue the engagement through ${channel}.`;
+/** Inputs for the custom.assessment handler, as recorded on the session run. */
+export async function buildAssessmentInputs(sessionId: number): Promise<Record<string, unknown>> {
+  const session = await storage.getSession(sessionId);
+  if (!session) throw new Error("Session not found");
+
+  const scenario = await storage.getScenario(session.scenarioId);
+  if (!scenario) throw new Error("Scenario not found");
+
+  const messages = await storage.getMessages(sessionId);
+  const artifacts = await storage.getArtifacts(sessionId);
+
+  return {
+    sessionId,
+    transcript: messages.map(m => ({
+      id: m.id,
+      senderType: m.senderType,
+      senderName: m.senderName,
+      personaId: m.personaId,
+      channel: m.channel,
+      step: m.step,
+      content: m.content,
+    })),
+    artifacts: artifacts.map(a => ({
+      id: a.id,
+      type: a.type,
+      title: a.title,
+      content: a.content,
+      status: a.status,
+      score: a.score,
+    })),
+    scenario: {
+      channels: scenario.channels,
+      requiredArtifacts: scenario.requiredArtifacts,
+      estimatedSteps: scenario.estimatedSteps,
+    },
+    deadlines: getDeadlineOutcome(scenario, artifacts, messages),
+    constraints: getActiveConstraints(scenario, session),
+    timing: getResponseTiming(scenario, messages),
+    adaptation: analyzeStakeholderAdaptation(messages),
+    contradictions: findContradictions(await storage.getSessionMemories(sessionId)).map(c => ({
+      subject: c.subject,
+      earlier: pickRecordedStatement(c.earlier),
+      later: pickRecordedStatement(c.later),
+    })),
+    commitments: buildCommitmentLedger(messages, artifacts, {
+      seniority: session.userSeniority,
+      constraints: getActiveConstraints(scenario, session),
+    }).commitments,
+  };
 }
 
 /**
@@ -684,81 +1177,33 @@ export async function executeChannelTransitionStep(
  * Called when a session is completed and needs scoring.
  */
 export async function executeAssessmentStep(
-  sessionId: number,
+  inputs: Record<string, unknown>,
 ): Promise<{
   scores: Record<string, number>;
+  scoreRationales: Record<string, string>;
+  scoreEvidence: Record<string, EvidenceRef[]>;
   overallScore: number;
   recommendation: string;
   summary: string;
-  frictionPoints: Array<{ area: string; description: string; severity: string; channel: string }>;
+  frictionPoints: Array<{ area: string; description: string; severity: string; channel: string; evidence: EvidenceRef[] }>;
   strengths: string[];
   areasForImprovement: string[];
+  activeConstraints: string[];
 }> {
-  const ctx = getBilkoContext();
-
-  const messages = await storage.getMessages(sessionId);
-  const artifacts = await storage.getArtifacts(sessionId);
-
-  const userMessages = messages.filter(m => m.senderType === "user");
-  const uniqueChannels = new Set(messages.map(m => m.channel));
-
-  const now = new Date().toISOString();
-  const wfId = `wf-assessment-${sessionId}-${Date.now()}`;
-
-  const workflow: Workflow = {
-    id: wfId,
-    accountId: BILKO_ACCOUNT_ID,
-    projectId: BILKO_PROJECT_ID,
-    environmentId: BILKO_ENV_ID,
-    name: `Assessment (Session ${sessionId})`,
-    version: 1,
-    specVersion: "1.0.0",
-    status: WorkflowStatus.Active,
-    createdAt: now,
-    updatedAt: now,
-    determinism: { targetGrade: DeterminismGrade.BestEffort },
-    entryStepId: "assessment-step",
-    steps: [
-      {
-        id: "assessment-step",
-        workflowId: wfId,
-        name: "Generate Assessment",
-        type: "custom" as any,
-        dependsOn: [],
-        inputs: {
-          sessionId,
-          userMessageCount: userMessages.length,
-          artifactCount: artifacts.length,
-          uniqueChannelCount: uniqueChannels.size,
-          hasArtifacts: artifacts.length > 0,
-        },
-        policy: { timeoutMs: 15000, maxAttempts: 1 },
-      },
-    ],
-    secrets: [],
-  };
-
-  await ctx.store.workflows.create(workflow);
-
-  const run = await ctx.executor.createRun({
-    workflowId: workflow.id,
-    accountId: BILKO_ACCOUNT_ID,
-    projectId: BILKO_PROJECT_ID,
-    environmentId: BILKO_ENV_ID,
-  });
-
-  const executedRun = await ctx.executor.executeRun(run.id, getBilkoScope());
-  const stepResult = executedRun.stepResults["assessment-step"];
+  const outputs = await invokeHandler("custom.assessment", inputs);
 
-  if (stepResult?.outputs) {
+  if (outputs) {
     return {
-      scores: stepResult.outputs.scores as Record<string, number>,
-      overallScore: stepResult.outputs.overallScore as number,
-      recommendation: stepResult.outputs.recommendation as string,
-      summary: stepResult.outputs.summary as string,
-      frictionPoints: stepResult.outputs.frictionPoints as any[],
-      strengths: stepResult.outputs.strengths as string[],
-      areasForImprovement: stepResult.outputs.areasForImprovement as string[],
+      scores: outputs.scores as Record<string, number>,
+      scoreRationales: outputs.scoreRationales as Record<string, string>,
+      scoreEvidence: outputs.scoreEvidence as Record<string, EvidenceRef[]>,
+      overallScore: outputs.overallScore as number,
+      recommendation: outputs.recommendation as string,
+      summary: outputs.summary as string,
+      frictionPoints: outputs.frictionPoints as any[],
+      strengths: outputs.strengths as string[],
+      areasForImprovement: outputs.areasForImprovement as string[],
+      activeConstraints: (outputs.activeConstraints as string[]) ?? [],
     };
   }
 
@@ -787,3 +1232,298 @@ export async function getActivePersonaForStep(
     roleInScenario: selected.roleInScenario,
   };
 }
+
+/**
+ * Determines which persona answers a user turn: the one the rep addressed,
+ * otherwise the introduced persona who last spoke on the channel, otherwise
+ * the step's persona. Throws when the addressed persona has not been
+ * introduced by this step.
+ */
+export async function getReplyPersonaForTurn(
+  scenarioId: number,
+  step: number,
+  channel: string,
+  history: Pick<Message, "senderType" | "personaId" | "channel">[],
+  targetPersonaId?: number,
+): Promise<{ personaId: number; persona: Persona; roleInScenario: string } | null> {
+  const introduced = (await storage.getScenarioPersonas(scenarioId)).filter(sp => sp.introduceAtStep <= step);
+
+  if (targetPersonaId !== undefined) {
+    const target = introduced.find(sp => sp.personaId === targetPersonaId);
+    if (!target) throw new Error("That stakeholder has not joined the conversation yet");
+    return { personaId: target.personaId, persona: target.persona, roleInScenario: target.roleInScenario };
+  }
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const message = history[i];
+    if (message.senderType !== "persona" || message.channel !== channel) continue;
+    const speaker = introduced.find(sp => sp.personaId === message.personaId);
+    if (speaker) return { personaId: speaker.personaId, persona: speaker.persona, roleInScenario: speaker.roleInScenario };
+  }
+
+  return getActivePersonaForStep(scenarioId, step);
+}
+
+// ─── Session Runs ────────────────────────────────────────────────────────────
+//
+// Each session is driven through one run of its scenario workflow. Sessions
+// are interactive — every step waits on the rep — so instead of a single
+// executeRun pass the run's steps are executed one at a time as the session
+// moves, and each result is recorded on the run. The recorded transition
+// steps are the source of truth for how far the session has progressed.
+
+export interface RunProgress {
+  /** Highest step whose channel transition has run (0 before the first). */
+  currentStep: number;
+  currentChannel: string | null;
+  assessed: boolean;
+}
+
+async function loadRun(runId: string): Promise<StoredRun> {
+  const run = await getRunStore().getRun(runId);
+  if (!run) throw new Error(`Workflow run ${runId} not found`);
+  return run;
+}
+
+export function getRunProgress(run: StoredRun): RunProgress {
+  const results = run.stepResults;
+  let currentStep = 0;
+  let currentChannel: string | null = null;
+  for (const result of Object.values(results)) {
+    const match = /^step-(\d+)-transition$/.exec(result.stepId);
+    if (!match || result.status !== "succeeded") continue;
+    const stepNumber = Number(match[1]);
+    if (stepNumber > currentStep) {
+      currentStep = stepNumber;
+      currentChannel = (result.outputs?.channel as string) ?? null;
+    }
+  }
+  const assessed = Object.values(results).some(result => result.stepId === ASSESSMENT_STEP_ID && result.status === "succeeded");
+  return { currentStep, currentChannel, assessed };
+}
+
+export async function getSessionRunProgress(runId: string): Promise<RunProgress> {
+  return getRunProgress(await loadRun(runId));
+}
+
+/**
+ * Executes one step of a session run and records its inputs, outputs,
+ * timing and error on the run. Failures are recorded, then rethrown.
+ * Running an execution ID that already has a result is a retry of it.
+ */
+async function executeRunStep<T>(
+  runId: string,
+  stepId: string,
+  inputs: Record<string, unknown>,
+  execute: () => Promise<T>,
+  executionId = stepId,
+): Promise<T> {
+  const run = await loadRun(runId);
+  const previous = run.stepResults[executionId];
+  const startedAt = new Date();
+
+  let outputs: T | undefined;
+  let failure: Error | null = null;
+  try {
+    outputs = await execute();
+  } catch (e: any) {
+    failure = e instanceof Error ? e : new Error(String(e));
+  }
+
+  const completedAt = new Date();
+  const result: SessionStepResult = {
+    stepId,
+    executionId,
+    status: failure ? "failed" : "succeeded",
+    inputs,
+    outputs: failure ? null : (outputs as unknown as Record<string, unknown>),
+    attempts: (previous?.attempts ?? 0) + 1,
+    startedAt: startedAt.toISOString(),
+    completedAt: completedAt.toISOString(),
+    durationMs: completedAt.getTime() - startedAt.getTime(),
+    error: failure?.message ?? null,
+  };
+
+  const finished = stepId === ASSESSMENT_STEP_ID && !failure;
+  const store = getRunStore();
+  await store.recordStepResult(runId, result, finished ? "succeeded" : "running");
+  if (finished) {
+    const policy = getRunRetentionPolicy(store.name);
+    if (policy.maxAgeMs > 0 || policy.maxCount > 0) await store.pruneCompletedRuns(policy);
+  }
+
+  if (failure) throw failure;
+  return outputs as T;
+}
+
+// ─── Run Retention ───────────────────────────────────────────────────────────
+//
+// A session run is complete once its assessment step succeeds. The postgres
+// store is the audit trail for how replies and assessments were produced, so
+// it keeps every run unless BILKO_RUN_RETENTION_HOURS or
+// BILKO_MAX_COMPLETED_RUNS is set. The memory store keeps completed runs for
+// 168 hours and only the most recent 1000 by default. Runs outside the policy
+// are pruned whenever another run completes; 0 lifts a limit.
+
+const MEMORY_RETENTION_DEFAULTS = { hours: 168, count: 1000 };
+
+export function getRunRetentionPolicy(storeName: string, env: NodeJS.ProcessEnv = process.env): RunRetentionPolicy {
+  const defaults = storeName === "memory" ? MEMORY_RETENTION_DEFAULTS : { hours: 0, count: 0 };
+  const hours = parseInt(env.BILKO_RUN_RETENTION_HOURS || String(defaults.hours), 10);
+  const count = parseInt(env.BILKO_MAX_COMPLETED_RUNS || String(defaults.count), 10);
+  return {
+    maxAgeMs: (isNaN(hours) ? defaults.hours : hours) * 60 * 60 * 1000,
+    maxCount: isNaN(count) ? defaults.count : count,
+  };
+}
+
+// ─── Session Run Lifecycle ───────────────────────────────────────────────────
+
+function getChannelForStep(scenario: Scenario, stepNumber: number): string {
+  const channels = scenario.channels as string[];
+  return channels[(stepNumber - 1) % channels.length];
+}
+
+/**
+ * Returns the session's run ID. Sessions without a run (or whose run is no
+ * longer in the store) get a new one, caught up to the session's current
+ * step, and the ID is saved on the session.
+ */
+export async function ensureSessionRun(session: Session): Promise<string> {
+  if (session.workflowRunId && (await getRunStore().getRun(session.workflowRunId))) {
+    return session.workflowRunId;
+  }
+
+  const scenario = await storage.getScenario(session.scenarioId);
+  if (!scenario) throw new Error("Scenario not found");
+
+  const runId = await createScenarioRun(scenario.id, session.id);
+  await storage.updateSession(session.id, { workflowRunId: runId });
+
+  const stepNumber = Math.min(Math.max(session.currentStep, 1), scenario.estimatedSteps);
+  await executeSessionTransition(runId, getChannelForStep(scenario, stepNumber), stepNumber);
+  return runId;
+}
+
+/** Runs the session's `step-N-transition` step and returns the updated progress. */
+export async function executeSessionTransition(
+  runId: string,
+  channel: string,
+  stepNumber: number,
+): Promise<{ transitionMessage: string; progress: RunProgress }> {
+  const outputs = await executeRunStep(
+    runId,
+    getTransitionStepId(stepNumber),
+    { channel, stepNumber },
+    async () => ({ transitionMessage: await executeChannelTransitionStep(channel, stepNumber), channel }),
+  );
+  return { transitionMessage: outputs.transitionMessage, progress: await getSessionRunProgress(runId) };
+}
+
+/**
+ * Persona steps execute once per user turn and replying persona: the turn's
+ * message ID and the persona tell the executions apart, so every participant
+ * in a meeting turn keeps its own result.
+ */
+function getPersonaExecutionId(stepId: string, inputs: Record<string, unknown>): string {
+  const turn = typeof inputs.userMessageId === "number" ? `message-${inputs.userMessageId}` : "opening";
+  return `${stepId}@${turn}/persona-${inputs.personaId}`;
+}
+
+/**
+ * Runs the session's `step-N-persona` step for one user turn. The turn is the
+ * saved user message the reply answers, passed in rather than looked up, as
+ * the rep may have sent more by the time a delayed reply runs; `null` is a
+ * persona-initiated message such as the opening outreach.
+ */
+export async function executeSessionPersonaResponse(
+  runId: string,
+  sessionId: number,
+  scenarioId: number,
+  personaId: number,
+  personaType: string,
+  userMessage: string,
+  userMessageId: number | null,
+  channel: string,
+  step: number,
+  replyId?: string,
+  meeting?: MeetingCue,
+): Promise<PersonaResponseResult> {
+  const inputs = await buildPersonaResponseInputs(sessionId, personaId, personaType, userMessage, userMessageId, channel, replyId, meeting);
+  const stepId = getPersonaStepId(Math.max(step, 1));
+  return executeRunStep(runId, stepId, inputs, () => executePersonaResponseStep(inputs), getPersonaExecutionId(stepId, inputs));
+}
+
+/** Runs the session's final `step-assessment` step, completing the run. */
+export async function executeSessionAssessment(
+  runId: string,
+  sessionId: number,
+): Promise<Awaited<ReturnType<typeof executeAssessmentStep>>> {
+  const inputs = await buildAssessmentInputs(sessionId);
+  return executeRunStep(runId, ASSESSMENT_STEP_ID, inputs, () => executeAssessmentStep(inputs));
+}
+
+// ─── Run Inspection ──────────────────────────────────────────────────────────
+
+export interface RunTimelineStep extends SessionStepResult {
+  handlerType: string;
+  label: string;
+}
+
+export interface RunSummary {
+  id: string;
+  workflowId: string;
+  status: StoredRun["status"];
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  stepCount: number;
+  failedStepCount: number;
+  /** Whether this is the run currently driving the session. */
+  current: boolean;
+}
+
+export interface RunDetail extends Omit<StoredRun, "stepResults"> {
+  steps: RunTimelineStep[];
+}
+
+function describeStep(stepId: string): { handlerType: string; label: string } {
+  if (stepId === ASSESSMENT_STEP_ID) return { handlerType: "custom.assessment", label: "Assessment" };
+  const match = /^step-(\d+)-(transition|persona)$/.exec(stepId);
+  if (!match) return { handlerType: "unknown", label: stepId };
+  return match[2] === "transition"
+    ? { handlerType: "custom.channel-transition", label: `Step ${match[1]}: Channel Transition` }
+    : { handlerType: "custom.persona-response", label: `Step ${match[1]}: Persona Response` };
+}
+
+/** The run's step results in execution order. */
+export function getRunTimeline(run: StoredRun): RunTimelineStep[] {
+  return Object.values(run.stepResults)
+    .map(result => ({ ...result, ...describeStep(result.stepId) }))
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+export async function getSessionRunSummaries(session: Session): Promise<RunSummary[]> {
+  const runs = await getRunStore().listRunsForSession(session.id);
+  return runs.map(run => {
+    const results = Object.values(run.stepResults);
+    return {
+      id: run.id,
+      workflowId: run.workflowId,
+      status: run.status,
+      createdAt: run.createdAt,
+      updatedAt: run.updatedAt,
+      completedAt: run.completedAt,
+      stepCount: results.length,
+      failedStepCount: results.filter(result => result.status === "failed").length,
+      current: run.id === session.workflowRunId,
+    };
+  });
+}
+
+export async function getRunDetail(runId: string): Promise<RunDetail | null> {
+  const run = await getRunStore().getRun(runId);
+  if (!run) return null;
+  const { stepResults, ...rest } = run;
+  return { ...rest, steps: getRunTimeline(run) };
+}
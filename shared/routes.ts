@@ -90,6 +90,14 @@ export const api = {
       method: 'POST' as const,
       path: '/api/sessions/:sessionId/advance' as const,
     },
+    pause: {
+      method: 'POST' as const,
+      path: '/api/sessions/:sessionId/pause' as const,
+    },
+    resume: {
+      method: 'POST' as const,
+      path: '/api/sessions/:sessionId/resume' as const,
+    },
   },
   messages: {
     list: {
@@ -114,6 +122,20 @@ export const api = {
       method: 'PATCH' as const,
       path: '/api/artifacts/:id' as const,
     },
+    revisions: {
+      method: 'GET' as const,
+      path: '/api/artifacts/:id/revisions' as const,
+    },
+    diff: {
+      method: 'GET' as const,
+      path: '/api/artifacts/:id/revisions/diff' as const,
+    },
+  },
+  commitments: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/sessions/:sessionId/commitments' as const,
+    },
   },
   assessments: {
     get: {
@@ -129,6 +151,21 @@ export const api = {
       path: '/api/assessments/:id/hitl' as const,
     },
   },
+  runs: {
+    listForSession: {
+      method: 'GET' as const,
+      path: '/api/sessions/:id/runs' as const,
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/runs/:runId' as const,
+    },
+  },
+  realtime: {
+    session: {
+      path: '/ws/sessions/:sessionId' as const,
+    },
+  },
   userConfig: {
     get: {
       method: 'GET' as const,
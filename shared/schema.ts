@@ -1,7 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, pgEnum, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // ─── Enums ───────────────────────────────────────────────────────────────────
 
@@ -11,7 +11,10 @@ export const difficultyEnum = pgEnum("difficulty", ["intro", "intermediate", "ad
 export const artifactTypeEnum = pgEnum("artifact_type", ["one_pager", "email_recap", "risk_register", "meeting_agenda", "deck", "newsletter_brief", "custom"]);
 export const artifactStatusEnum = pgEnum("artifact_status", ["draft", "submitted", "under_review", "revision_requested", "approved"]);
 export const sessionStatusEnum = pgEnum("session_status", ["briefing", "active", "paused", "awaiting_review", "completed"]);
-export const assessmentStatusEnum = pgEnum("assessment_status", ["pending", "in_progress", "completed"]);
+export const assessmentStatusEnum = pgEnum("assessment_status", ["pending", "in_progress", "completed", "failed"]);
+export const jobStatusEnum = pgEnum("job_status", ["queued", "running", "succeeded", "failed"]);
+export const workflowRunStatusEnum = pgEnum("workflow_run_status", ["created", "running", "succeeded", "failed"]);
+export const workflowStepStatusEnum = pgEnum("workflow_step_status", ["succeeded", "failed"]);
 
 // ─── Personas ────────────────────────────────────────────────────────────────
 
@@ -26,6 +29,7 @@ export const personas = pgTable("personas", {
   systemPrompt: text("system_prompt").notNull(),
   behavioralInstructions: text("behavioral_instructions").notNull(),
   traits: jsonb("traits").$type<string[]>().notNull().default([]),
+  priorities: jsonb("priorities").$type<string[]>().notNull().default([]), // stated priorities, shown when the persona joins a session
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -54,6 +58,24 @@ export const scenarios = pgTable("scenarios", {
     regulatoryExposure: boolean;
   }>().notNull(),
   requiredArtifacts: jsonb("required_artifacts").$type<string[]>().notNull().default([]),
+  // Ties each required artifact to the step it is due by; "block" stops advancing / assessment, "penalize" deducts points
+  artifactPolicy: jsonb("artifact_policy").$type<{
+    enforcement: "block" | "penalize";
+    dueByStep: Record<string, number>;
+    penaltyPerMissing: number;
+  }>(),
+  // Per-step time budgets under ticking-clock pressure; null uses per-channel defaults (server/step-timer.ts)
+  stepTimers: jsonb("step_timers").$type<{
+    defaultSeconds?: number;
+    stepSeconds?: Record<string, number>;
+    onTimeout: "escalate" | "advance";
+  }>(),
+  // Whether assessment-mode sessions may pause, and how much; null allows it (server/session-pause.ts)
+  pausePolicy: jsonb("pause_policy").$type<{
+    assessmentMode: "allow" | "cap" | "forbid";
+    maxPauses?: number;
+    maxPausedSeconds?: number;
+  }>(),
   competencies: jsonb("competencies").$type<string[]>().notNull().default([]),
   learningObjectives: jsonb("learning_objectives").$type<string[]>().notNull().default([]),
   clientProfile: jsonb("client_profile").$type<{
@@ -112,6 +134,7 @@ export const sessions = pgTable("sessions", {
   currentChannel: channelTypeEnum("current_channel").notNull().default("email"),
   userRole: text("user_role").notNull(),
   userSeniority: text("user_seniority").notNull(),
+  seed: integer("seed").notNull().default(sql`floor(random() * 2147483647)::integer`), // PRNG seed for reproducible replies and scores
   config: jsonb("config").$type<{
     procurementStrictness: boolean;
     complianceSensitivity: boolean;
@@ -121,6 +144,16 @@ export const sessions = pgTable("sessions", {
     complianceSensitivity: false,
     tickingClockPressure: false,
   }),
+  workflowRunId: text("workflow_run_id"), // bilko-flow scenario run driving this session
+  stepStartedAt: timestamp("step_started_at"), // when the current step's clock started
+  stepDeadlineAt: timestamp("step_deadline_at"), // ticking-clock deadline for the current step; null when untimed
+  stepExpiredAt: timestamp("step_expired_at"), // set once the current step's deadline has been handled
+  pauses: jsonb("pauses").$type<Array<{
+    startedAt: string;
+    endedAt: string | null; // null while the session is paused
+    reason: "manual" | "inactivity";
+  }>>().notNull().default([]),
+  lastActivityAt: timestamp("last_activity_at").defaultNow().notNull(), // latest rep action, for auto-pause
   startedAt: timestamp("started_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
 });
@@ -129,6 +162,8 @@ export const sessionsRelations = relations(sessions, ({ one, many }) => ({
   scenario: one(scenarios, { fields: [sessions.scenarioId], references: [scenarios.id] }),
   messages: many(messages),
   artifacts: many(artifacts),
+  personaStates: many(personaStates),
+  memories: many(sessionMemories),
   assessment: one(assessments),
 }));
 
@@ -144,6 +179,7 @@ export const messages = pgTable("messages", {
   content: text("content").notNull(),
   metadata: jsonb("metadata").$type<Record<string, unknown>>(),
   step: integer("step").notNull().default(0),
+  responseLatencyMs: integer("response_latency_ms"), // user turns: time since the previous message
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -152,6 +188,47 @@ export const messagesRelations = relations(messages, ({ one }) => ({
   persona: one(personas, { fields: [messages.personaId], references: [personas.id] }),
 }));
 
+// ─── Persona States (per-session trust / patience / perceived value) ────────
+
+export const personaStates = pgTable("persona_states", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => sessions.id),
+  personaId: integer("persona_id").notNull().references(() => personas.id),
+  trust: integer("trust").notNull(), // 0-100
+  patience: integer("patience").notNull(), // 0-100
+  perceivedValue: integer("perceived_value").notNull(), // 0-100
+  stance: text("stance").notNull().default("neutral"), // "supportive" | "neutral" | "skeptical" | "opposed", derived from the state
+  turnCount: integer("turn_count").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("persona_states_session_persona_unique").on(table.sessionId, table.personaId),
+]);
+
+export const personaStatesRelations = relations(personaStates, ({ one }) => ({
+  session: one(sessions, { fields: [personaStates.sessionId], references: [sessions.id] }),
+  persona: one(personas, { fields: [personaStates.personaId], references: [personas.id] }),
+}));
+
+// ─── Session Memory (what the rep has told the personas, see server/session-memory.ts) ─
+
+export const sessionMemories = pgTable("session_memories", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => sessions.id),
+  messageId: integer("message_id").notNull().references(() => messages.id),
+  kind: text("kind").notNull(), // "fact" | "number" | "promise" | "question"
+  subject: text("subject"), // e.g. "price", "pilot", "security review"; null when none was recognised
+  value: text("value"), // normalised figure or date for numbers and promises, "yes" / "no" for facts
+  content: text("content").notNull(), // the sentence it was taken from
+  channel: channelTypeEnum("channel").notNull(),
+  step: integer("step").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const sessionMemoriesRelations = relations(sessionMemories, ({ one }) => ({
+  session: one(sessions, { fields: [sessionMemories.sessionId], references: [sessions.id] }),
+  message: one(messages, { fields: [sessionMemories.messageId], references: [messages.id] }),
+}));
+
 // ─── Artifacts (Graded deliverables) ─────────────────────────────────────────
 
 export const artifacts = pgTable("artifacts", {
@@ -177,13 +254,42 @@ export const artifacts = pgTable("artifacts", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const artifactsRelations = relations(artifacts, ({ one }) => ({
+export const artifactsRelations = relations(artifacts, ({ one, many }) => ({
   session: one(sessions, { fields: [artifacts.sessionId], references: [sessions.id] }),
   template: one(templates, { fields: [artifacts.templateId], references: [templates.id] }),
+  revisions: many(artifactRevisions),
+}));
+
+// ─── Artifact Revisions (snapshot of every save) ────────────────────────────
+
+export const artifactRevisions = pgTable("artifact_revisions", {
+  id: serial("id").primaryKey(),
+  artifactId: integer("artifact_id").notNull().references(() => artifacts.id),
+  revisionNumber: integer("revision_number").notNull(), // 1, 2, 3... per artifact
+  version: integer("version").notNull(), // artifacts.version at the time of the save
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  status: artifactStatusEnum("status").notNull(),
+  feedback: text("feedback"),
+  score: integer("score"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("artifact_revisions_artifact_revision_unique").on(table.artifactId, table.revisionNumber),
+]);
+
+export const artifactRevisionsRelations = relations(artifactRevisions, ({ one }) => ({
+  artifact: one(artifacts, { fields: [artifactRevisions.artifactId], references: [artifacts.id] }),
 }));
 
 // ─── Assessments ─────────────────────────────────────────────────────────────
 
+/** A pointer from a score or friction point back to the turn or artifact that justifies it. */
+export interface EvidenceRef {
+  messageId?: number;
+  artifactId?: number;
+  excerpt: string;
+}
+
 export const assessments = pgTable("assessments", {
   id: serial("id").primaryKey(),
   sessionId: integer("session_id").notNull().references(() => sessions.id).unique(),
@@ -200,14 +306,18 @@ export const assessments = pgTable("assessments", {
     sequencingStrategy: number;
     decisionQuality: number;
   }>(),
+  scoreRationales: jsonb("score_rationales").$type<Record<string, string>>(), // one written rationale per scored dimension
+  scoreEvidence: jsonb("score_evidence").$type<Record<string, EvidenceRef[]>>(), // message/artifact refs per scored dimension
   frictionPoints: jsonb("friction_points").$type<Array<{
     area: string;
     description: string;
     severity: "low" | "medium" | "high";
     channel: string;
+    evidence?: EvidenceRef[];
   }>>(),
   strengths: jsonb("strengths").$type<string[]>(),
   areasForImprovement: jsonb("areas_for_improvement").$type<string[]>(),
+  activeConstraints: jsonb("active_constraints").$type<string[]>().notNull().default([]), // constraint keys active when scored
   hitlRequired: boolean("hitl_required").notNull().default(true),
   hitlVerdict: text("hitl_verdict"),
   hitlNotes: text("hitl_notes"),
@@ -215,8 +325,33 @@ export const assessments = pgTable("assessments", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const assessmentsRelations = relations(assessments, ({ one }) => ({
+export const assessmentsRelations = relations(assessments, ({ one, many }) => ({
   session: one(sessions, { fields: [assessments.sessionId], references: [sessions.id] }),
+  jobs: many(assessmentJobs),
+}));
+
+// ─── Assessment Jobs (Postgres-backed queue, see server/assessment-queue.ts) ─
+
+export const assessmentJobs = pgTable("assessment_jobs", {
+  id: serial("id").primaryKey(),
+  assessmentId: integer("assessment_id").notNull().references(() => assessments.id),
+  sessionId: integer("session_id").notNull().references(() => sessions.id),
+  status: jobStatusEnum("status").notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  progress: integer("progress").notNull().default(0), // 0-100
+  progressMessage: text("progress_message"),
+  lastError: text("last_error"),
+  runAfter: timestamp("run_after").defaultNow().notNull(), // retries are scheduled with backoff
+  lockedAt: timestamp("locked_at"), // set while a worker holds the job
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const assessmentJobsRelations = relations(assessmentJobs, ({ one }) => ({
+  assessment: one(assessments, { fields: [assessmentJobs.assessmentId], references: [assessments.id] }),
+  session: one(sessions, { fields: [assessmentJobs.sessionId], references: [sessions.id] }),
 }));
 
 // ─── User Configuration (stored in-memory for now, no auth) ──────────────────
@@ -240,15 +375,68 @@ export const userConfigs = pgTable("user_configs", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// ─── Workflow Runs (bilko-flow audit trail, see server/bilko-store.ts) ──────
+
+export const workflowDefinitions = pgTable("workflow_definitions", {
+  id: text("id").primaryKey(), // bilko-flow workflow ID, e.g. wf-scenario-3
+  name: text("name").notNull(),
+  version: integer("version").notNull(),
+  definition: jsonb("definition").$type<Record<string, unknown>>().notNull(), // the full bilko-flow Workflow
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const workflowRuns = pgTable("workflow_runs", {
+  id: text("id").primaryKey(),
+  workflowId: text("workflow_id").notNull().references(() => workflowDefinitions.id),
+  sessionId: integer("session_id").references(() => sessions.id),
+  status: workflowRunStatusEnum("status").notNull().default("created"),
+  inputs: jsonb("inputs").$type<Record<string, unknown>>().notNull().default({}),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const workflowStepResults = pgTable("workflow_step_results", {
+  id: serial("id").primaryKey(),
+  runId: text("run_id").notNull().references(() => workflowRuns.id),
+  stepId: text("step_id").notNull(),
+  executionId: text("execution_id").notNull(), // step ID, plus the user turn and persona for persona steps
+  status: workflowStepStatusEnum("status").notNull(),
+  inputs: jsonb("inputs").$type<Record<string, unknown>>().notNull().default({}),
+  outputs: jsonb("outputs").$type<Record<string, unknown>>(),
+  attempts: integer("attempts").notNull().default(1), // runs of this execution; above 1 only on retries
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull(),
+  completedAt: timestamp("completed_at").notNull(),
+  durationMs: integer("duration_ms").notNull(),
+}, (table) => [
+  unique("workflow_step_results_run_execution_unique").on(table.runId, table.executionId),
+]);
+
+export const workflowRunsRelations = relations(workflowRuns, ({ one, many }) => ({
+  workflow: one(workflowDefinitions, { fields: [workflowRuns.workflowId], references: [workflowDefinitions.id] }),
+  session: one(sessions, { fields: [workflowRuns.sessionId], references: [sessions.id] }),
+  stepResults: many(workflowStepResults),
+}));
+
+export const workflowStepResultsRelations = relations(workflowStepResults, ({ one }) => ({
+  run: one(workflowRuns, { fields: [workflowStepResults.runId], references: [workflowRuns.id] }),
+}));
+
 // ─── Insert schemas ──────────────────────────────────────────────────────────
 
 export const insertPersonaSchema = createInsertSchema(personas).omit({ id: true, createdAt: true });
 export const insertScenarioSchema = createInsertSchema(scenarios).omit({ id: true, createdAt: true });
 export const insertTemplateSchema = createInsertSchema(templates).omit({ id: true, createdAt: true });
-export const insertSessionSchema = createInsertSchema(sessions).omit({ id: true, startedAt: true, completedAt: true });
+export const insertSessionSchema = createInsertSchema(sessions).omit({ id: true, workflowRunId: true, stepStartedAt: true, stepDeadlineAt: true, stepExpiredAt: true, pauses: true, lastActivityAt: true, startedAt: true, completedAt: true });
 export const insertMessageSchema = createInsertSchema(messages).omit({ id: true, createdAt: true });
+export const insertPersonaStateSchema = createInsertSchema(personaStates).omit({ id: true, updatedAt: true });
+export const insertSessionMemorySchema = createInsertSchema(sessionMemories).omit({ id: true, createdAt: true });
 export const insertArtifactSchema = createInsertSchema(artifacts).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertArtifactRevisionSchema = createInsertSchema(artifactRevisions).omit({ id: true, createdAt: true });
 export const insertAssessmentSchema = createInsertSchema(assessments).omit({ id: true, createdAt: true, completedAt: true });
+export const insertAssessmentJobSchema = createInsertSchema(assessmentJobs).omit({ id: true, createdAt: true, updatedAt: true, completedAt: true });
 export const insertUserConfigSchema = createInsertSchema(userConfigs).omit({ id: true, updatedAt: true });
 
 // ─── Route-level validation schemas ─────────────────────────────────────────
@@ -260,13 +448,15 @@ const channelValues = ["email", "call", "deck_review", "follow_up", "internal_co
 export const createMessageBodySchema = z.object({
   content: z.string().min(1, "Message content is required").max(10000, "Message content too long"),
   channel: z.enum(channelValues).optional(),
+  /** The persona the rep addressed with an @mention; defaults to the last persona to speak on the channel */
+  targetPersonaId: z.number().int().positive().optional(),
 });
 
 /** POST /api/sessions/:sessionId/artifacts — artifact creation (sessionId from URL) */
 export const createArtifactBodySchema = z.object({
   type: z.enum(["one_pager", "email_recap", "risk_register", "meeting_agenda", "deck", "newsletter_brief", "custom"]),
   title: z.string().min(1, "Artifact title is required").max(500),
-  content: z.string().min(1, "Artifact content is required"),
+  content: z.string().min(1, "Artifact content is required").max(50000, "Artifact content too long"),
   version: z.number().int().positive().optional(),
   status: z.enum(["draft", "submitted", "under_review", "revision_requested", "approved"]).optional(),
   templateId: z.number().int().positive().nullable().optional(),
@@ -285,14 +475,18 @@ export const createArtifactBodySchema = z.object({
 /** PATCH /api/artifacts/:id */
 export const updateArtifactBodySchema = createArtifactBodySchema.partial();
 
+/** GET /api/artifacts/:id/revisions/diff?from=&to= — revision numbers to compare */
+export const artifactDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive(),
+});
+
 /** PATCH /api/templates/:id */
 export const updateTemplateBodySchema = insertTemplateSchema.partial();
 
-/** PATCH /api/sessions/:id */
+/** PATCH /api/sessions/:id — pausing and resuming go through the pause / resume routes; the step and channel follow the run */
 export const updateSessionBodySchema = z.object({
-  status: z.enum(["briefing", "active", "paused", "awaiting_review", "completed"]).optional(),
-  currentStep: z.number().int().min(0).optional(),
-  currentChannel: z.enum(channelValues).optional(),
+  status: z.enum(["briefing", "active", "awaiting_review", "completed"]).optional(),
   mode: z.enum(["practice", "assessment"]).optional(),
   config: z.object({
     procurementStrictness: z.boolean(),
@@ -344,15 +538,42 @@ export type InsertSession = z.infer<typeof insertSessionSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
+export type PersonaState = typeof personaStates.$inferSelect;
+export type InsertPersonaState = z.infer<typeof insertPersonaStateSchema>;
+
+export type SessionMemory = typeof sessionMemories.$inferSelect;
+export type InsertSessionMemory = z.infer<typeof insertSessionMemorySchema>;
+
 export type Artifact = typeof artifacts.$inferSelect;
 export type InsertArtifact = z.infer<typeof insertArtifactSchema>;
 
+export type ArtifactRevision = typeof artifactRevisions.$inferSelect;
+export type InsertArtifactRevision = z.infer<typeof insertArtifactRevisionSchema>;
+
 export type Assessment = typeof assessments.$inferSelect;
 export type InsertAssessment = z.infer<typeof insertAssessmentSchema>;
 
+export type AssessmentJob = typeof assessmentJobs.$inferSelect;
+export type InsertAssessmentJob = z.infer<typeof insertAssessmentJobSchema>;
+
 export type UserConfig = typeof userConfigs.$inferSelect;
 export type InsertUserConfig = z.infer<typeof insertUserConfigSchema>;
 
+export type WorkflowDefinition = typeof workflowDefinitions.$inferSelect;
+export type WorkflowRun = typeof workflowRuns.$inferSelect;
+export type WorkflowStepResult = typeof workflowStepResults.$inferSelect;
+
+/** Pushed to clients subscribed to a session's WebSocket channel (server/session-events.ts). */
+export type SessionEvent =
+  | { type: "message.created"; sessionId: number; message: Message }
+  | { type: "session.updated"; sessionId: number; session: Session }
+  | { type: "artifact.updated"; sessionId: number; artifact: Artifact }
+  | { type: "assessment.updated"; sessionId: number; assessment: Assessment }
+  | { type: "assessment.job"; sessionId: number; job: AssessmentJob }
+  | { type: "reply.typing"; sessionId: number; replyId: string; personaId: number; personaName: string; channel: string }
+  | { type: "reply.delta"; sessionId: number; replyId: string; delta: string }
+  | { type: "reply.failed"; sessionId: number; replyId: string; error: string };
+
 // Keep existing greeting for backward compatibility
 export const greetings = pgTable("greetings", {
   id: serial("id").primaryKey(),